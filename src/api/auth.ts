@@ -0,0 +1,135 @@
+import { type RequestHandler, type Response } from "express";
+import { type ApiKeyStore, hasScope } from "../lib/apikeys.js";
+import { ActionType, type ApiKey, type ApiScope } from "../lib/types.js";
+import { type Observer } from "../observer/observer.js";
+import { type Attribution } from "./operations.js";
+import { ProblemCode, sendProblem } from "./problem.js";
+import { type RouteSpec } from "./routes.js";
+
+const BEARER_PATTERN = /^Bearer\s+(\S+)$/i;
+
+export interface Auth {
+  /**
+   * Identifies the caller from its `Authorization: Bearer` header. It never
+   * rejects a request itself, so that rejected requests are still logged.
+   */
+  authenticate: RequestHandler;
+  /** Answers 401 without a valid key and 403 without the route's scope, unless the route is public. */
+  authorize(spec: RouteSpec): RequestHandler;
+  /** Counts a validated submission against the key's daily quota, or answers 429. */
+  enforceQuota: RequestHandler;
+  /** For scopes that depend on the request: answers 403 and returns false if the key lacks it. */
+  allows(res: Response, scope: ApiScope): boolean;
+}
+
+/** The key the request was made with, if authentication is enabled. */
+export function apiKeyOf(res: Response): ApiKey | undefined {
+  return res.locals.apiKey as ApiKey | undefined;
+}
+
+/** Log fields attributing an action to the key that asked for it. */
+export function attribution(res: Response): Attribution {
+  const apiKey = apiKeyOf(res);
+  return apiKey ? { apiKeyId: apiKey.id } : {};
+}
+
+function forbid(res: Response, apiKey: ApiKey, scope: ApiScope): void {
+  sendProblem(
+    res,
+    403,
+    ProblemCode.INSUFFICIENT_SCOPE,
+    `API key ${apiKey.id} does not have the ${scope} scope`
+  );
+}
+
+const allowAll: Auth = {
+  authenticate: (_req, _res, next) => next(),
+  authorize: () => (_req, _res, next) => next(),
+  enforceQuota: (_req, _res, next) => next(),
+  allows: () => true,
+};
+
+/** Key-based auth, or none at all when no key store is given. */
+export function createAuth(apiKeys: ApiKeyStore | undefined, observer: Observer): Auth {
+  if (!apiKeys) return allowAll;
+
+  return {
+    authenticate: (req, res, next) => {
+      const header = req.get("Authorization");
+      if (header !== undefined) {
+        const key = BEARER_PATTERN.exec(header)?.[1];
+        const apiKey = key === undefined ? undefined : apiKeys.verifyKey(key);
+        if (apiKey) res.locals.apiKey = apiKey;
+        else res.locals.authFailure = "The API key is invalid or has been revoked";
+      }
+      next();
+    },
+
+    authorize: (spec) => (_req, res, next) => {
+      const { scope } = spec;
+      if (scope === undefined) {
+        next();
+        return;
+      }
+
+      const apiKey = apiKeyOf(res);
+      if (!apiKey) {
+        res.setHeader("WWW-Authenticate", 'Bearer realm="birds"');
+        const failure = res.locals.authFailure as string | undefined;
+        sendProblem(
+          res,
+          401,
+          ProblemCode.UNAUTHENTICATED,
+          failure ?? "Send an API key in the Authorization header as `Bearer <key>`"
+        );
+        return;
+      }
+      if (!hasScope(apiKey, scope)) {
+        forbid(res, apiKey, scope);
+        return;
+      }
+      next();
+    },
+
+    enforceQuota: (req, res, next) => {
+      const apiKey = apiKeyOf(res);
+      if (!apiKey) {
+        next();
+        return;
+      }
+
+      // Every item of a bulk submission counts, duplicates and invalid ones included.
+      const requested = Array.isArray(req.body) ? req.body.length : 1;
+      const quota = apiKeys.consumeQuota(apiKey, requested);
+      res.setHeader("X-Quota-Limit", apiKey.dailyQuota);
+
+      if (!quota.allowed) {
+        observer.log(ActionType.API_KEY_QUOTA_EXCEEDED, "warning", {
+          apiKeyId: apiKey.id,
+          name: apiKey.name,
+          dailyQuota: apiKey.dailyQuota,
+          used: quota.used,
+          requested,
+        });
+        res.setHeader("X-Quota-Remaining", apiKey.dailyQuota - quota.used);
+        res.setHeader("Retry-After", Math.ceil((quota.resetsAt - Date.now()) / 1000));
+        sendProblem(
+          res,
+          429,
+          ProblemCode.QUOTA_EXCEEDED,
+          `Submitting ${requested} more would exceed the daily quota of ${apiKey.dailyQuota} (${quota.used} used)`
+        );
+        return;
+      }
+      res.setHeader("X-Quota-Remaining", quota.remaining);
+      next();
+    },
+
+    allows: (res, scope) => {
+      const apiKey = apiKeyOf(res);
+      if (!apiKey || hasScope(apiKey, scope)) return true;
+      forbid(res, apiKey, scope);
+      return false;
+    },
+  };
+}
@@ -0,0 +1,34 @@
+import { ApiKeyStore } from "../lib/apikeys.js";
+import { CONFIG } from "../lib/config.js";
+import { closeAll } from "../lib/db.js";
+import { ActionType, type ApiScope } from "../lib/types.js";
+import { Observer } from "../observer/observer.js";
+
+// Usage: npm run create-api-key -- ops admin
+//        npm run create-api-key -- ingest submit,read 5000
+const SCOPES: readonly ApiScope[] = ["submit", "read", "admin"];
+const [name, scopeList, quota] = process.argv.slice(2);
+const scopes = scopeList?.split(",") ?? [];
+const dailyQuota = quota === undefined ? CONFIG.DEFAULT_DAILY_SUBMISSION_QUOTA : Number(quota);
+
+if (
+  !name ||
+  scopes.length === 0 ||
+  !scopes.every((scope): scope is ApiScope => SCOPES.includes(scope as ApiScope)) ||
+  !Number.isSafeInteger(dailyQuota) ||
+  dailyQuota < 0
+) {
+  console.error("Usage: npm run create-api-key -- <name> <submit|read|admin>[,...] [dailyQuota]");
+  process.exit(1);
+}
+
+const { apiKey, key } = new ApiKeyStore(CONFIG.QUEUE_DB_PATH).createKey(name, [...new Set(scopes)], dailyQuota);
+new Observer(CONFIG.OBSERVER_DB_PATH).log(ActionType.API_KEY_CREATED, "log", {
+  keyId: apiKey.id,
+  name: apiKey.name,
+  scopes: apiKey.scopes,
+  dailyQuota: apiKey.dailyQuota,
+});
+console.log(`Created API key ${apiKey.id} (${apiKey.name}: ${apiKey.scopes.join(", ")})`);
+console.log(`Key, shown only once: ${key}`);
+closeAll();
@@ -0,0 +1,107 @@
+import crypto from "node:crypto";
+import {
+  type ErrorRequestHandler,
+  type Express,
+  type RequestHandler,
+  type Response,
+} from "express";
+import { ProblemCode, sendProblem, sendValidationProblem } from "./problem.js";
+import { type RouteSpec } from "./routes.js";
+import { type ObjectSchema, type ValidationIssue, validate } from "./schema.js";
+
+/** A request's params, query and body after validation. */
+export interface RequestInput {
+  params: Record<string, unknown>;
+  query: Record<string, unknown>;
+  body: unknown;
+}
+
+const NO_PARAMETERS: ObjectSchema = { type: "object", properties: {} };
+
+// Client-supplied IDs are kept when they are safe to log and echo back.
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/**
+ * Gives every request an ID, reusing the client's X-Request-Id when it
+ * looks sane, and echoes it in the response's X-Request-Id header.
+ */
+export const assignRequestId: RequestHandler = (req, res, next) => {
+  const given = req.get("X-Request-Id");
+  const requestId = given !== undefined && REQUEST_ID_PATTERN.test(given) ? given : crypto.randomUUID();
+  res.locals.requestId = requestId;
+  res.setHeader("X-Request-Id", requestId);
+  next();
+};
+
+export function requestInput(res: Response): RequestInput {
+  return res.locals.input as RequestInput;
+}
+
+/**
+ * Validates a request against its route spec, answering 400 with every
+ * problem found, or stores the validated input for requestInput().
+ */
+export function validateRequest(spec: RouteSpec): RequestHandler {
+  return (req, res, next) => {
+    const issues: ValidationIssue[] = [];
+    const input: RequestInput = { params: {}, query: {}, body: undefined };
+
+    const params = validate(spec.params ?? NO_PARAMETERS, { ...req.params }, "params", true);
+    if ("issues" in params) issues.push(...params.issues);
+    else input.params = params.value as Record<string, unknown>;
+
+    const query = validate(spec.query ?? NO_PARAMETERS, { ...req.query }, "query", true);
+    if ("issues" in query) issues.push(...query.issues);
+    else input.query = query.value as Record<string, unknown>;
+
+    if (spec.body) {
+      const body = validate(spec.body, req.body, "body");
+      if ("issues" in body) issues.push(...body.issues);
+      else input.body = body.value;
+    }
+
+    if (issues.length > 0) {
+      sendValidationProblem(res, issues);
+      return;
+    }
+    res.locals.input = input;
+    next();
+  };
+}
+
+/**
+ * Mounts a route. `before` runs ahead of validation (auth, body parsers) and
+ * `after` between validation and the handler (quotas).
+ */
+export function registerRoute(
+  app: Express,
+  spec: RouteSpec,
+  handler: RequestHandler,
+  before: RequestHandler[] = [],
+  after: RequestHandler[] = []
+): void {
+  app[spec.method](spec.path, ...before, validateRequest(spec), ...after, handler);
+}
+
+export const routeNotFound: RequestHandler = (req, res) => {
+  sendProblem(res, 404, ProblemCode.ROUTE_NOT_FOUND, `No endpoint for ${req.method} ${req.path}`);
+};
+
+/** Turns body parser failures and unexpected errors into problem responses. */
+export const handleErrors: ErrorRequestHandler = (err: unknown, _req, res, next) => {
+  if (res.headersSent) {
+    next(err);
+    return;
+  }
+
+  // body-parser tags its errors with a type.
+  const type = err instanceof Object ? (err as { type?: unknown }).type : undefined;
+  if (type === "entity.parse.failed") {
+    sendProblem(res, 400, ProblemCode.MALFORMED_BODY, "The request body is not valid JSON");
+  } else if (type === "entity.too.large") {
+    sendProblem(res, 413, ProblemCode.PAYLOAD_TOO_LARGE, "The request body is too large");
+  } else {
+    console.error(`Request ${String(res.locals.requestId)} failed:`, err);
+    sendProblem(res, 500, ProblemCode.INTERNAL_ERROR, "An unexpected error occurred");
+  }
+};
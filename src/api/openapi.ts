@@ -0,0 +1,144 @@
+import { ProblemCode } from "./problem.js";
+import { type RouteSpec } from "./routes.js";
+import { type ObjectSchema, type Schema } from "./schema.js";
+
+type JsonObject = Record<string, unknown>;
+
+/** Our schema subset is already JSON Schema, apart from closing objects. */
+function toJsonSchema(schema: Schema): JsonObject {
+  if ("oneOf" in schema) {
+    return { ...schema, oneOf: schema.oneOf.map(toJsonSchema) };
+  }
+  switch (schema.type) {
+    case "array":
+      return { ...schema, ...(schema.items && { items: toJsonSchema(schema.items) }) };
+    case "object":
+      return {
+        ...schema,
+        properties: Object.fromEntries(
+          Object.entries(schema.properties).map(([key, property]) => [key, toJsonSchema(property)])
+        ),
+        additionalProperties: false,
+      };
+    case "string": {
+      const { check, ...rest } = schema;
+      return rest;
+    }
+    default:
+      return { ...schema };
+  }
+}
+
+function parameters(schema: ObjectSchema | undefined, location: "path" | "query"): JsonObject[] {
+  if (!schema) return [];
+  return Object.entries(schema.properties).map(([name, property]) => {
+    // Arrays in the query string are comma-separated.
+    const commaSeparated = "type" in property && property.type === "array";
+    return {
+      name,
+      in: location,
+      required: location === "path" || (schema.required?.includes(name) ?? false),
+      schema: toJsonSchema(property),
+      ...(commaSeparated && { style: "form", explode: false }),
+    };
+  });
+}
+
+function requestBody(spec: RouteSpec): JsonObject | undefined {
+  if (!spec.body) return undefined;
+
+  const schema = toJsonSchema(spec.body);
+  if (!spec.bodyItems) {
+    return { required: true, content: { "application/json": { schema } } };
+  }
+
+  const items = toJsonSchema(spec.bodyItems);
+  return {
+    required: true,
+    content: {
+      "application/json": { schema: { ...schema, items } },
+      "application/x-ndjson": { schema: items },
+    },
+  };
+}
+
+function problemResponse(description: string): JsonObject {
+  return {
+    description,
+    content: { "application/problem+json": { schema: { $ref: "#/components/schemas/Problem" } } },
+  };
+}
+
+function responses(spec: RouteSpec): JsonObject {
+  return {
+    "2XX": { description: "Success" },
+    ...((spec.params ?? spec.query ?? spec.body) && { "400": problemResponse("The request is invalid") }),
+    ...(spec.scope && {
+      "401": problemResponse("A valid API key is required"),
+      "403": problemResponse(`The API key lacks the ${spec.scope} scope`),
+    }),
+    ...(spec.params && { "404": problemResponse("The resource was not found") }),
+    ...(spec.quota && { "429": problemResponse("The API key's daily submission quota is used up") }),
+    default: problemResponse("An error"),
+  };
+}
+
+function operation(operationId: string, spec: RouteSpec): JsonObject {
+  const body = requestBody(spec);
+  const params = [...parameters(spec.params, "path"), ...parameters(spec.query, "query")];
+  return {
+    operationId,
+    summary: spec.summary,
+    ...(spec.scope ? { security: [{ apiKey: [] }], "x-scope": spec.scope } : { security: [] }),
+    ...(params.length > 0 && { parameters: params }),
+    ...(body && { requestBody: body }),
+    responses: responses(spec),
+  };
+}
+
+const PROBLEM_SCHEMA: JsonObject = {
+  type: "object",
+  properties: {
+    type: { type: "string" },
+    title: { type: "string" },
+    status: { type: "integer" },
+    detail: { type: "string" },
+    instance: { type: "string" },
+    code: { type: "string", enum: Object.values(ProblemCode) },
+    requestId: { type: "string" },
+    errors: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: { path: { type: "string" }, message: { type: "string" } },
+        required: ["path", "message"],
+      },
+    },
+  },
+  required: ["type", "title", "status", "detail", "instance", "code", "requestId"],
+};
+
+/**
+ * An OpenAPI 3.1 document for the routes, built from the same specs that
+ * validate requests, so the two can't drift apart.
+ */
+export function buildOpenApiDocument(routes: Record<string, RouteSpec>): JsonObject {
+  const paths: Record<string, JsonObject> = {};
+  for (const [operationId, spec] of Object.entries(routes)) {
+    const path = spec.path.replace(/:(\w+)/g, "{$1}");
+    paths[path] = { ...paths[path], [spec.method]: operation(operationId, spec) };
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: { title: "Birds research API", version: "1.0.0" },
+    paths,
+    components: {
+      securitySchemes: {
+        apiKey: { type: "http", scheme: "bearer", description: "An API key, `bk_<keyId>_<secret>`" },
+      },
+      schemas: { Problem: PROBLEM_SCHEMA },
+    },
+    security: [{ apiKey: [] }],
+  };
+}
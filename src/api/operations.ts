@@ -0,0 +1,115 @@
+import { type Queue } from "../lib/queue.js";
+import { ActionType, type JobStatus, type ResearchJob } from "../lib/types.js";
+import { type Observer } from "../observer/observer.js";
+
+// Job changes made on behalf of a client or an operator, shared by the API
+// and the CLI so both log them the same way. `by` attributes the change in
+// the log entry, e.g. `{ apiKeyId }` from the API or `{ operator }` from the CLI.
+
+export type Attribution = Record<string, string>;
+
+export const DEFAULT_FAIL_REASON = "Failed by an operator";
+
+export type OperationResult =
+  | { job: ResearchJob; previousStatus: JobStatus }
+  | { error: "not-found" }
+  | { error: "conflict"; job: ResearchJob };
+
+export function logSubmission(
+  observer: Observer,
+  job: ResearchJob,
+  isDuplicate: boolean,
+  by: Attribution
+): void {
+  if (isDuplicate) {
+    observer.log(ActionType.JOB_DUPLICATE, "log", {
+      jobId: job.id,
+      name: job.name,
+      currentStatus: job.status,
+      ...by,
+    });
+  } else {
+    observer.log(ActionType.JOB_SUBMITTED, "log", {
+      jobId: job.id,
+      name: job.name,
+      ...by,
+    });
+  }
+}
+
+/** Cancels a queued or processing job. Cancelling a cancelled job is a no-op. */
+export function cancelJob(
+  queue: Queue,
+  observer: Observer,
+  jobId: string,
+  by: Attribution
+): OperationResult {
+  const previous = queue.getJob(jobId);
+  const job = queue.cancelJob(jobId);
+  if (!previous || !job) return { error: "not-found" };
+  if (job.status !== "cancelled") return { error: "conflict", job };
+
+  if (previous.status !== "cancelled") {
+    observer.log(ActionType.JOB_CANCELLED, "log", {
+      jobId: job.id,
+      name: job.name,
+      previousStatus: previous.status,
+      ...by,
+    });
+  }
+  return { job, previousStatus: previous.status };
+}
+
+/** Puts a job in any state back in the queue to run now (see Queue.requeueJob). */
+export function requeueJob(
+  queue: Queue,
+  observer: Observer,
+  jobId: string,
+  by: Attribution
+): OperationResult {
+  const previous = queue.getJob(jobId);
+  const job = queue.requeueJob(jobId);
+  if (!previous || !job) return { error: "not-found" };
+
+  observer.log(ActionType.JOB_REQUEUED, "log", {
+    jobId: job.id,
+    name: job.name,
+    previousStatus: previous.status,
+    ...by,
+  });
+  return { job, previousStatus: previous.status };
+}
+
+/**
+ * Fails a queued or processing job as a permanent error, taking it out of
+ * the queue and into the dead-letter store. A processing job's worker can
+ * no longer complete it.
+ */
+export function failJob(
+  queue: Queue,
+  observer: Observer,
+  jobId: string,
+  reason: string,
+  by: Attribution
+): OperationResult {
+  const previous = queue.getJob(jobId);
+  if (!previous) return { error: "not-found" };
+  if (previous.status !== "queued" && previous.status !== "processing") {
+    return { error: "conflict", job: previous };
+  }
+
+  const job = queue.failJob(jobId, undefined, { kind: "permanent", message: reason });
+  if (!job) return { error: "not-found" };
+
+  observer.log(ActionType.JOB_FAILED, "error", {
+    jobId: job.id,
+    name: job.name,
+    retryCount: job.retryCount,
+    errorKind: "permanent",
+    reason: job.failureReason,
+    error: reason,
+    previousStatus: previous.status,
+    ...by,
+  });
+  return { job, previousStatus: previous.status };
+}
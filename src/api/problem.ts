@@ -0,0 +1,75 @@
+import { type Response } from "express";
+import { type ValidationIssue } from "./schema.js";
+
+/** Stable machine-readable error codes. Clients should branch on these. */
+export const ProblemCode = {
+  VALIDATION_FAILED: "validation-failed",
+  MALFORMED_BODY: "malformed-body",
+  PAYLOAD_TOO_LARGE: "payload-too-large",
+  UNAUTHENTICATED: "unauthenticated",
+  INSUFFICIENT_SCOPE: "insufficient-scope",
+  QUOTA_EXCEEDED: "quota-exceeded",
+  NOT_FOUND: "not-found",
+  ROUTE_NOT_FOUND: "route-not-found",
+  JOB_NOT_CANCELLABLE: "job-not-cancellable",
+  JOB_NOT_FAILABLE: "job-not-failable",
+  INTERNAL_ERROR: "internal-error",
+} as const;
+
+export type ProblemCode = (typeof ProblemCode)[keyof typeof ProblemCode];
+
+const TITLES: Record<ProblemCode, string> = {
+  "validation-failed": "The request is invalid",
+  "malformed-body": "The request body could not be parsed",
+  "payload-too-large": "The request body is too large",
+  unauthenticated: "A valid API key is required",
+  "insufficient-scope": "The API key lacks the required scope",
+  "quota-exceeded": "The API key's daily submission quota is used up",
+  "not-found": "The resource was not found",
+  "route-not-found": "No such endpoint",
+  "job-not-cancellable": "The job can no longer be cancelled",
+  "job-not-failable": "Only a queued or processing job can be failed",
+  "internal-error": "Internal server error",
+};
+
+/** An RFC 7807 problem details object, plus our stable code and request ID. */
+export interface Problem {
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  instance: string;
+  code: ProblemCode;
+  requestId: string;
+  /** For validation-failed, every problem found in the request. */
+  errors?: ValidationIssue[];
+}
+
+export function problemType(code: ProblemCode): string {
+  return `urn:birds:problem:${code}`;
+}
+
+export function sendProblem(
+  res: Response,
+  status: number,
+  code: ProblemCode,
+  detail: string,
+  errors?: ValidationIssue[]
+): void {
+  const problem: Problem = {
+    type: problemType(code),
+    title: TITLES[code],
+    status,
+    detail,
+    instance: res.req.originalUrl,
+    code,
+    requestId: String(res.locals.requestId),
+    ...(errors && { errors }),
+  };
+  res.status(status).type("application/problem+json").json(problem);
+}
+
+export function sendValidationProblem(res: Response, issues: ValidationIssue[]): void {
+  const detail = issues.map((issue) => `${issue.path} ${issue.message}`).join("; ");
+  sendProblem(res, 400, ProblemCode.VALIDATION_FAILED, detail, issues);
+}
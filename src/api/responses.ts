@@ -0,0 +1,106 @@
+// The shapes of the API's JSON responses, shared by the server and the client.
+
+import type { QueueIndexEntry } from "../lib/queue.js";
+import type {
+  ApiScope,
+  BirdResearch,
+  FailureReason,
+  JobError,
+  JobStatus,
+  ResearchJob,
+  ResearchResult,
+  SubmitOutcome,
+} from "../lib/types.js";
+
+/** A bird's queue state alongside its last good result, from `GET /bird`. */
+export interface BirdStatus {
+  id: string;
+  name: string;
+  status: JobStatus;
+  /** The job fields are null once the job record has expired. */
+  createdAt: number | null;
+  availableForProcessingAt: number | null;
+  retryCount: number | null;
+  priority: number | null;
+  lastError: string | null;
+  failureReason: FailureReason | null;
+  errorHistory: JobError[];
+  /**
+   * The research, empty before the first result. Results stored before the
+   * research schema lack a `schemaVersion` until they are refreshed.
+   */
+  body: BirdResearch | Record<string, unknown>;
+  result: Pick<ResearchResult, "fetchedAt" | "source" | "sizeBytes"> | null;
+}
+
+/**
+ * Builds a bird's status from its queue record and its last good result. The
+ * body always comes from the results store, so a requeued refresh keeps
+ * serving the previous answer, and a bird whose queue record has expired
+ * still reads as completed.
+ */
+export function toStatusResponse(
+  job: ResearchJob | undefined,
+  result: ResearchResult | undefined
+): BirdStatus | undefined {
+  const bird = job ?? result;
+  if (!bird) return undefined;
+
+  return {
+    id: bird.id,
+    name: bird.name,
+    status: job?.status ?? "completed",
+    createdAt: job?.createdAt ?? null,
+    availableForProcessingAt: job?.availableForProcessingAt ?? null,
+    retryCount: job?.retryCount ?? null,
+    priority: job?.priority ?? null,
+    lastError: job?.lastError ?? null,
+    failureReason: job?.failureReason ?? null,
+    errorHistory: job?.errorHistory ?? [],
+    body: result?.body ?? {},
+    result: result
+      ? { fetchedAt: result.fetchedAt, source: result.source, sizeBytes: result.sizeBytes }
+      : null,
+  };
+}
+
+/** The answer to `POST /bird`. */
+export type SubmittedJob = Pick<ResearchJob, "id" | "name" | "status" | "createdAt">;
+
+export type BulkSubmitItem =
+  | ({ index: number; result: SubmitOutcome } & SubmittedJob)
+  | { index: number; result: "invalid"; error: string };
+
+export interface BulkSubmitResponse {
+  results: BulkSubmitItem[];
+}
+
+export interface JobListResponse {
+  jobs: ResearchJob[];
+  /** How many jobs matched, before the limit. */
+  total: number;
+}
+
+export interface QueueIndexResponse {
+  entries: QueueIndexEntry[];
+}
+
+export interface ReplayResponse {
+  replayed: Array<Pick<ResearchJob, "id" | "name" | "status">>;
+}
+
+export interface PurgeResponse {
+  purged: Array<Pick<ResearchJob, "id" | "name">>;
+}
+
+/** An API key as shown to admins: never the hash. */
+export interface ApiKeyView {
+  id: string;
+  name: string;
+  scopes: ApiScope[];
+  dailyQuota: number;
+  usedToday: number;
+  createdAt: number;
+  rotatedAt: number | null;
+  revokedAt: number | null;
+}
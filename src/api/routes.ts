@@ -0,0 +1,329 @@
+import { CONFIG } from "../lib/config.js";
+import { REFRESH_SCHEDULE_PATTERN } from "../lib/refresh.js";
+import {
+  ActionType,
+  type ApiScope,
+  JOB_STATUSES,
+  fitsJobIdLimit,
+  jobIdProblem,
+  toJobId,
+} from "../lib/types.js";
+import {
+  type ArraySchema,
+  type IntegerSchema,
+  type ObjectSchema,
+  type Schema,
+  type StringSchema,
+} from "./schema.js";
+
+export interface RouteSpec {
+  method: "get" | "post" | "delete";
+  /** An Express path; `:name` segments are described by `params`. */
+  path: string;
+  summary: string;
+  /** The API key scope needed to call the route. Routes without one are public. */
+  scope?: ApiScope;
+  /** Each submitted name counts against the API key's daily quota. */
+  quota?: boolean;
+  params?: ObjectSchema;
+  /** Query parameters. A route without any rejects every parameter. */
+  query?: ObjectSchema;
+  body?: Schema;
+  /**
+   * For bulk routes, the schema of each body item. Items are validated one
+   * at a time by the handler, so one bad item doesn't reject the batch.
+   */
+  bodyItems?: Schema;
+}
+
+// Letters, digits, combining marks, spaces and a little punctuation, with
+// at least one letter or digit so the name has a job ID. The job ID it makes
+// is held to the same MAX_JOB_ID_BYTES the queue enforces.
+const NAME: StringSchema = {
+  type: "string",
+  minLength: 1,
+  maxLength: CONFIG.MAX_NAME_LENGTH,
+  pattern: "^(?=.*[\\p{L}\\p{N}])[\\p{L}\\p{M}\\p{N} '\\u2019.,()\\-/&!?]+$",
+  description: "a bird name of letters, digits, spaces and simple punctuation",
+  check: (name) => jobIdProblem(toJobId(name)),
+};
+
+const JOB_ID: StringSchema = {
+  type: "string",
+  minLength: 1,
+  pattern: "^[\\p{L}\\p{M}\\p{N}]+(-[\\p{L}\\p{M}\\p{N}]+)*$",
+  description: "a job ID (lowercase words joined by hyphens)",
+  check: (id) => (fitsJobIdLimit(id) ? undefined : `must be at most ${CONFIG.MAX_JOB_ID_BYTES} bytes`),
+};
+
+const PRIORITY: IntegerSchema = { type: "integer", minimum: 0, maximum: CONFIG.MAX_PRIORITY };
+
+const TIMESTAMP: IntegerSchema = {
+  type: "integer",
+  minimum: 0,
+  description: "a timestamp in ms since the epoch",
+};
+
+const LIMIT: IntegerSchema = { type: "integer", minimum: 1, maximum: CONFIG.MAX_LOG_PAGE_SIZE };
+
+const MAX_REFRESH_LENGTH = 64;
+
+const REFRESH: StringSchema = {
+  type: "string",
+  maxLength: MAX_REFRESH_LENGTH,
+  pattern: REFRESH_SCHEDULE_PATTERN,
+  description: "a refresh schedule: @hourly, @daily, @weekly, @monthly or @every <duration> (e.g. @every 12h)",
+};
+
+/**
+ * The most a request body can need: MAX_BULK_ITEMS of the largest bulk item,
+ * which has every name character `\u` escaped as a surrogate pair (12 bytes),
+ * every schedule character escaped (6 bytes), and room for the field names,
+ * punctuation and whitespace.
+ */
+export const MAX_BODY_BYTES =
+  CONFIG.MAX_BULK_ITEMS * (12 * CONFIG.MAX_NAME_LENGTH + 6 * MAX_REFRESH_LENGTH + 256);
+
+export const JOB_REQUEST: ObjectSchema = {
+  type: "object",
+  properties: { name: NAME, priority: PRIORITY, refresh: REFRESH },
+  required: ["name"],
+};
+
+const JOB_ID_PARAMS: ObjectSchema = {
+  type: "object",
+  properties: { id: JOB_ID },
+  required: ["id"],
+};
+
+const JOB_IDS: ArraySchema = { type: "array", items: JOB_ID, minItems: 1, maxItems: CONFIG.MAX_BULK_ITEMS };
+
+const API_KEY_PARAMS: ObjectSchema = {
+  type: "object",
+  properties: { keyId: { type: "string", pattern: "^[0-9a-f]{12}$", description: "an API key ID" } },
+  required: ["keyId"],
+};
+
+const DEAD_LETTER_SELECTION: Schema = {
+  oneOf: [
+    { type: "object", properties: { ids: JOB_IDS }, required: ["ids"] },
+    { type: "object", properties: { all: { type: "boolean", enum: [true] } }, required: ["all"] },
+  ],
+  description: "either { ids: [...] } or { all: true }",
+};
+
+/** Every route in the API, keyed by operation name. */
+export const ROUTES = {
+  submitBird: {
+    method: "post",
+    path: "/bird",
+    summary: "Submit a research job",
+    scope: "submit",
+    quota: true,
+    body: JOB_REQUEST,
+  },
+  submitBirds: {
+    method: "post",
+    path: "/birds",
+    summary: "Submit many research jobs as a JSON array or NDJSON",
+    scope: "submit",
+    quota: true,
+    body: { type: "array", maxItems: CONFIG.MAX_BULK_ITEMS },
+    bodyItems: { oneOf: [NAME, JOB_REQUEST], description: "a name or { name, priority?, refresh? }" },
+  },
+  getBirdByName: {
+    method: "get",
+    path: "/bird",
+    summary: "Get a bird's job status and research by name",
+    scope: "read",
+    query: { type: "object", properties: { name: NAME }, required: ["name"] },
+  },
+  cancelBird: {
+    method: "delete",
+    path: "/bird",
+    summary: "Cancel a job, or purge it entirely",
+    scope: "submit",
+    query: {
+      type: "object",
+      properties: { name: NAME, purge: { type: "boolean" } },
+      required: ["name"],
+    },
+  },
+  streamEvents: {
+    method: "get",
+    path: "/bird/events",
+    summary: "Stream every job's status transitions as Server-Sent Events",
+    scope: "read",
+  },
+  getBird: {
+    method: "get",
+    path: "/bird/:id",
+    summary: "Get a bird's job status and research by ID",
+    scope: "read",
+    params: JOB_ID_PARAMS,
+  },
+  getBirdTrace: {
+    method: "get",
+    path: "/bird/:id/trace",
+    summary: "Get the observer trace for a job",
+    scope: "read",
+    params: JOB_ID_PARAMS,
+  },
+  streamBirdEvents: {
+    method: "get",
+    path: "/bird/:id/events",
+    summary: "Stream a bird's status transitions as Server-Sent Events",
+    scope: "read",
+    params: JOB_ID_PARAMS,
+  },
+  searchLogs: {
+    method: "get",
+    path: "/logs",
+    summary: "Search observer log entries",
+    scope: "admin",
+    query: {
+      type: "object",
+      properties: {
+        action: { type: "array", items: { type: "string", enum: Object.values(ActionType) } },
+        type: { type: "string", enum: ["log", "warning", "error"] },
+        jobId: JOB_ID,
+        workerId: { type: "string", minLength: 1, maxLength: 64 },
+        cursor: { type: "string", minLength: 1, maxLength: 256 },
+        from: TIMESTAMP,
+        to: TIMESTAMP,
+        limit: LIMIT,
+      },
+    },
+  },
+  getMetrics: {
+    method: "get",
+    path: "/metrics",
+    summary: "Get system metrics as JSON",
+    scope: "read",
+    query: {
+      type: "object",
+      properties: { window: { type: "integer", minimum: 1, description: "the window in ms" } },
+    },
+  },
+  getPrometheusMetrics: {
+    method: "get",
+    path: "/metrics/prometheus",
+    summary: "Get system metrics in the Prometheus text format",
+    scope: "read",
+  },
+  listDeadLetters: {
+    method: "get",
+    path: "/admin/dead-letters",
+    summary: "List failed jobs in the dead-letter store",
+    scope: "admin",
+    query: {
+      type: "object",
+      properties: {
+        error: { type: "string", minLength: 1, maxLength: 200 },
+        from: TIMESTAMP,
+        to: TIMESTAMP,
+        limit: LIMIT,
+      },
+    },
+  },
+  getDeadLetter: {
+    method: "get",
+    path: "/admin/dead-letters/:id",
+    summary: "Get a dead-letter entry",
+    scope: "admin",
+    params: JOB_ID_PARAMS,
+  },
+  replayDeadLetters: {
+    method: "post",
+    path: "/admin/dead-letters/replay",
+    summary: "Put dead-lettered jobs back in the queue with a fresh retry budget",
+    scope: "admin",
+    body: DEAD_LETTER_SELECTION,
+  },
+  purgeDeadLetters: {
+    method: "post",
+    path: "/admin/dead-letters/purge",
+    summary: "Remove entries from the dead-letter store",
+    scope: "admin",
+    body: DEAD_LETTER_SELECTION,
+  },
+  listJobs: {
+    method: "get",
+    path: "/admin/jobs",
+    summary: "List job records, optionally by status",
+    scope: "admin",
+    query: {
+      type: "object",
+      properties: { status: { type: "string", enum: JOB_STATUSES }, limit: LIMIT },
+    },
+  },
+  requeueJob: {
+    method: "post",
+    path: "/admin/jobs/:id/requeue",
+    summary: "Put a job in any state back in the queue to run now",
+    scope: "admin",
+    params: JOB_ID_PARAMS,
+  },
+  failJob: {
+    method: "post",
+    path: "/admin/jobs/:id/fail",
+    summary: "Fail a queued or processing job",
+    scope: "admin",
+    params: JOB_ID_PARAMS,
+    body: {
+      type: "object",
+      properties: { reason: { type: "string", minLength: 1, maxLength: 200 } },
+    },
+  },
+  getQueueIndex: {
+    method: "get",
+    path: "/admin/queue-index",
+    summary: "Dump the queue-index in claim order",
+    scope: "admin",
+  },
+  listApiKeys: {
+    method: "get",
+    path: "/admin/api-keys",
+    summary: "List API keys and their usage today",
+    scope: "admin",
+  },
+  createApiKey: {
+    method: "post",
+    path: "/admin/api-keys",
+    summary: "Create an API key",
+    scope: "admin",
+    body: {
+      type: "object",
+      properties: {
+        name: { type: "string", minLength: 1, maxLength: 64 },
+        scopes: {
+          type: "array",
+          items: { type: "string", enum: ["submit", "read", "admin"] },
+          minItems: 1,
+          maxItems: 3,
+        },
+        dailyQuota: { type: "integer", minimum: 0 },
+      },
+      required: ["name", "scopes"],
+    },
+  },
+  rotateApiKey: {
+    method: "post",
+    path: "/admin/api-keys/:keyId/rotate",
+    summary: "Replace an API key's secret",
+    scope: "admin",
+    params: API_KEY_PARAMS,
+  },
+  revokeApiKey: {
+    method: "delete",
+    path: "/admin/api-keys/:keyId",
+    summary: "Revoke an API key",
+    scope: "admin",
+    params: API_KEY_PARAMS,
+  },
+  getOpenApi: {
+    method: "get",
+    path: "/openapi.json",
+    summary: "Get the OpenAPI document describing this API",
+  },
+} satisfies Record<string, RouteSpec>;
@@ -0,0 +1,268 @@
+/**
+ * A small subset of JSON Schema: enough to validate the API's requests and
+ * to publish them. Objects never allow properties that aren't listed, and
+ * patterns are Unicode regular expressions.
+ */
+export type Schema =
+  | StringSchema
+  | IntegerSchema
+  | BooleanSchema
+  | ArraySchema
+  | ObjectSchema
+  | OneOfSchema;
+
+interface Described {
+  description?: string;
+}
+
+export interface StringSchema extends Described {
+  type: "string";
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  enum?: readonly string[];
+  /**
+   * A further check for what a pattern can't express, returning the problem
+   * if there is one. It isn't published in the OpenAPI document.
+   */
+  check?: (value: string) => string | undefined;
+}
+
+export interface IntegerSchema extends Described {
+  type: "integer";
+  minimum?: number;
+  maximum?: number;
+}
+
+export interface BooleanSchema extends Described {
+  type: "boolean";
+  enum?: readonly boolean[];
+}
+
+/** In a query string an array is given as a comma-separated list. */
+export interface ArraySchema extends Described {
+  type: "array";
+  items?: Schema;
+  minItems?: number;
+  maxItems?: number;
+}
+
+export interface ObjectSchema extends Described {
+  type: "object";
+  properties: Record<string, Schema>;
+  required?: readonly string[];
+}
+
+/** The value must match one of the options; the first match is used. */
+export interface OneOfSchema extends Described {
+  oneOf: readonly Schema[];
+}
+
+export interface ValidationIssue {
+  /** Where the problem is, e.g. `body.priority` or `query.limit`. */
+  path: string;
+  message: string;
+}
+
+export type ValidationResult = { value: unknown } | { issues: ValidationIssue[] };
+
+const patterns = new Map<string, RegExp>();
+
+function compile(pattern: string): RegExp {
+  let regex = patterns.get(pattern);
+  if (!regex) {
+    regex = new RegExp(pattern, "u");
+    patterns.set(pattern, regex);
+  }
+  return regex;
+}
+
+/**
+ * Validates a value against a schema and returns it with unknown values
+ * narrowed to the schema's types. With `coerce`, used for query strings and
+ * path parameters, strings are first converted to the integers, booleans and
+ * comma-separated arrays the schema asks for.
+ */
+export function validate(
+  schema: Schema,
+  value: unknown,
+  path: string,
+  coerce = false
+): ValidationResult {
+  const issues: ValidationIssue[] = [];
+  const result = check(schema, value, path, coerce, issues);
+  return issues.length > 0 ? { issues } : { value: result };
+}
+
+function check(
+  schema: Schema,
+  value: unknown,
+  path: string,
+  coerce: boolean,
+  issues: ValidationIssue[]
+): unknown {
+  if ("oneOf" in schema) {
+    for (const option of schema.oneOf) {
+      const optionIssues: ValidationIssue[] = [];
+      const result = check(option, value, path, coerce, optionIssues);
+      if (optionIssues.length === 0) return result;
+    }
+    issues.push({ path, message: `must be ${schema.description ?? "one of the allowed shapes"}` });
+    return value;
+  }
+
+  switch (schema.type) {
+    case "string":
+      return checkString(schema, value, path, issues);
+    case "integer":
+      return checkInteger(schema, value, path, coerce, issues);
+    case "boolean":
+      return checkBoolean(schema, value, path, coerce, issues);
+    case "array":
+      return checkArray(schema, value, path, coerce, issues);
+    case "object":
+      return checkObject(schema, value, path, coerce, issues);
+  }
+}
+
+function checkString(
+  schema: StringSchema,
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[]
+): unknown {
+  if (Array.isArray(value)) {
+    issues.push({ path, message: "must be a single value" });
+    return value;
+  }
+  if (typeof value !== "string") {
+    issues.push({ path, message: "must be a string" });
+    return value;
+  }
+
+  // Count code points rather than UTF-16 units, so limits mean characters.
+  const length = [...value].length;
+  if (schema.minLength !== undefined && length < schema.minLength) {
+    issues.push({
+      path,
+      message: schema.minLength === 1 ? "must not be empty" : `must be at least ${schema.minLength} characters`,
+    });
+  } else if (schema.maxLength !== undefined && length > schema.maxLength) {
+    issues.push({ path, message: `must be at most ${schema.maxLength} characters` });
+  } else if (schema.enum && !schema.enum.includes(value)) {
+    issues.push({ path, message: `must be one of ${schema.enum.join(", ")}` });
+  } else if (schema.pattern !== undefined && !compile(schema.pattern).test(value)) {
+    issues.push({ path, message: `must be ${schema.description ?? `a string matching ${schema.pattern}`}` });
+  } else {
+    const problem = schema.check?.(value);
+    if (problem !== undefined) issues.push({ path, message: problem });
+  }
+  return value;
+}
+
+function checkInteger(
+  schema: IntegerSchema,
+  value: unknown,
+  path: string,
+  coerce: boolean,
+  issues: ValidationIssue[]
+): unknown {
+  const n = coerce && typeof value === "string" && /^-?\d+$/.test(value) ? Number(value) : value;
+  if (typeof n !== "number" || !Number.isSafeInteger(n)) {
+    issues.push({ path, message: "must be an integer" });
+    return value;
+  }
+
+  const { minimum, maximum } = schema;
+  if ((minimum !== undefined && n < minimum) || (maximum !== undefined && n > maximum)) {
+    issues.push({
+      path,
+      message:
+        maximum === undefined
+          ? `must be at least ${minimum}`
+          : minimum === undefined
+            ? `must be at most ${maximum}`
+            : `must be between ${minimum} and ${maximum}`,
+    });
+  }
+  return n;
+}
+
+function checkBoolean(
+  schema: BooleanSchema,
+  value: unknown,
+  path: string,
+  coerce: boolean,
+  issues: ValidationIssue[]
+): unknown {
+  const b = coerce && (value === "true" || value === "false") ? value === "true" : value;
+  if (typeof b !== "boolean") {
+    issues.push({ path, message: "must be true or false" });
+    return value;
+  }
+  if (schema.enum && !schema.enum.includes(b)) {
+    issues.push({ path, message: `must be ${schema.enum.join(" or ")}` });
+  }
+  return b;
+}
+
+function checkArray(
+  schema: ArraySchema,
+  value: unknown,
+  path: string,
+  coerce: boolean,
+  issues: ValidationIssue[]
+): unknown {
+  const items = coerce && typeof value === "string" ? value.split(",") : value;
+  if (!Array.isArray(items)) {
+    issues.push({ path, message: coerce ? "must be a comma-separated list" : "must be an array" });
+    return value;
+  }
+
+  if (schema.minItems !== undefined && items.length < schema.minItems) {
+    issues.push({
+      path,
+      message: schema.minItems === 1 ? "must not be empty" : `must have at least ${schema.minItems} items`,
+    });
+  }
+  if (schema.maxItems !== undefined && items.length > schema.maxItems) {
+    issues.push({ path, message: `must have at most ${schema.maxItems} items` });
+  }
+
+  const { items: itemSchema } = schema;
+  if (!itemSchema) return items;
+  return items.map((item: unknown, index) => check(itemSchema, item, `${path}[${index}]`, coerce, issues));
+}
+
+function checkObject(
+  schema: ObjectSchema,
+  value: unknown,
+  path: string,
+  coerce: boolean,
+  issues: ValidationIssue[]
+): unknown {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    issues.push({ path, message: "must be an object" });
+    return value;
+  }
+
+  const fields = value as Record<string, unknown>;
+  const result: Record<string, unknown> = {};
+
+  for (const key of Object.keys(fields)) {
+    if (!Object.hasOwn(schema.properties, key)) {
+      issues.push({ path: `${path}.${key}`, message: "is not allowed" });
+    }
+  }
+
+  for (const [key, propertySchema] of Object.entries(schema.properties)) {
+    const field = fields[key];
+    if (field === undefined) {
+      if (schema.required?.includes(key)) issues.push({ path: `${path}.${key}`, message: "is required" });
+      continue;
+    }
+    result[key] = check(propertySchema, field, `${path}.${key}`, coerce, issues);
+  }
+
+  return result;
+}
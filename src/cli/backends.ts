@@ -0,0 +1,176 @@
+import os from "node:os";
+import { BirdsClient } from "../client/client.js";
+import {
+  type Attribution,
+  DEFAULT_FAIL_REASON,
+  type OperationResult,
+  cancelJob,
+  failJob,
+  logSubmission,
+  requeueJob,
+} from "../api/operations.js";
+import {
+  type BirdStatus,
+  type JobListResponse,
+  type SubmittedJob,
+  toStatusResponse,
+} from "../api/responses.js";
+import { JOB_REQUEST } from "../api/routes.js";
+import { validate } from "../api/schema.js";
+import { closeAll } from "../lib/db.js";
+import { Queue, type QueueIndexEntry } from "../lib/queue.js";
+import { type JobStatus, type LogAction, type ResearchJob, toJobId } from "../lib/types.js";
+import { type Metrics } from "../observer/metrics.js";
+import { Observer } from "../observer/observer.js";
+
+/** A command failed in a way worth showing the operator as is. */
+export class CliError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CliError";
+  }
+}
+
+/**
+ * What the CLI can do, either directly on the LMDB databases or through a
+ * running API. Jobs can be named by bird name or job ID.
+ */
+export interface Backend {
+  submit(name: string, priority?: number): Promise<SubmittedJob>;
+  status(name: string): Promise<BirdStatus>;
+  trace(name: string): Promise<LogAction[]>;
+  metrics(windowMs?: number): Promise<Metrics>;
+  listJobs(status?: JobStatus, limit?: number): Promise<JobListResponse>;
+  requeue(name: string): Promise<ResearchJob>;
+  fail(name: string, reason?: string): Promise<ResearchJob>;
+  cancel(name: string): Promise<BirdStatus>;
+  queueIndex(): Promise<QueueIndexEntry[]>;
+  close(): void;
+}
+
+/**
+ * Works on the queue and observer databases directly, so it needs no API but
+ * must run on the machine that holds them. Changes are logged like the
+ * API's, attributed to the local user.
+ */
+export class LocalBackend implements Backend {
+  private queue: Queue;
+  private observer: Observer;
+  private by: Attribution = { operator: os.userInfo().username };
+
+  constructor(queuePath: string, observerPath: string) {
+    this.queue = new Queue(queuePath);
+    this.observer = new Observer(observerPath);
+  }
+
+  /** Checks the request against the same schema as `POST /bird` first. */
+  async submit(name: string, priority?: number): Promise<SubmittedJob> {
+    const request = { name, ...(priority !== undefined && { priority }) };
+    const result = validate(JOB_REQUEST, request, "request");
+    if ("issues" in result) {
+      throw new CliError(result.issues.map((issue) => `${issue.path} ${issue.message}`).join("\n"));
+    }
+    const { job, isDuplicate } = this.queue.submitJob(request);
+    logSubmission(this.observer, job, isDuplicate, this.by);
+    return { id: job.id, name: job.name, status: job.status, createdAt: job.createdAt };
+  }
+
+  async status(name: string): Promise<BirdStatus> {
+    const jobId = this.resolve(name);
+    const status = toStatusResponse(this.queue.getJob(jobId), this.queue.getResult(jobId));
+    if (!status) throw new CliError(`Bird "${name}" was not found`);
+    return status;
+  }
+
+  async trace(name: string): Promise<LogAction[]> {
+    return this.observer.getTrace(this.resolve(name));
+  }
+
+  async metrics(windowMs?: number): Promise<Metrics> {
+    return this.observer.getMetrics(windowMs);
+  }
+
+  async listJobs(status?: JobStatus, limit?: number): Promise<JobListResponse> {
+    const jobs = this.queue.listJobs(status);
+    return { jobs: jobs.slice(0, limit), total: jobs.length };
+  }
+
+  async requeue(name: string): Promise<ResearchJob> {
+    return this.unwrap(name, requeueJob(this.queue, this.observer, this.resolve(name), this.by));
+  }
+
+  async fail(name: string, reason: string = DEFAULT_FAIL_REASON): Promise<ResearchJob> {
+    return this.unwrap(name, failJob(this.queue, this.observer, this.resolve(name), reason, this.by));
+  }
+
+  async cancel(name: string): Promise<BirdStatus> {
+    const jobId = this.resolve(name);
+    const job = this.unwrap(name, cancelJob(this.queue, this.observer, jobId, this.by));
+    return toStatusResponse(job, this.queue.getResult(jobId))!;
+  }
+
+  async queueIndex(): Promise<QueueIndexEntry[]> {
+    return this.queue.getQueueIndex();
+  }
+
+  close(): void {
+    closeAll();
+  }
+
+  private resolve(name: string): string {
+    return this.queue.resolveJobId(toJobId(name));
+  }
+
+  private unwrap(name: string, result: OperationResult): ResearchJob {
+    if (!("error" in result)) return result.job;
+    if (result.error === "not-found") throw new CliError(`Bird "${name}" was not found`);
+    throw new CliError(`Job ${result.job.id} is already ${result.job.status}`);
+  }
+}
+
+/** Works through a running API with the client, as the API key's owner. */
+export class RemoteBackend implements Backend {
+  private client: BirdsClient;
+
+  constructor(baseUrl: string, apiKey?: string) {
+    this.client = new BirdsClient({ baseUrl, ...(apiKey !== undefined && { apiKey }) });
+  }
+
+  submit(name: string, priority?: number): Promise<SubmittedJob> {
+    return this.client.submit(name, priority);
+  }
+
+  status(name: string): Promise<BirdStatus> {
+    return this.client.get(name);
+  }
+
+  async trace(name: string): Promise<LogAction[]> {
+    return (await this.client.trace(toJobId(name))).entries;
+  }
+
+  metrics(windowMs?: number): Promise<Metrics> {
+    return this.client.metrics(windowMs);
+  }
+
+  listJobs(status?: JobStatus, limit?: number): Promise<JobListResponse> {
+    return this.client.listJobs(status, limit);
+  }
+
+  requeue(name: string): Promise<ResearchJob> {
+    return this.client.requeue(toJobId(name));
+  }
+
+  fail(name: string, reason?: string): Promise<ResearchJob> {
+    return this.client.fail(toJobId(name), reason);
+  }
+
+  cancel(name: string): Promise<BirdStatus> {
+    return this.client.cancel(name);
+  }
+
+  queueIndex(): Promise<QueueIndexEntry[]> {
+    return this.client.queueIndex();
+  }
+
+  close(): void {}
+}
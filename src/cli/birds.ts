@@ -0,0 +1,85 @@
+import { parseArgs } from "node:util";
+import { CONFIG } from "../lib/config.js";
+import { JOB_STATUSES, type JobStatus } from "../lib/types.js";
+import { type Backend, CliError, LocalBackend, RemoteBackend } from "./backends.js";
+import { COMMANDS, type CommandOptions, runCommand } from "./commands.js";
+
+// Usage: npm run birds -- status "Brown Pelican"
+//        npm run birds -- --api http://localhost:3200 --json list --status failed
+
+function usage(): string {
+  const width = Math.max(...Object.values(COMMANDS).map(({ usage: line }) => line.length));
+  return [
+    "Usage: npm run birds -- [--api <url>] [--api-key <key>] [--json] <command> [...]",
+    "",
+    "Commands:",
+    ...Object.values(COMMANDS).map(({ usage: line, summary }) => `  ${line.padEnd(width)}  ${summary}`),
+    "",
+    "Without --api (or BIRDS_API_URL) commands work directly on the LMDB databases",
+    `at ${CONFIG.QUEUE_DB_PATH} and ${CONFIG.OBSERVER_DB_PATH}. The API key defaults to BIRDS_API_KEY.`,
+  ].join("\n");
+}
+
+function toInteger(flag: string, value: string | undefined, max?: number): number | undefined {
+  if (value === undefined) return undefined;
+  if (!/^\d+$/.test(value)) throw new CliError(`--${flag} must be a non-negative integer`);
+  const n = Number(value);
+  if (max !== undefined && n > max) throw new CliError(`--${flag} must be at most ${max}`);
+  return n;
+}
+
+function toStatus(value: string | undefined): JobStatus | undefined {
+  if (value === undefined) return undefined;
+  if (!JOB_STATUSES.includes(value as JobStatus)) {
+    throw new CliError(`--status must be one of ${JOB_STATUSES.join(", ")}`);
+  }
+  return value as JobStatus;
+}
+
+let backend: Backend | undefined;
+try {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      api: { type: "string", default: process.env.BIRDS_API_URL },
+      "api-key": { type: "string", default: process.env.BIRDS_API_KEY },
+      json: { type: "boolean", default: false },
+      priority: { type: "string" },
+      window: { type: "string" },
+      status: { type: "string" },
+      limit: { type: "string" },
+      reason: { type: "string" },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  const [command, ...args] = positionals;
+  if (values.help || command === undefined) {
+    console.log(usage());
+    process.exit(command === undefined && !values.help ? 1 : 0);
+  }
+
+  const options: CommandOptions = {};
+  const priority = toInteger("priority", values.priority, CONFIG.MAX_PRIORITY);
+  if (priority !== undefined) options.priority = priority;
+  const windowMs = toInteger("window", values.window);
+  if (windowMs !== undefined) options.windowMs = windowMs;
+  const status = toStatus(values.status);
+  if (status !== undefined) options.status = status;
+  options.limit = toInteger("limit", values.limit) ?? CONFIG.DEFAULT_LOG_PAGE_SIZE;
+  if (values.reason !== undefined) options.reason = values.reason;
+
+  backend =
+    values.api !== undefined
+      ? new RemoteBackend(values.api, values["api-key"])
+      : new LocalBackend(CONFIG.QUEUE_DB_PATH, CONFIG.OBSERVER_DB_PATH);
+
+  const output = await runCommand(backend, command, args, options);
+  console.log(values.json ? JSON.stringify(output.data, null, 2) : output.table);
+} catch (err) {
+  console.error(err instanceof Error ? err.message : String(err));
+  if (err instanceof CliError && err.message.startsWith("Unknown command")) console.error(`\n${usage()}`);
+  process.exitCode = 1;
+} finally {
+  backend?.close();
+}
@@ -0,0 +1,113 @@
+import { type JobStatus, type ResearchJob } from "../lib/types.js";
+import { type Backend, CliError } from "./backends.js";
+import { type Row, renderRecord, renderTable } from "./format.js";
+
+export interface CommandOptions {
+  priority?: number;
+  windowMs?: number;
+  status?: JobStatus;
+  limit?: number;
+  reason?: string;
+}
+
+/** A command's result, as JSON for scripts and as a table for people. */
+export interface CommandOutput {
+  data: unknown;
+  table: string;
+}
+
+export const COMMANDS: Record<string, { usage: string; summary: string }> = {
+  submit: { usage: "submit <name> [--priority <0-9>]", summary: "submit a research job" },
+  status: { usage: "status <name>", summary: "a bird's job status and research" },
+  trace: { usage: "trace <name>", summary: "the observer trace for a job" },
+  metrics: { usage: "metrics [--window <ms>]", summary: "system metrics over a window" },
+  list: { usage: "list [--status <status>] [--limit <n>]", summary: "job records, optionally by status" },
+  requeue: { usage: "requeue <name>", summary: "put a job in any state back in the queue to run now" },
+  fail: { usage: "fail <name> [--reason <text>]", summary: "fail a queued or processing job" },
+  cancel: { usage: "cancel <name>", summary: "cancel a queued or processing job" },
+  "queue-index": { usage: "queue-index", summary: "dump the queue-index in claim order" },
+};
+
+function jobRow(job: ResearchJob): Row {
+  return {
+    id: job.id,
+    name: job.name,
+    status: job.status,
+    priority: job.priority,
+    retryCount: job.retryCount,
+    availableForProcessingAt: job.availableForProcessingAt,
+    lastError: job.lastError,
+    failureReason: job.failureReason,
+  };
+}
+
+function untilAvailable(availableAt: number, now: number): string {
+  const ms = availableAt - now;
+  return ms <= 0 ? "now" : `in ${Math.ceil(ms / 1000)}s`;
+}
+
+function requireName(command: string, args: string[]): string {
+  const name = args[0];
+  if (name === undefined || name.trim() === "") {
+    throw new CliError(`Usage: birds ${COMMANDS[command]?.usage ?? command}`);
+  }
+  return name;
+}
+
+export async function runCommand(
+  backend: Backend,
+  command: string,
+  args: string[],
+  options: CommandOptions = {}
+): Promise<CommandOutput> {
+  switch (command) {
+    case "submit": {
+      const job = await backend.submit(requireName(command, args), options.priority);
+      return { data: job, table: renderRecord(job) };
+    }
+    case "status": {
+      const status = await backend.status(requireName(command, args));
+      return { data: status, table: renderRecord(status) };
+    }
+    case "trace": {
+      const entries = await backend.trace(requireName(command, args));
+      const rows = entries.map(({ timestamp, type, action, body }) => ({ timestamp, type, action, body }));
+      return { data: entries, table: renderTable(rows) };
+    }
+    case "metrics": {
+      const metrics = await backend.metrics(options.windowMs);
+      return { data: metrics, table: renderRecord(metrics) };
+    }
+    case "list": {
+      const list = await backend.listJobs(options.status, options.limit);
+      const table = `${renderTable(list.jobs.map(jobRow))}\n\n${list.jobs.length} of ${list.total} jobs`;
+      return { data: list, table };
+    }
+    case "requeue": {
+      const job = await backend.requeue(requireName(command, args));
+      return { data: job, table: renderRecord(jobRow(job)) };
+    }
+    case "fail": {
+      const job = await backend.fail(requireName(command, args), options.reason);
+      return { data: job, table: renderRecord(jobRow(job)) };
+    }
+    case "cancel": {
+      const status = await backend.cancel(requireName(command, args));
+      return { data: status, table: renderRecord(status) };
+    }
+    case "queue-index": {
+      const entries = await backend.queueIndex();
+      const now = Date.now();
+      const rows = entries.map(({ priority, availableAt, jobId, key }) => ({
+        priority,
+        availableAt,
+        available: untilAvailable(availableAt, now),
+        jobId,
+        key,
+      }));
+      return { data: entries, table: renderTable(rows) };
+    }
+    default:
+      throw new CliError(`Unknown command "${command}"`);
+  }
+}
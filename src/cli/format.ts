@@ -0,0 +1,36 @@
+export type Row = Record<string, unknown>;
+
+// Fields holding ms timestamps, shown as ISO dates in tables.
+const TIMESTAMP_FIELD = /(At|^timestamp)$/;
+
+function formatCell(key: string, value: unknown): string {
+  if (value === undefined || value === null) return "-";
+  if (typeof value === "number" && TIMESTAMP_FIELD.test(key)) return new Date(value).toISOString();
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Renders rows as a plain text table with a column per field, in the order
+ * fields first appear.
+ */
+export function renderTable(rows: Row[]): string {
+  if (rows.length === 0) return "(none)";
+
+  const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+  const cells = rows.map((row) => columns.map((column) => formatCell(column, row[column])));
+  const widths = columns.map((column, i) =>
+    Math.max(column.length, ...cells.map((line) => line[i]!.length))
+  );
+
+  const render = (line: string[]): string =>
+    line.map((cell, i) => cell.padEnd(widths[i]!)).join("  ").trimEnd();
+  return [render(columns), render(widths.map((width) => "-".repeat(width))), ...cells.map(render)].join("\n");
+}
+
+/** A single record as a two column table of its fields. */
+export function renderRecord(record: object): string {
+  return renderTable(
+    Object.entries(record).map(([field, value]) => ({ field, value: formatCell(field, value) }))
+  );
+}
@@ -0,0 +1,194 @@
+import type { Problem } from "../api/problem.js";
+import type {
+  BirdStatus,
+  BulkSubmitItem,
+  BulkSubmitResponse,
+  JobListResponse,
+  PurgeResponse,
+  QueueIndexResponse,
+  ReplayResponse,
+  SubmittedJob,
+} from "../api/responses.js";
+import { CONFIG } from "../lib/config.js";
+import type { JobStatus, LogAction, ResearchJob, ResearchJobRequest } from "../lib/types.js";
+import type { Metrics } from "../observer/metrics.js";
+import {
+  ApiError,
+  NotFoundError,
+  ResearchFailedError,
+  ResearchTimeoutError,
+  ValidationError,
+} from "./errors.js";
+
+export interface ClientOptions {
+  /** Where the API is, e.g. `http://localhost:3200`. */
+  baseUrl: string;
+  apiKey?: string;
+  /** Defaults to the global fetch. */
+  fetch?: typeof fetch;
+}
+
+export interface ResearchOptions {
+  priority?: number;
+  /** How long to wait for a terminal state before giving up. */
+  timeout?: number;
+  pollIntervalMs?: number;
+}
+
+interface RequestOptions {
+  query?: Record<string, string | number | boolean | undefined>;
+  body?: unknown;
+}
+
+const TERMINAL_STATUSES: readonly JobStatus[] = ["completed", "failed", "cancelled"];
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * A typed client for the API. Error statuses are thrown as ApiError, or its
+ * ValidationError (400) and NotFoundError (404) subclasses.
+ */
+export class BirdsClient {
+  private readonly baseUrl: string;
+  private readonly apiKey: string | undefined;
+  private readonly fetch: typeof fetch;
+
+  constructor(options: ClientOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, "");
+    this.apiKey = options.apiKey;
+    this.fetch = options.fetch ?? fetch;
+  }
+
+  submit(name: string, priority?: number): Promise<SubmittedJob> {
+    return this.request("POST", "/bird", { body: { name, ...(priority !== undefined && { priority }) } });
+  }
+
+  /** Submits many names in one request. Invalid items are reported, not thrown. */
+  async submitMany(requests: Array<string | ResearchJobRequest>): Promise<BulkSubmitItem[]> {
+    const { results } = await this.request<BulkSubmitResponse>("POST", "/birds", { body: requests });
+    return results;
+  }
+
+  get(name: string): Promise<BirdStatus> {
+    return this.request("GET", "/bird", { query: { name } });
+  }
+
+  getById(id: string): Promise<BirdStatus> {
+    return this.request("GET", `/bird/${encodeURIComponent(id)}`);
+  }
+
+  cancel(name: string): Promise<BirdStatus> {
+    return this.request("DELETE", "/bird", { query: { name } });
+  }
+
+  /** Removes the job, its result and any dead letter. Needs the admin scope. */
+  async purge(name: string): Promise<void> {
+    await this.request("DELETE", "/bird", { query: { name, purge: true } });
+  }
+
+  trace(id: string): Promise<{ jobId: string; entries: LogAction[] }> {
+    return this.request("GET", `/bird/${encodeURIComponent(id)}/trace`);
+  }
+
+  metrics(windowMs?: number): Promise<Metrics> {
+    return this.request("GET", "/metrics", { query: { window: windowMs } });
+  }
+
+  /** Job records, optionally only those with a status. Needs the admin scope. */
+  listJobs(status?: JobStatus, limit?: number): Promise<JobListResponse> {
+    return this.request("GET", "/admin/jobs", { query: { status, limit } });
+  }
+
+  /** Puts a job in any state back in the queue to run now. Needs the admin scope. */
+  requeue(id: string): Promise<ResearchJob> {
+    return this.request("POST", `/admin/jobs/${encodeURIComponent(id)}/requeue`);
+  }
+
+  /** Fails a queued or processing job. Needs the admin scope. */
+  fail(id: string, reason?: string): Promise<ResearchJob> {
+    return this.request("POST", `/admin/jobs/${encodeURIComponent(id)}/fail`, {
+      body: reason === undefined ? {} : { reason },
+    });
+  }
+
+  /** The queue-index in claim order. Needs the admin scope. */
+  async queueIndex(): Promise<QueueIndexResponse["entries"]> {
+    const { entries } = await this.request<QueueIndexResponse>("GET", "/admin/queue-index");
+    return entries;
+  }
+
+  /** Replays the given dead letters, or all of them. Needs the admin scope. */
+  replayDeadLetters(ids?: string[]): Promise<ReplayResponse> {
+    return this.request("POST", "/admin/dead-letters/replay", { body: ids ? { ids } : { all: true } });
+  }
+
+  /** Purges the given dead letters, or all of them. Needs the admin scope. */
+  purgeDeadLetters(ids?: string[]): Promise<PurgeResponse> {
+    return this.request("POST", "/admin/dead-letters/purge", { body: ids ? { ids } : { all: true } });
+  }
+
+  /**
+   * Submits a name and waits for its job to finish, returning the completed
+   * bird. A bird with a stored result returns at once, even after its job
+   * record has expired, without submitting anything. Throws
+   * ResearchFailedError if the job fails or is cancelled, and
+   * ResearchTimeoutError if it is still going after `timeout`.
+   */
+  async research(name: string, options: ResearchOptions = {}): Promise<BirdStatus> {
+    const {
+      priority,
+      timeout = CONFIG.CLIENT_RESEARCH_TIMEOUT_MS,
+      pollIntervalMs = CONFIG.CLIENT_POLL_INTERVAL_MS,
+    } = options;
+    const deadline = Date.now() + timeout;
+
+    const stored = await this.get(name).catch((err: unknown) => {
+      if (err instanceof NotFoundError) return undefined;
+      throw err;
+    });
+    if (stored?.status === "completed") return stored;
+
+    const job = await this.submit(name, priority);
+    for (;;) {
+      const bird = await this.getById(job.id);
+      if (TERMINAL_STATUSES.includes(bird.status)) {
+        if (bird.status !== "completed") throw new ResearchFailedError(bird);
+        return bird;
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) throw new ResearchTimeoutError(timeout, bird);
+      await sleep(Math.min(pollIntervalMs, remaining));
+    }
+  }
+
+  private async request<T>(method: string, path: string, options: RequestOptions = {}): Promise<T> {
+    const url = new URL(`${this.baseUrl}${path}`);
+    for (const [key, value] of Object.entries(options.query ?? {})) {
+      if (value !== undefined) url.searchParams.set(key, String(value));
+    }
+
+    const headers: Record<string, string> = { Accept: "application/json" };
+    if (this.apiKey !== undefined) headers.Authorization = `Bearer ${this.apiKey}`;
+    if (options.body !== undefined) headers["Content-Type"] = "application/json";
+
+    const res = await this.fetch(url, {
+      method,
+      headers,
+      ...(options.body !== undefined && { body: JSON.stringify(options.body) }),
+    });
+
+    if (!res.ok) {
+      const problem = res.headers.get("Content-Type")?.includes("application/problem+json")
+        ? ((await res.json()) as Problem)
+        : undefined;
+      if (res.status === 400) throw new ValidationError(problem);
+      if (res.status === 404) throw new NotFoundError(problem);
+      throw new ApiError(res.status, problem);
+    }
+    if (res.status === 204) return undefined as T;
+    return (await res.json()) as T;
+  }
+}
@@ -0,0 +1,66 @@
+import type { Problem } from "../api/problem.js";
+import type { BirdStatus } from "../api/responses.js";
+import type { ValidationIssue } from "../api/schema.js";
+
+/**
+ * The API answered with an error status. `problem` holds its problem details,
+ * unless something in between (a proxy, say) answered with something else.
+ */
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly problem: Problem | undefined,
+    message: string = problem?.detail ?? `Request failed with status ${status}`
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+
+  get code(): Problem["code"] | undefined {
+    return this.problem?.code;
+  }
+}
+
+/** 400: the request didn't match the route's schema, or couldn't be parsed. */
+export class ValidationError extends ApiError {
+  constructor(problem: Problem | undefined) {
+    super(400, problem);
+    this.name = "ValidationError";
+  }
+
+  /** Every problem found in the request, e.g. `{ path: "body.priority", ... }`. */
+  get issues(): ValidationIssue[] {
+    return this.problem?.errors ?? [];
+  }
+}
+
+/** 404: no such bird, dead letter or API key. */
+export class NotFoundError extends ApiError {
+  constructor(problem: Problem | undefined) {
+    super(404, problem);
+    this.name = "NotFoundError";
+  }
+}
+
+/** The research ended without a result: the job failed or was cancelled. */
+export class ResearchFailedError extends Error {
+  constructor(readonly bird: BirdStatus) {
+    super(
+      bird.status === "cancelled"
+        ? `Research for "${bird.name}" was cancelled`
+        : `Research for "${bird.name}" failed: ${bird.lastError ?? bird.failureReason ?? "unknown error"}`
+    );
+    this.name = "ResearchFailedError";
+  }
+}
+
+/** The research didn't finish in time. The job carries on regardless. */
+export class ResearchTimeoutError extends Error {
+  constructor(
+    readonly timeoutMs: number,
+    readonly bird: BirdStatus
+  ) {
+    super(`Research for "${bird.name}" was still ${bird.status} after ${timeoutMs}ms`);
+    this.name = "ResearchTimeoutError";
+  }
+}
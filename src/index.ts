@@ -1,16 +1,164 @@
-import express, { type Express } from "express";
-import { Queue } from "./lib/queue.js";
-import { Observer } from "./observer/observer.js";
-import { ActionType, toJobId } from "./lib/types.js";
+import express, {
+  type Express,
+  type Request,
+  type RequestHandler,
+  type Response,
+} from "express";
+import { ApiKeyStore } from "./lib/apikeys.js";
+import { type DeadLetterFilter } from "./lib/deadletters.js";
+import { InvalidJobNameError, Queue } from "./lib/queue.js";
+import { closeAll } from "./lib/db.js";
+import { type LogQuery, Observer } from "./observer/observer.js";
+import { JobEventTail } from "./observer/events.js";
+import { renderPrometheus } from "./observer/prometheus.js";
+import { createSinks } from "./observer/sinks.js";
+import {
+  ActionType,
+  type ApiKey,
+  type ApiScope,
+  type JobStatus,
+  type ResearchJob,
+  type ResearchJobRequest,
+  toJobId,
+} from "./lib/types.js";
 import { CONFIG } from "./lib/config.js";
+import { apiKeyOf, attribution, createAuth } from "./api/auth.js";
+import {
+  assignRequestId,
+  handleErrors,
+  registerRoute,
+  requestInput,
+  routeNotFound,
+} from "./api/middleware.js";
+import { buildOpenApiDocument } from "./api/openapi.js";
+import {
+  cancelJob,
+  DEFAULT_FAIL_REASON,
+  failJob,
+  logSubmission,
+  requeueJob,
+} from "./api/operations.js";
+import { ProblemCode, sendProblem, sendValidationProblem } from "./api/problem.js";
+import {
+  type ApiKeyView,
+  type BirdStatus,
+  type BulkSubmitItem,
+  type JobListResponse,
+  type QueueIndexResponse,
+  type PurgeResponse,
+  type ReplayResponse,
+  type SubmittedJob,
+  toStatusResponse,
+} from "./api/responses.js";
+import { MAX_BODY_BYTES, ROUTES, type RouteSpec } from "./api/routes.js";
+import { validate } from "./api/schema.js";
 
-export function createApp(queue: Queue, observer: Observer): Express {
+function toApiKeyView(apiKey: ApiKey, usedToday: number): ApiKeyView {
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    scopes: apiKey.scopes,
+    dailyQuota: apiKey.dailyQuota,
+    usedToday,
+    createdAt: apiKey.createdAt,
+    rotatedAt: apiKey.rotatedAt ?? null,
+    revokedAt: apiKey.revokedAt ?? null,
+  };
+}
+
+// Stands in for an NDJSON line that isn't valid JSON, so it can be reported
+// as an invalid item without rejecting the rest of the batch.
+const MALFORMED_LINE = Symbol("malformed-line");
+
+/** Turns an NDJSON body, which arrives as text, into an array of items. */
+const parseNdjson: RequestHandler = (req, _res, next) => {
+  if (typeof req.body === "string") {
+    req.body = req.body
+      .split("\n")
+      .filter((line) => line.trim() !== "")
+      .map((line) => {
+        try {
+          return JSON.parse(line) as unknown;
+        } catch {
+          return MALFORMED_LINE;
+        }
+      });
+  }
+  next();
+};
+
+/** A bulk item as a job request, or the reason it is invalid. */
+function toJobRequest(item: unknown, index: number): ResearchJobRequest | { error: string } {
+  if (item === MALFORMED_LINE) return { error: "Malformed JSON line" };
+
+  const result = validate(ROUTES.submitBirds.bodyItems, item, `body[${index}]`);
+  if ("issues" in result) {
+    return { error: result.issues.map((issue) => `${issue.path} ${issue.message}`).join("; ") };
+  }
+  return typeof result.value === "string"
+    ? { name: result.value }
+    : (result.value as ResearchJobRequest);
+}
+
+/**
+ * Streams job lifecycle events as Server-Sent Events until the client goes
+ * away. A reconnecting client's Last-Event-ID resumes from the observer log.
+ * For a single bird, a fresh subscription opens with a `status` event holding
+ * its current state so the client doesn't need a separate GET.
+ */
+function streamJobEvents(
+  req: Request,
+  res: Response,
+  queue: Queue,
+  observer: Observer,
+  jobId?: string
+): void {
+  const lastEventId = req.get("Last-Event-ID");
+  const tail = new JobEventTail(observer, jobId, lastEventId);
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  res.flushHeaders();
+
+  if (jobId !== undefined && lastEventId === undefined) {
+    const status = toStatusResponse(queue.getJob(jobId), queue.getResult(jobId));
+    if (status) res.write(`event: status\ndata: ${JSON.stringify(status)}\n\n`);
+  }
+
+  const send = (): void => {
+    for (const event of tail.poll()) {
+      res.write(`id: ${event.id}\nevent: ${event.transition}\ndata: ${JSON.stringify(event.data)}\n\n`);
+    }
+  };
+  send();
+
+  const poller = setInterval(send, CONFIG.EVENT_STREAM_POLL_MS);
+  const keepAlive = setInterval(() => res.write(": keep-alive\n\n"), CONFIG.EVENT_STREAM_KEEPALIVE_MS);
+  req.on("close", () => {
+    clearInterval(poller);
+    clearInterval(keepAlive);
+  });
+}
+
+/**
+ * Without an API key store every route is open, which is how the tests that
+ * aren't about auth run.
+ */
+export function createApp(queue: Queue, observer: Observer, apiKeys?: ApiKeyStore): Express {
   const app = express();
+  const auth = createAuth(apiKeys, observer);
 
-  app.use(express.json());
+  app.use(assignRequestId);
+  app.use(express.json({ limit: MAX_BODY_BYTES }));
+  app.use(auth.authenticate);
 
-  app.use((req, _res, next) => {
+  app.use((req, res, next) => {
     observer.log(ActionType.API_REQUEST, "log", {
+      requestId: res.locals.requestId,
+      apiKeyId: apiKeyOf(res)?.id,
       method: req.method,
       path: req.path,
       query: req.query,
@@ -19,79 +167,381 @@ export function createApp(queue: Queue, observer: Observer): Express {
     next();
   });
 
-  app.post("/bird", (req, res) => {
-    const { name } = req.body as { name?: string };
-    if (!name || typeof name !== "string") {
-      res.status(400).json({ error: "Missing required field: name" });
+  const notFound = (res: Response, what: string): void => {
+    sendProblem(res, 404, ProblemCode.NOT_FOUND, `${what} was not found`);
+  };
+
+  const openApiDocument = buildOpenApiDocument(ROUTES);
+
+  const route = (spec: RouteSpec, handler: RequestHandler, parsers: RequestHandler[] = []): void => {
+    const after = spec.quota ? [auth.enforceQuota] : [];
+    registerRoute(app, spec, handler, [auth.authorize(spec), ...parsers], after);
+  };
+
+  route(ROUTES.submitBird, (_req, res) => {
+    const request = requestInput(res).body as ResearchJobRequest;
+    let submitted: { job: ResearchJob; isDuplicate: boolean };
+    try {
+      submitted = queue.submitJob(request);
+    } catch (err) {
+      if (!(err instanceof InvalidJobNameError)) throw err;
+      sendValidationProblem(res, [{ path: "body.name", message: err.problem }]);
       return;
     }
+    const { job, isDuplicate } = submitted;
+    logSubmission(observer, job, isDuplicate, attribution(res));
 
-    const { job, isDuplicate } = queue.submitJob({ name });
+    const response: SubmittedJob = {
+      id: job.id,
+      name: job.name,
+      status: job.status,
+      createdAt: job.createdAt,
+    };
+    res.status(isDuplicate ? 200 : 201).json(response);
+  });
 
-    if (isDuplicate) {
-      observer.log(ActionType.JOB_DUPLICATE, "log", {
-        jobId: job.id,
-        name: job.name,
-        currentStatus: job.status,
-      });
-      res.status(200).json({
-        id: job.id,
-        name: job.name,
-        status: job.status,
-        createdAt: job.createdAt,
+  route(
+    ROUTES.submitBirds,
+    (_req, res) => {
+      const body = requestInput(res).body as unknown[];
+      const items = body.map(toJobRequest);
+      const requests = items.filter((item): item is ResearchJobRequest => "name" in item);
+      const submitted = queue.submitJobs(requests);
+
+      let next = 0;
+      const results = items.map((item, index): BulkSubmitItem => {
+        if ("error" in item) {
+          return { index, result: "invalid", error: item.error };
+        }
+        const submission = submitted[next++]!;
+        if (submission.outcome === "invalid") {
+          const path = typeof body[index] === "string" ? `body[${index}]` : `body[${index}].name`;
+          return { index, result: "invalid", error: `${path} ${submission.error.problem}` };
+        }
+        const { job, outcome } = submission;
+        logSubmission(observer, job, outcome === "duplicate", attribution(res));
+        return {
+          index,
+          result: outcome,
+          id: job.id,
+          name: job.name,
+          status: job.status,
+          createdAt: job.createdAt,
+        };
       });
-    } else {
-      observer.log(ActionType.JOB_SUBMITTED, "log", {
+
+      res.json({ results });
+    },
+    [express.text({ type: "application/x-ndjson", limit: MAX_BODY_BYTES }), parseNdjson]
+  );
+
+  route(ROUTES.getBirdByName, (_req, res) => {
+    const { name } = requestInput(res).query as { name: string };
+    const jobId = queue.resolveJobId(toJobId(name));
+    const status = toStatusResponse(queue.getJob(jobId), queue.getResult(jobId));
+    if (!status) {
+      notFound(res, `Bird "${name}"`);
+      return;
+    }
+
+    res.json(status);
+  });
+
+  route(ROUTES.cancelBird, (_req, res) => {
+    const { name, purge } = requestInput(res).query as { name: string; purge?: boolean };
+    const jobId = queue.resolveJobId(toJobId(name));
+
+    if (purge) {
+      if (!auth.allows(res, "admin")) return;
+      const job = queue.deleteJob(jobId);
+      if (!job) {
+        notFound(res, `Bird "${name}"`);
+        return;
+      }
+      observer.log(ActionType.JOB_PURGED, "log", {
         jobId: job.id,
         name: job.name,
+        previousStatus: job.status,
+        ...attribution(res),
       });
-      res.status(201).json({
-        id: job.id,
-        name: job.name,
-        status: job.status,
-        createdAt: job.createdAt,
-      });
+      res.status(204).end();
+      return;
+    }
+
+    const cancelled = cancelJob(queue, observer, jobId, attribution(res));
+    if ("error" in cancelled) {
+      if (cancelled.error === "not-found") notFound(res, `Bird "${name}"`);
+      else sendProblem(res, 409, ProblemCode.JOB_NOT_CANCELLABLE, `Job is already ${cancelled.job.status}`);
+      return;
     }
+    res.json(toStatusResponse(cancelled.job, queue.getResult(jobId)));
+  });
+
+  // Registered before /bird/:id so "events" isn't taken for a bird ID.
+  route(ROUTES.streamEvents, (req, res) => {
+    streamJobEvents(req, res, queue, observer);
   });
 
-  app.get("/bird", (req, res) => {
-    const name = req.query.name as string | undefined;
-    if (!name) {
-      res.status(400).json({ error: "Missing required query parameter: name" });
+  route(ROUTES.getBird, (_req, res) => {
+    const { id } = requestInput(res).params as { id: string };
+    const jobId = queue.resolveJobId(id);
+    const status = toStatusResponse(queue.getJob(jobId), queue.getResult(jobId));
+    if (!status) {
+      notFound(res, `Bird ${id}`);
       return;
     }
 
-    const jobId = toJobId(name);
-    const job = queue.getJob(jobId);
+    res.json(status);
+  });
 
-    if (!job || job.status !== "completed") {
-      res.status(404).json({ error: "Not found or not completed" });
+  route(ROUTES.getBirdTrace, (_req, res) => {
+    const { id } = requestInput(res).params as { id: string };
+    const jobId = queue.resolveJobId(id);
+    const trace = observer.getTrace(jobId);
+    if (trace.length === 0 && !queue.getJob(jobId) && !queue.getResult(jobId)) {
+      notFound(res, `Bird ${id}`);
       return;
     }
 
-    res.json({
-      id: job.id,
-      name: job.name,
-      status: job.status,
-      createdAt: job.createdAt,
-      body: job.body,
+    res.json({ jobId, entries: trace });
+  });
+
+  route(ROUTES.streamBirdEvents, (req, res) => {
+    const { id } = requestInput(res).params as { id: string };
+    streamJobEvents(req, res, queue, observer, queue.resolveJobId(id));
+  });
+
+  route(ROUTES.searchLogs, (_req, res) => {
+    const { action, ...query } = requestInput(res).query as LogQuery & { action?: ActionType[] };
+    res.json(observer.searchLogs({ ...query, ...(action && { actions: action }) }));
+  });
+
+  route(ROUTES.listDeadLetters, (_req, res) => {
+    const {
+      error,
+      limit = CONFIG.DEFAULT_LOG_PAGE_SIZE,
+      ...filter
+    } = requestInput(res).query as Omit<DeadLetterFilter, "errorContains"> & {
+      error?: string;
+      limit?: number;
+    };
+
+    const entries = queue.listDeadLetters({
+      ...filter,
+      ...(error !== undefined && { errorContains: error }),
     });
+    res.json({ entries: entries.slice(0, limit), total: entries.length });
+  });
+
+  route(ROUTES.getDeadLetter, (_req, res) => {
+    const { id } = requestInput(res).params as { id: string };
+    const deadLetter = queue.getDeadLetter(id);
+    if (!deadLetter) {
+      notFound(res, `Dead letter ${id}`);
+      return;
+    }
+
+    res.json(deadLetter);
+  });
+
+  route(ROUTES.replayDeadLetters, (_req, res) => {
+    const { ids } = requestInput(res).body as { ids?: string[] };
+
+    const replayed = queue.replayDeadLetters(ids);
+    for (const { job, deadLetter } of replayed) {
+      observer.log(ActionType.JOB_REPLAYED, "log", {
+        jobId: job.id,
+        name: job.name,
+        failedAt: deadLetter.failedAt,
+        failureReason: deadLetter.failureReason,
+        error: deadLetter.error,
+        ...attribution(res),
+      });
+    }
+
+    const response: ReplayResponse = {
+      replayed: replayed.map(({ job }) => ({ id: job.id, name: job.name, status: job.status })),
+    };
+    res.json(response);
+  });
+
+  route(ROUTES.purgeDeadLetters, (_req, res) => {
+    const { ids } = requestInput(res).body as { ids?: string[] };
+    const purged = queue.purgeDeadLetters(ids);
+    const response: PurgeResponse = { purged: purged.map(({ id, name }) => ({ id, name })) };
+    res.json(response);
+  });
+
+  route(ROUTES.listJobs, (_req, res) => {
+    const { status, limit = CONFIG.DEFAULT_LOG_PAGE_SIZE } = requestInput(res).query as {
+      status?: JobStatus;
+      limit?: number;
+    };
+    const jobs = queue.listJobs(status);
+    const response: JobListResponse = { jobs: jobs.slice(0, limit), total: jobs.length };
+    res.json(response);
+  });
+
+  route(ROUTES.requeueJob, (_req, res) => {
+    const { id } = requestInput(res).params as { id: string };
+    const requeued = requeueJob(queue, observer, queue.resolveJobId(id), attribution(res));
+    if ("error" in requeued) {
+      notFound(res, `Job ${id}`);
+      return;
+    }
+    res.json(requeued.job);
+  });
+
+  route(ROUTES.failJob, (_req, res) => {
+    const { id } = requestInput(res).params as { id: string };
+    const { reason = DEFAULT_FAIL_REASON } = requestInput(res).body as { reason?: string };
+    const failed = failJob(queue, observer, queue.resolveJobId(id), reason, attribution(res));
+    if ("error" in failed) {
+      if (failed.error === "not-found") notFound(res, `Job ${id}`);
+      else sendProblem(res, 409, ProblemCode.JOB_NOT_FAILABLE, `Job is already ${failed.job.status}`);
+      return;
+    }
+    res.json(failed.job);
+  });
+
+  route(ROUTES.getQueueIndex, (_req, res) => {
+    const response: QueueIndexResponse = { entries: queue.getQueueIndex() };
+    res.json(response);
+  });
+
+  route(ROUTES.getMetrics, (_req, res) => {
+    const { window } = requestInput(res).query as { window?: number };
+    res.json(observer.getMetrics(window));
   });
 
-  app.get("/metrics", (req, res) => {
-    const windowParam = req.query.window as string | undefined;
-    const windowMs = windowParam ? parseInt(windowParam, 10) : undefined;
-    const metrics = observer.getMetrics(windowMs);
-    res.json(metrics);
+  route(ROUTES.getPrometheusMetrics, (_req, res) => {
+    const now = Date.now();
+    const oldestAvailableAt = queue.getOldestAvailableAt(now);
+    const body = renderPrometheus(
+      observer.getTotals(),
+      queue.getStatusCounts(),
+      oldestAvailableAt === undefined ? 0 : now - oldestAvailableAt,
+      observer.getCircuitBreakers()
+    );
+    res.type("text/plain; version=0.0.4").send(body);
   });
 
+  route(ROUTES.getOpenApi, (_req, res) => {
+    res.json(openApiDocument);
+  });
+
+  if (apiKeys) {
+    route(ROUTES.listApiKeys, (_req, res) => {
+      const now = Date.now();
+      res.json({
+        keys: apiKeys.listKeys().map((apiKey) => toApiKeyView(apiKey, apiKeys.getUsage(apiKey.id, now))),
+      });
+    });
+
+    route(ROUTES.createApiKey, (_req, res) => {
+      const { name, scopes, dailyQuota } = requestInput(res).body as {
+        name: string;
+        scopes: ApiScope[];
+        dailyQuota?: number;
+      };
+      const { apiKey, key } = apiKeys.createKey(name, [...new Set(scopes)], dailyQuota);
+      observer.log(ActionType.API_KEY_CREATED, "log", {
+        keyId: apiKey.id,
+        name: apiKey.name,
+        scopes: apiKey.scopes,
+        dailyQuota: apiKey.dailyQuota,
+        ...attribution(res),
+      });
+
+      // The only time the key is shown.
+      res.status(201).json({ ...toApiKeyView(apiKey, 0), key });
+    });
+
+    route(ROUTES.rotateApiKey, (_req, res) => {
+      const { keyId } = requestInput(res).params as { keyId: string };
+      const rotated = apiKeys.rotateKey(keyId);
+      if (!rotated) {
+        notFound(res, `Active API key ${keyId}`);
+        return;
+      }
+      observer.log(ActionType.API_KEY_ROTATED, "log", {
+        keyId,
+        name: rotated.apiKey.name,
+        ...attribution(res),
+      });
+
+      res.json({ ...toApiKeyView(rotated.apiKey, apiKeys.getUsage(keyId)), key: rotated.key });
+    });
+
+    route(ROUTES.revokeApiKey, (_req, res) => {
+      const { keyId } = requestInput(res).params as { keyId: string };
+      const previous = apiKeys.getKey(keyId);
+      const apiKey = apiKeys.revokeKey(keyId);
+      if (!previous || !apiKey) {
+        notFound(res, `API key ${keyId}`);
+        return;
+      }
+      if (previous.revokedAt === undefined) {
+        observer.log(ActionType.API_KEY_REVOKED, "log", {
+          keyId,
+          name: apiKey.name,
+          ...attribution(res),
+        });
+      }
+
+      res.json(toApiKeyView(apiKey, apiKeys.getUsage(keyId)));
+    });
+  }
+
+  app.use(routeNotFound);
+  app.use(handleErrors);
+
   return app;
 }
 
-const queue = new Queue(CONFIG.QUEUE_DB_PATH);
-const observer = new Observer(CONFIG.OBSERVER_DB_PATH);
-const app = createApp(queue, observer);
+if (process.env.NODE_ENV !== "test") {
+  const queue = new Queue(CONFIG.QUEUE_DB_PATH);
+  const observer = new Observer(CONFIG.OBSERVER_DB_PATH, {
+    sinks: createSinks(process.env.ALERT_SINKS?.split(",") ?? CONFIG.ALERT_SINKS, {
+      filePath: CONFIG.ALERT_FILE_PATH,
+      webhookUrl: process.env.ALERT_WEBHOOK_URL,
+    }),
+  });
+  const app = createApp(queue, observer, new ApiKeyStore(CONFIG.QUEUE_DB_PATH));
+
+  // Rules that don't depend on a specific event (queue depth, stuck jobs,
+  // worker heartbeats) are evaluated on a timer.
+  const alertTimer = setInterval(
+    () => void observer.checkAlerts({ queue }),
+    CONFIG.ALERT_CHECK_INTERVAL_MS
+  ).unref();
+  const compactionTimer = setInterval(() => {
+    observer.compact().catch((err: unknown) => {
+      console.error(`Log compaction failed: ${err instanceof Error ? err.message : String(err)}`);
+    });
+  }, CONFIG.COMPACTION_INTERVAL_MS).unref();
+
+  const server = app.listen(CONFIG.PORT, () => {
+    console.log(`Server running at http://localhost:${CONFIG.PORT}`);
+  });
 
-app.listen(CONFIG.PORT, () => {
-  console.log(`Server running at http://localhost:${CONFIG.PORT}`);
-});
+  // Stop accepting connections and let in-flight requests finish. Event
+  // streams never finish on their own, so whatever is still open after
+  // DRAIN_TIMEOUT_MS is cut off.
+  const shutdown = (signal: NodeJS.Signals): void => {
+    console.log(`Received ${signal}, shutting down`);
+    clearInterval(alertTimer);
+    clearInterval(compactionTimer);
+
+    const forceClose = setTimeout(() => server.closeAllConnections(), CONFIG.DRAIN_TIMEOUT_MS);
+    forceClose.unref();
+    server.close(() => {
+      clearTimeout(forceClose);
+      closeAll();
+      process.exit(0);
+    });
+    server.closeIdleConnections();
+  };
+  process.once("SIGTERM", shutdown);
+  process.once("SIGINT", shutdown);
+}
@@ -0,0 +1,132 @@
+import crypto from "node:crypto";
+import { type Database } from "lmdb";
+import { getDb } from "./db.js";
+import { CONFIG } from "./config.js";
+import { type ApiKey, type ApiScope } from "./types.js";
+
+const KEY_PATTERN = /^bk_([0-9a-f]{12})_([\w-]{43})$/;
+
+export type QuotaResult =
+  | { allowed: true; used: number; remaining: number }
+  | { allowed: false; used: number; resetsAt: number };
+
+function hashKey(key: string): string {
+  return crypto.createHash("sha256").update(key).digest("hex");
+}
+
+/** A new key for the given ID: `bk_<id>_<secret>`. */
+function generateKey(id: string): string {
+  return `bk_${id}_${crypto.randomBytes(32).toString("base64url")}`;
+}
+
+function utcDay(now: number): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+function nextUtcMidnight(now: number): number {
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+}
+
+/**
+ * API keys and their daily submission counts. Only a hash of each key is
+ * stored, so a key is shown once when it is created or rotated. The key
+ * embeds its ID, which is how it is looked up.
+ */
+export class ApiKeyStore {
+  private keys: Database<ApiKey, string>;
+  private usage: Database<number, string>;
+
+  constructor(dbPath: string) {
+    const root = getDb(dbPath);
+    this.keys = root.openDB<ApiKey, string>("api-keys", { encoding: "msgpack" });
+    this.usage = root.openDB<number, string>("api-key-usage", { encoding: "msgpack" });
+  }
+
+  createKey(
+    name: string,
+    scopes: ApiScope[],
+    dailyQuota: number = CONFIG.DEFAULT_DAILY_SUBMISSION_QUOTA,
+    now: number = Date.now()
+  ): { apiKey: ApiKey; key: string } {
+    const id = crypto.randomBytes(6).toString("hex");
+    const key = generateKey(id);
+    const apiKey: ApiKey = { id, name, scopes, dailyQuota, hash: hashKey(key), createdAt: now };
+    this.keys.putSync(id, apiKey);
+    return { apiKey, key };
+  }
+
+  /** Replaces a key's secret. The old key stops working at once. */
+  rotateKey(id: string, now: number = Date.now()): { apiKey: ApiKey; key: string } | undefined {
+    return this.keys.transactionSync(() => {
+      const existing = this.keys.get(id);
+      if (!existing || existing.revokedAt !== undefined) return undefined;
+
+      const key = generateKey(id);
+      const apiKey: ApiKey = { ...existing, hash: hashKey(key), rotatedAt: now };
+      this.keys.putSync(id, apiKey);
+      return { apiKey, key };
+    });
+  }
+
+  /** Revoking keeps the record, so attributed log entries still resolve. */
+  revokeKey(id: string, now: number = Date.now()): ApiKey | undefined {
+    return this.keys.transactionSync(() => {
+      const existing = this.keys.get(id);
+      if (!existing) return undefined;
+      if (existing.revokedAt !== undefined) return existing;
+
+      const apiKey: ApiKey = { ...existing, revokedAt: now };
+      this.keys.putSync(id, apiKey);
+      return apiKey;
+    });
+  }
+
+  getKey(id: string): ApiKey | undefined {
+    return this.keys.get(id);
+  }
+
+  listKeys(): ApiKey[] {
+    return [...this.keys.getRange()].map(({ value }) => value);
+  }
+
+  /** The active key a presented key string belongs to, if any. */
+  verifyKey(key: string): ApiKey | undefined {
+    const match = KEY_PATTERN.exec(key);
+    if (!match) return undefined;
+
+    const apiKey = this.keys.get(match[1]!);
+    if (!apiKey || apiKey.revokedAt !== undefined) return undefined;
+
+    const expected = Buffer.from(apiKey.hash, "hex");
+    const actual = Buffer.from(hashKey(key), "hex");
+    return crypto.timingSafeEqual(expected, actual) ? apiKey : undefined;
+  }
+
+  /** How many names the key has submitted today (UTC). */
+  getUsage(id: string, now: number = Date.now()): number {
+    return this.usage.get(`${id}-${utcDay(now)}`) ?? 0;
+  }
+
+  /**
+   * Counts `amount` submissions against the key's daily quota, unless that
+   * would go over it, in which case nothing is counted.
+   */
+  consumeQuota(apiKey: ApiKey, amount: number, now: number = Date.now()): QuotaResult {
+    const usageKey = `${apiKey.id}-${utcDay(now)}`;
+
+    return this.usage.transactionSync((): QuotaResult => {
+      const used = this.usage.get(usageKey) ?? 0;
+      if (used + amount > apiKey.dailyQuota) {
+        return { allowed: false, used, resetsAt: nextUtcMidnight(now) };
+      }
+      this.usage.putSync(usageKey, used + amount);
+      return { allowed: true, used: used + amount, remaining: apiKey.dailyQuota - used - amount };
+    });
+  }
+}
+
+/** Whether a key's scopes allow an action; admin allows everything. */
+export function hasScope(apiKey: ApiKey, scope: ApiScope): boolean {
+  return apiKey.scopes.includes("admin") || apiKey.scopes.includes(scope);
+}
@@ -0,0 +1,129 @@
+import { type Database } from "lmdb";
+import { getDb } from "../lib/db.js";
+import { CONFIG } from "../lib/config.js";
+import { type CircuitState } from "../lib/types.js";
+
+interface BreakerRecord {
+  state: CircuitState;
+  windowStart: number;
+  successes: number;
+  failures: number;
+  /** While open, when the breaker lets a request through to test the upstream. */
+  openUntil?: number;
+}
+
+export interface BreakerTransition {
+  from: CircuitState;
+  to: CircuitState;
+  /** The failure rate over the window when the transition happened. */
+  failureRate: number;
+}
+
+export interface BreakerOptions {
+  windowMs: number;
+  minRequests: number;
+  failureRateThreshold: number;
+  openMs: number;
+}
+
+function failureRate(record: BreakerRecord): number {
+  const total = record.successes + record.failures;
+  return total === 0 ? 0 : record.failures / total;
+}
+
+/**
+ * A circuit breaker per upstream, kept in LMDB so that all workers on the
+ * host stop together. It opens when the failure rate over `windowMs` reaches
+ * the threshold (given at least `minRequests` requests), stays open for
+ * `openMs`, and then turns half-open: the next outcome either closes it or
+ * opens it again.
+ */
+export class CircuitBreaker {
+  private breakers: Database<BreakerRecord, string>;
+
+  constructor(
+    dbPath: string,
+    private readonly options: BreakerOptions = {
+      windowMs: CONFIG.BREAKER_WINDOW_MS,
+      minRequests: CONFIG.BREAKER_MIN_REQUESTS,
+      failureRateThreshold: CONFIG.BREAKER_FAILURE_RATE,
+      openMs: CONFIG.BREAKER_OPEN_MS,
+    }
+  ) {
+    this.breakers = getDb(dbPath).openDB<BreakerRecord, string>("circuit-breakers", {
+      encoding: "msgpack",
+    });
+  }
+
+  getState(key: string): CircuitState {
+    return this.breakers.get(key)?.state ?? "closed";
+  }
+
+  /**
+   * Whether a request may be sent to the upstream. While the breaker is open
+   * the answer includes when to ask again; an open breaker whose time is up
+   * turns half-open and lets requests through.
+   */
+  check(
+    key: string,
+    now: number = Date.now()
+  ): { allowed: boolean; retryAt?: number; transition?: BreakerTransition } {
+    // Only turning half-open writes, so the common answers are read without
+    // taking the write lock.
+    const current = this.breakers.get(key);
+    if (current?.state !== "open" || current.openUntil === undefined) return { allowed: true };
+    if (current.openUntil > now) return { allowed: false, retryAt: current.openUntil };
+
+    return this.breakers.transactionSync(() => {
+      const record = this.breakers.get(key);
+      if (record?.state !== "open" || record.openUntil === undefined) return { allowed: true };
+      if (record.openUntil > now) return { allowed: false, retryAt: record.openUntil };
+
+      const { openUntil, ...rest } = record;
+      this.breakers.putSync(key, { ...rest, state: "half-open" });
+      return {
+        allowed: true,
+        transition: { from: "open", to: "half-open", failureRate: failureRate(record) },
+      };
+    });
+  }
+
+  /** Records the outcome of a request, returning any resulting state change. */
+  record(key: string, success: boolean, now: number = Date.now()): BreakerTransition | undefined {
+    return this.breakers.transactionSync(() => {
+      const existing = this.breakers.get(key);
+      let record: BreakerRecord =
+        !existing || (existing.state === "closed" && now - existing.windowStart > this.options.windowMs)
+          ? { state: existing?.state ?? "closed", windowStart: now, successes: 0, failures: 0 }
+          : existing;
+
+      record = success
+        ? { ...record, successes: record.successes + 1 }
+        : { ...record, failures: record.failures + 1 };
+
+      const from = record.state;
+      const rate = failureRate(record);
+      const total = record.successes + record.failures;
+
+      let to: CircuitState = from;
+      if (from === "half-open") {
+        to = success ? "closed" : "open";
+      } else if (from === "closed" && total >= this.options.minRequests && rate >= this.options.failureRateThreshold) {
+        to = "open";
+      }
+
+      if (to === from) {
+        this.breakers.putSync(key, record);
+        return undefined;
+      }
+
+      this.breakers.putSync(
+        key,
+        to === "open"
+          ? { ...record, state: "open", openUntil: now + this.options.openMs }
+          : { state: "closed", windowStart: now, successes: 0, failures: 0 }
+      );
+      return { from, to, failureRate: rate };
+    });
+  }
+}
@@ -1,11 +1,99 @@
+import {
+  type ActionType,
+  type LogType,
+  type ResearchErrorKind,
+  type RetryPolicy,
+} from "./types.js";
+
 export const CONFIG = {
   PORT: 3200,
   QUEUE_DB_PATH: "./data/queue",
   OBSERVER_DB_PATH: "./data/observer",
-  POLL_INTERVAL_MS: 250,
-  BASE_DELAY_MS: 1000,
-  MAX_RETRIES: 3,
+  MAX_IDLE_MS: 5 * 1000,
+  DRAIN_TIMEOUT_MS: 25 * 1000,
+  RATE_LIMIT_CAPACITY: 10,
+  RATE_LIMIT_REFILL_PER_SECOND: 5,
+  BREAKER_WINDOW_MS: 60 * 1000,
+  BREAKER_MIN_REQUESTS: 10,
+  BREAKER_FAILURE_RATE: 0.5,
+  BREAKER_OPEN_MS: 30 * 1000,
+  RESEARCH_PROVIDERS: ["wikipedia"],
+  FIXTURE_DIR: "./fixtures/research",
+  RETRY_POLICIES: {
+    transient: { maxRetries: 3, baseDelayMs: 1000 },
+    "rate-limited": { maxRetries: 20, baseDelayMs: 30 * 1000 },
+    permanent: { maxRetries: 0, baseDelayMs: 0 },
+  } as Record<ResearchErrorKind, RetryPolicy>,
+  MAX_NAME_LENGTH: 100,
+  // LMDB keys are at most 1978 bytes, and index keys add a prefix to the ID.
+  MAX_JOB_ID_BYTES: 512,
+  DEFAULT_DAILY_SUBMISSION_QUOTA: 1000,
+  MAX_BULK_ITEMS: 1000,
+  DEFAULT_PRIORITY: 5,
+  MAX_PRIORITY: 9,
+  PRIORITY_AGING_MS: 60 * 1000,
+  LEASE_DURATION_MS: 30 * 1000,
+  TERMINAL_JOB_TTL_MS: 7 * 24 * 60 * 60 * 1000,
+  REFRESH_STALE_AFTER_MS: 30 * 24 * 60 * 60 * 1000,
+  REFRESH_CHECK_INTERVAL_MS: 60 * 1000,
+  REFRESH_PRIORITY: 0,
+  REFRESH_BURST: 5,
+  REFRESH_MAX_PER_HOUR: 60,
+  HEARTBEAT_INTERVAL_MS: 10 * 1000,
+  WORKER_RETENTION_MS: 24 * 60 * 60 * 1000,
+  DEFAULT_LOG_RETENTION_MS: 30 * 24 * 60 * 60 * 1000,
+  LOG_RETENTION_BY_TYPE_MS: {
+    error: 90 * 24 * 60 * 60 * 1000,
+  } as Partial<Record<LogType, number>>,
+  LOG_RETENTION_BY_ACTION_MS: {
+    "api-request": 7 * 24 * 60 * 60 * 1000,
+  } as Partial<Record<ActionType, number>>,
+  LOG_ARCHIVE_DIR: "./data/archive",
+  COMPACTION_INTERVAL_MS: 60 * 60 * 1000,
+  COMPACTION_BATCH_SIZE: 5000,
+  DEFAULT_LOG_PAGE_SIZE: 100,
+  MAX_LOG_PAGE_SIZE: 1000,
+  EVENT_STREAM_POLL_MS: 250,
+  EVENT_STREAM_OVERLAP_MS: 2000,
+  EVENT_STREAM_KEEPALIVE_MS: 15 * 1000,
+  CLIENT_RESEARCH_TIMEOUT_MS: 60 * 1000,
+  CLIENT_POLL_INTERVAL_MS: 1000,
   DEFAULT_METRICS_WINDOW_MS: 3 * 60 * 60 * 1000,
-  FAILURE_RATE_THRESHOLD: 0.5,
+  METRICS_BUCKET_MS: 60 * 1000,
+  PROCESSING_TIME_BUCKETS_MS: [50, 100, 250, 500, 1000, 2500, 5000, 10000, 30000, 60000],
+  ALERT_RULES: [
+    {
+      name: "high-failure-rate",
+      kind: "failure-rate",
+      threshold: 0.5,
+      windowMs: 3 * 60 * 60 * 1000,
+      cooldownMs: 15 * 60 * 1000,
+    },
+    {
+      name: "queue-backlog",
+      kind: "queue-depth",
+      threshold: 1000,
+      windowMs: 5 * 60 * 1000,
+      cooldownMs: 15 * 60 * 1000,
+    },
+    {
+      name: "stuck-processing",
+      kind: "stuck-processing",
+      threshold: 0,
+      windowMs: 10 * 60 * 1000,
+      cooldownMs: 15 * 60 * 1000,
+    },
+    {
+      name: "no-worker-heartbeat",
+      kind: "worker-heartbeat",
+      threshold: 1,
+      windowMs: 60 * 1000,
+      cooldownMs: 15 * 60 * 1000,
+    },
+  ],
+  ALERT_SINKS: ["console"],
+  ALERT_FILE_PATH: "./data/alerts.ndjson",
+  ALERT_WEBHOOK_TIMEOUT_MS: 10 * 1000,
+  ALERT_CHECK_INTERVAL_MS: 30 * 1000,
   TIMESTAMP_PAD_LENGTH: 15,
 } as const;
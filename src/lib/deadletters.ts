@@ -0,0 +1,74 @@
+import { type Database } from "lmdb";
+import { getDb } from "../lib/db.js";
+import { type DeadLetter, type ResearchJob } from "../lib/types.js";
+
+export interface DeadLetterFilter {
+  /** Case-insensitive text to find in the final error or any earlier one. */
+  errorContains?: string;
+  /** Only jobs that failed at or after this time. */
+  from?: number;
+  /** Only jobs that failed at or before this time. */
+  to?: number;
+}
+
+/**
+ * Failed jobs keyed by bird ID, kept until they are replayed, purged or the
+ * bird is resubmitted. Unlike the job record an entry doesn't expire, so a
+ * failure can still be inspected and replayed after its TTL.
+ */
+export class DeadLetterStore {
+  private deadLetters: Database<DeadLetter, string>;
+
+  constructor(dbPath: string) {
+    this.deadLetters = getDb(dbPath).openDB<DeadLetter, string>("dead-letters", {
+      encoding: "msgpack",
+    });
+  }
+
+  getDeadLetter(jobId: string): DeadLetter | undefined {
+    return this.deadLetters.get(jobId);
+  }
+
+  /** Newest failures first. */
+  listDeadLetters(filter: DeadLetterFilter = {}): DeadLetter[] {
+    const needle = filter.errorContains?.toLowerCase();
+    const matches: DeadLetter[] = [];
+
+    for (const { value } of this.deadLetters.getRange()) {
+      if (filter.from !== undefined && value.failedAt < filter.from) continue;
+      if (filter.to !== undefined && value.failedAt > filter.to) continue;
+      if (
+        needle !== undefined &&
+        ![value.error, ...value.errorHistory.map((e) => e.message)].some((message) =>
+          message?.toLowerCase().includes(needle)
+        )
+      ) {
+        continue;
+      }
+      matches.push(value);
+    }
+
+    return matches.sort((a, b) => b.failedAt - a.failedAt);
+  }
+
+  /** Writes synchronously so it can take part in a caller's transaction. */
+  putDeadLetter(job: ResearchJob, failedAt: number = Date.now()): DeadLetter {
+    const deadLetter: DeadLetter = {
+      id: job.id,
+      name: job.name,
+      priority: job.priority,
+      createdAt: job.createdAt,
+      failedAt,
+      retryCount: job.retryCount,
+      ...(job.lastError !== undefined && { error: job.lastError }),
+      ...(job.failureReason !== undefined && { failureReason: job.failureReason }),
+      errorHistory: job.errorHistory ?? [],
+    };
+    this.deadLetters.putSync(job.id, deadLetter);
+    return deadLetter;
+  }
+
+  removeDeadLetter(jobId: string): boolean {
+    return this.deadLetters.removeSync(jobId);
+  }
+}
@@ -1,15 +1,115 @@
 import { type Database } from "lmdb";
 import { getDb } from "../lib/db.js";
 import { CONFIG } from "../lib/config.js";
-import { type ResearchJob, type ResearchJobRequest, toJobId } from "../lib/types.js";
+import { type DeadLetterFilter, DeadLetterStore } from "../lib/deadletters.js";
+import { RateLimiter } from "../lib/ratelimit.js";
+import { type BirdRefresh, RefreshSchedule } from "../lib/refresh.js";
+import { ResultsStore } from "../lib/results.js";
+import { WakeupSignal } from "../lib/wakeup.js";
+import {
+  type AttemptError,
+  type DeadLetter,
+  JOB_STATUSES,
+  type JobStatus,
+  type ResearchJob,
+  type ResearchJobRequest,
+  type ResearchResult,
+  type SubmitOutcome,
+  jobIdProblem,
+  toJobId,
+} from "../lib/types.js";
+
+function emptyStatusCounts(): Record<JobStatus, number> {
+  return { queued: 0, processing: 0, completed: 0, failed: 0, cancelled: 0 };
+}
 
 function indexKey(timestamp: number, jobId: string): string {
   return `${String(timestamp).padStart(CONFIG.TIMESTAMP_PAD_LENGTH, "0")}-${jobId}`;
 }
 
+// queue-index keys are `${lane}-${zeroPaddedTimestamp}-${sequence}-${jobId}`.
+// Lanes sort highest priority first, and within a lane jobs sort by
+// availability. The sequence keeps jobs queued in the same millisecond in the
+// order they were queued.
+const SEQUENCE_PAD_LENGTH = 6;
+let sequence = 0;
+
+/**
+ * A priority the queue can hold: whole numbers from 0 to MAX_PRIORITY. Any
+ * other priority would key a lane claimJob never looks at, so fractions are
+ * rounded down, out of range values clamped, and non-numbers get the default.
+ */
+function toLanePriority(priority: number): number {
+  if (!Number.isFinite(priority)) return CONFIG.DEFAULT_PRIORITY;
+  return Math.min(CONFIG.MAX_PRIORITY, Math.max(0, Math.floor(priority)));
+}
+
+function priorityLane(priority: number): string {
+  return String(CONFIG.MAX_PRIORITY - priority);
+}
+
+function queueKey(priority: number, timestamp: number, jobId: string): string {
+  sequence = (sequence + 1) % 10 ** SEQUENCE_PAD_LENGTH;
+  return [
+    priorityLane(priority),
+    String(timestamp).padStart(CONFIG.TIMESTAMP_PAD_LENGTH, "0"),
+    String(sequence).padStart(SEQUENCE_PAD_LENGTH, "0"),
+    jobId,
+  ].join("-");
+}
+
+function queueKeyTimestamp(key: string): number {
+  const start = key.indexOf("-") + 1;
+  return parseInt(key.slice(start, start + CONFIG.TIMESTAMP_PAD_LENGTH), 10);
+}
+
+/**
+ * A job's priority plus one level for every PRIORITY_AGING_MS it has been
+ * waiting since it became available, so low priority jobs can't starve.
+ */
+function effectivePriority(priority: number, availableAt: number, now: number): number {
+  return priority + Math.floor((now - availableAt) / CONFIG.PRIORITY_AGING_MS);
+}
+
+// The shared token bucket scheduled refreshes draw from.
+const REFRESH_LIMITER_KEY = "scheduled-refresh";
+
+/** A queue-index entry, as dumped for operators. */
+export interface QueueIndexEntry {
+  key: string;
+  jobId: string;
+  priority: number;
+  availableAt: number;
+}
+
+/** The outcome of one request in a bulk submission. */
+export type BulkSubmitResult =
+  | { job: ResearchJob; outcome: SubmitOutcome }
+  | { outcome: "invalid"; error: InvalidJobNameError };
+
+/** A name that doesn't make a job ID the queue can store. */
+export class InvalidJobNameError extends Error {
+  constructor(
+    readonly jobName: string,
+    readonly problem: string
+  ) {
+    super(`"${jobName}" ${problem}`);
+    this.name = "InvalidJobNameError";
+  }
+}
+
 export class Queue {
   private jobs: Database<ResearchJob, string>;
   private queueIndex: Database<string, string>;
+  private leaseIndex: Database<string, string>;
+  private expiryIndex: Database<string, string>;
+  private aliases: Database<string, string>;
+  private statusCounts: Database<number, JobStatus>;
+  private results: ResultsStore;
+  private deadLetters: DeadLetterStore;
+  private refreshes: RefreshSchedule;
+  private refreshLimiter: RateLimiter;
+  private wakeup: WakeupSignal;
 
   constructor(dbPath: string) {
     const root = getDb(dbPath);
@@ -17,113 +117,843 @@ export class Queue {
     this.queueIndex = root.openDB<string, string>("queue-index", {
       encoding: "string",
     });
+    this.leaseIndex = root.openDB<string, string>("lease-index", {
+      encoding: "string",
+    });
+    this.expiryIndex = root.openDB<string, string>("expiry-index", {
+      encoding: "string",
+    });
+    this.aliases = root.openDB<string, string>("aliases", { encoding: "string" });
+    this.statusCounts = root.openDB<number, JobStatus>("status-counts", { encoding: "msgpack" });
+    this.results = new ResultsStore(dbPath);
+    this.deadLetters = new DeadLetterStore(dbPath);
+    this.refreshes = new RefreshSchedule(dbPath);
+    this.refreshLimiter = new RateLimiter(
+      dbPath,
+      CONFIG.REFRESH_BURST,
+      CONFIG.REFRESH_MAX_PER_HOUR / 3600
+    );
+    this.wakeup = new WakeupSignal(dbPath);
+    this.backfillStatusCounts();
   }
 
   submitJob(request: ResearchJobRequest): { job: ResearchJob; isDuplicate: boolean } {
-    const jobId = toJobId(request.name);
-    const now = Date.now();
-
-    const existing = this.jobs.get(jobId);
+    const result = this.jobs.transactionSync(() => this.applySubmit(request, Date.now()));
+    if (result.outcome !== "duplicate") this.wakeup.notify();
+    return { job: result.job, isDuplicate: result.outcome === "duplicate" };
+  }
 
-    if (existing) {
-      if (existing.status === "failed") {
-        const resetJob: ResearchJob = {
-          ...existing,
-          createdAt: now,
-          availableForProcessingAt: now,
-          retryCount: 0,
-          status: "queued",
-          body: {},
-        };
-        this.jobs.transactionSync(() => {
-          this.jobs.putSync(jobId, resetJob);
-          this.queueIndex.putSync(indexKey(now, jobId), jobId);
-        });
-        return { job: resetJob, isDuplicate: false };
+  /**
+   * Submits every request in a single transaction. Results are returned in
+   * request order; a name repeated within the batch is a duplicate of its
+   * first occurrence. A name that doesn't make a storable job ID is reported
+   * as invalid without holding back the rest.
+   */
+  submitJobs(requests: ResearchJobRequest[]): BulkSubmitResult[] {
+    const results: BulkSubmitResult[] = [];
+    this.jobs.transactionSync(() => {
+      const now = Date.now();
+      for (const request of requests) {
+        try {
+          results.push(this.applySubmit(request, now));
+        } catch (err) {
+          // applySubmit checks the ID before writing anything.
+          if (!(err instanceof InvalidJobNameError)) throw err;
+          results.push({ outcome: "invalid", error: err });
+        }
       }
-      return { job: existing, isDuplicate: true };
+    });
+    if (results.some((result) => result.outcome !== "duplicate" && result.outcome !== "invalid")) {
+      this.wakeup.notify();
     }
+    return results;
+  }
 
-    const job: ResearchJob = {
-      id: jobId,
-      name: request.name,
-      createdAt: now,
-      availableForProcessingAt: now,
-      retryCount: 0,
-      status: "queued",
-      body: {},
-    };
+  /**
+   * Claims the available job with the highest effective priority. Only the
+   * head of each priority lane needs to be checked, since it is both the
+   * lane's earliest available and longest waiting job.
+   */
+  claimJob(
+    workerId: string = "unknown",
+    leaseMs: number = CONFIG.LEASE_DURATION_MS
+  ): ResearchJob | undefined {
+    // Look before taking the write lock, so idle workers polling an empty
+    // queue only read.
+    if (this.getOldestAvailableAt() === undefined) return undefined;
+
+    let claimed: ResearchJob | undefined;
 
     this.jobs.transactionSync(() => {
-      this.jobs.putSync(jobId, job);
-      this.queueIndex.putSync(indexKey(now, jobId), jobId);
+      const now = Date.now();
+      let best: { job: ResearchJob; effective: number } | undefined;
+
+      for (const head of this.laneHeads()) {
+        if (head.timestamp > now) continue;
+
+        const job = this.jobs.get(head.jobId);
+        if (!job) {
+          this.queueIndex.removeSync(head.key);
+          continue;
+        }
+
+        const effective = effectivePriority(head.priority, head.timestamp, now);
+        if (!best || effective > best.effective) {
+          best = { job, effective };
+        }
+      }
+
+      if (!best) return;
+
+      const expiresAt = now + leaseMs;
+      const updated: ResearchJob = {
+        ...this.dequeue(best.job),
+        status: "processing",
+        lease: { workerId, claimedAt: now, expiresAt },
+      };
+      this.leaseIndex.putSync(indexKey(expiresAt, updated.id), updated.id);
+      this.putJob(updated);
+      claimed = updated;
     });
 
-    return { job, isDuplicate: false };
+    return claimed;
   }
 
-  claimJob(): ResearchJob | undefined {
-    let claimed: ResearchJob | undefined;
+  /**
+   * Extends the lease on a job the worker is still processing. Returns
+   * undefined if the worker no longer holds the lease (e.g. it expired and
+   * the job was reaped), in which case the worker should abandon the job.
+   */
+  heartbeatJob(
+    jobId: string,
+    workerId: string,
+    leaseMs: number = CONFIG.LEASE_DURATION_MS
+  ): ResearchJob | undefined {
+    let renewed: ResearchJob | undefined;
+
+    this.jobs.transactionSync(() => {
+      const job = this.jobs.get(jobId);
+      if (!job?.lease || !this.holdsLease(job, workerId)) return;
+
+      const expiresAt = Date.now() + leaseMs;
+      const updated: ResearchJob = { ...job, lease: { ...job.lease, expiresAt } };
+      this.leaseIndex.removeSync(indexKey(job.lease.expiresAt, jobId));
+      this.leaseIndex.putSync(indexKey(expiresAt, jobId), jobId);
+      this.putJob(updated);
+      renewed = updated;
+    });
+
+    return renewed;
+  }
+
+  /**
+   * Puts every job whose lease has expired back into the queue, counting the
+   * abandoned attempt as a transient error against its retry budget. A job
+   * that has already used all of its retries is marked as failed instead.
+   */
+  reapExpiredLeases(now: number = Date.now()): Array<{ job: ResearchJob; previousWorkerId: string }> {
+    const reaped: Array<{ job: ResearchJob; previousWorkerId: string }> = [];
+    const requeuedAt = Date.now();
+    const nextExpiry = this.getNextLeaseExpiry();
+    if (nextExpiry === undefined || nextExpiry > now) return reaped;
 
     this.jobs.transactionSync(() => {
-      for (const { key, value } of this.queueIndex.getRange({ limit: 1 })) {
+      for (const { key, value } of this.leaseIndex.getRange()) {
         const timestamp = parseInt(key.slice(0, CONFIG.TIMESTAMP_PAD_LENGTH), 10);
-        if (timestamp > Date.now()) break;
+        if (timestamp > now) break;
+
+        this.leaseIndex.removeSync(key);
 
         const job = this.jobs.get(value);
-        if (!job) {
-          this.queueIndex.removeSync(key);
-          break;
-        }
+        if (!job || job.status !== "processing" || !job.lease) continue;
 
-        const updated: ResearchJob = { ...job, status: "processing" };
-        this.queueIndex.removeSync(key);
-        this.jobs.putSync(job.id, updated);
-        claimed = updated;
+        const { lease, ...rest } = job;
+        const withError = this.recordError(
+          rest,
+          { kind: "transient", message: "Lease expired" },
+          lease.workerId,
+          requeuedAt
+        );
+        const updated: ResearchJob =
+          job.retryCount >= CONFIG.RETRY_POLICIES.transient.maxRetries
+            ? this.scheduleExpiry(
+                { ...withError, status: "failed", failureReason: "retries-exhausted" },
+                requeuedAt
+              )
+            : this.enqueue({
+                ...withError,
+                status: "queued",
+                retryCount: job.retryCount + 1,
+                availableForProcessingAt: requeuedAt,
+              });
+
+        this.putJob(updated);
+        if (updated.status === "failed") this.deadLetters.putDeadLetter(updated, requeuedAt);
+        reaped.push({ job: updated, previousWorkerId: lease.workerId });
       }
     });
 
-    return claimed;
+    if (reaped.some(({ job }) => job.status === "queued")) this.wakeup.notify();
+    return reaped;
   }
 
   getJob(jobId: string): ResearchJob | undefined {
     return this.jobs.get(jobId);
   }
 
-  completeJob(jobId: string, body: Record<string, unknown>): ResearchJob | undefined {
-    const job = this.jobs.get(jobId);
-    if (!job) return undefined;
+  /**
+   * Follows the alias table from a job ID to the ID of the canonical job for
+   * the same bird. An ID without an alias is its own canonical ID.
+   */
+  resolveJobId(jobId: string): string {
+    const seen = new Set([jobId]);
+    let current = jobId;
+    let next = this.aliases.get(current);
+    while (next !== undefined && !seen.has(next)) {
+      seen.add(next);
+      current = next;
+      next = this.aliases.get(current);
+    }
+    return current;
+  }
+
+  /** The last completed research for a job, which outlives its queue record. */
+  getResult(jobId: string): ResearchResult | undefined {
+    return this.results.getResult(jobId);
+  }
+
+  getDeadLetter(jobId: string): DeadLetter | undefined {
+    return this.deadLetters.getDeadLetter(jobId);
+  }
+
+  listDeadLetters(filter: DeadLetterFilter = {}): DeadLetter[] {
+    return this.deadLetters.listDeadLetters(filter);
+  }
+
+  /**
+   * Puts dead-lettered jobs back in the queue with a fresh retry budget and
+   * error history, and removes their entries. Without IDs every entry is
+   * replayed; IDs without an entry are skipped. Each job is replayed under
+   * its stored ID, since its name may have become an alias of another bird.
+   */
+  replayDeadLetters(jobIds?: string[]): Array<{ job: ResearchJob; deadLetter: DeadLetter }> {
+    const replayed: Array<{ job: ResearchJob; deadLetter: DeadLetter }> = [];
+
+    this.jobs.transactionSync(() => {
+      const now = Date.now();
+      for (const deadLetter of this.selectDeadLetters(jobIds)) {
+        const { job } = this.applySubmit(
+          { name: deadLetter.name, priority: deadLetter.priority },
+          now,
+          deadLetter.id
+        );
+        this.deadLetters.removeDeadLetter(deadLetter.id);
+        replayed.push({ job, deadLetter });
+      }
+    });
+
+    if (replayed.length > 0) this.wakeup.notify();
+    return replayed;
+  }
+
+  /**
+   * Removes dead-letter entries (all of them without IDs), leaving the failed
+   * job records to expire as usual. Returns the removed entries.
+   */
+  purgeDeadLetters(jobIds?: string[]): DeadLetter[] {
+    return this.jobs.transactionSync(() => {
+      const purged = this.selectDeadLetters(jobIds);
+      for (const deadLetter of purged) this.deadLetters.removeDeadLetter(deadLetter.id);
+      return purged;
+    });
+  }
+
+  /**
+   * Removes completed, failed and cancelled job records whose TTL has passed.
+   * Results are kept, and a later submission of the same name creates a
+   * fresh job. Returns the removed jobs.
+   */
+  expireTerminalJobs(now: number = Date.now()): ResearchJob[] {
+    const expired: ResearchJob[] = [];
+    const nextExpiry = this.getNextRecordExpiry();
+    if (nextExpiry === undefined || nextExpiry > now) return expired;
+
+    this.jobs.transactionSync(() => {
+      for (const { key, value } of this.expiryIndex.getRange()) {
+        const timestamp = parseInt(key.slice(0, CONFIG.TIMESTAMP_PAD_LENGTH), 10);
+        if (timestamp > now) break;
+
+        this.expiryIndex.removeSync(key);
+
+        const job = this.jobs.get(value);
+        if (!job || job.recordExpiresAt !== timestamp) continue;
+
+        this.removeJob(job.id);
+        expired.push(job);
+      }
+    });
+
+    return expired;
+  }
+
+  /**
+   * Queues a refresh of every bird whose research falls due within the next
+   * REFRESH_CHECK_INTERVAL_MS, future-dated to when it falls due and in the
+   * REFRESH_PRIORITY lane. Each refresh takes a token from a bucket shared by
+   * every process, so no more than REFRESH_MAX_PER_HOUR are queued and they
+   * can't crowd out submissions. Birds already queued or processing are
+   * skipped, as are cancelled birds and birds with a dead letter, which are
+   * left for an operator to resubmit or replay. The next refresh is due an
+   * interval after this one, so one that fails is tried again then. Returns
+   * the queued jobs.
+   */
+  scheduleRefreshes(now: number = Date.now()): Array<{ job: ResearchJob; fetchedAt: number }> {
+    const scheduled: Array<{ job: ResearchJob; fetchedAt: number }> = [];
 
-    const updated: ResearchJob = { ...job, status: "completed", body };
-    this.jobs.putSync(jobId, updated);
+    for (const { jobId, dueAt } of this.refreshes.listDue(now + CONFIG.REFRESH_CHECK_INTERVAL_MS)) {
+      // False once the refresh bucket is empty, leaving this bird due.
+      const hadToken = this.jobs.transactionSync(() => {
+        const job = this.jobs.get(jobId);
+        const result = this.results.getResult(jobId);
+        if (!result) {
+          this.refreshes.removeRefresh(jobId);
+          return true;
+        }
+
+        const availableAt = Math.max(now, dueAt);
+        const skipped =
+          job?.status === "queued" ||
+          job?.status === "processing" ||
+          job?.status === "cancelled" ||
+          this.deadLetters.getDeadLetter(jobId) !== undefined;
+        if (!skipped && !this.refreshLimiter.tryAcquire(REFRESH_LIMITER_KEY, now).acquired) return false;
+
+        this.refreshes.scheduleAfter(jobId, availableAt);
+        if (skipped) return true;
+
+        const { lastError, errorHistory, failureReason, ...rest } = job
+          ? this.clearExpiry(job)
+          : { id: jobId, name: result.name, createdAt: now };
+        const updated = this.enqueue({
+          ...rest,
+          availableForProcessingAt: availableAt,
+          retryCount: 0,
+          priority: CONFIG.REFRESH_PRIORITY,
+          status: "queued",
+          body: {},
+        });
+        this.putJob(updated);
+        scheduled.push({ job: updated, fetchedAt: result.fetchedAt });
+        return true;
+      });
+      if (!hadToken) break;
+    }
+
+    if (scheduled.length > 0) this.wakeup.notify();
+    return scheduled;
+  }
+
+  /**
+   * Schedules a refresh for every stored result that doesn't have one yet,
+   * such as results stored before refreshes were scheduled. Returns how many
+   * were scheduled.
+   */
+  backfillRefreshSchedule(): number {
+    return this.jobs.transactionSync(() => {
+      let count = 0;
+      for (const result of this.results.listResults()) {
+        if (this.refreshes.getRefresh(result.id)?.dueAt !== undefined) continue;
+        this.refreshes.scheduleAfter(result.id, result.fetchedAt);
+        count++;
+      }
+      return count;
+    });
+  }
+
+  /** When a bird's research is next due for a refresh, and on what schedule. */
+  getRefresh(jobId: string): BirdRefresh | undefined {
+    return this.refreshes.getRefresh(jobId);
+  }
+
+  getStatusCounts(): Record<JobStatus, number> {
+    const counts = emptyStatusCounts();
+    for (const status of JOB_STATUSES) {
+      counts[status] = this.statusCounts.get(status) ?? 0;
+    }
+    return counts;
+  }
+
+  /** Every job record, or those with the given status, by job ID. */
+  listJobs(status?: JobStatus): ResearchJob[] {
+    const jobs: ResearchJob[] = [];
+    for (const { value } of this.jobs.getRange()) {
+      if (status === undefined || value.status === status) jobs.push(value);
+    }
+    return jobs;
+  }
+
+  /** The queue-index in claim order: highest priority lane first, then by availability. */
+  getQueueIndex(): QueueIndexEntry[] {
+    return [...this.queueIndex.getRange()].map(({ key, value }) => ({
+      key,
+      jobId: value,
+      priority: CONFIG.MAX_PRIORITY - parseInt(key.slice(0, key.indexOf("-")), 10),
+      availableAt: queueKeyTimestamp(key),
+    }));
+  }
+
+  /** Every job currently held under a lease, soonest lease expiry first. */
+  getProcessingJobs(): ResearchJob[] {
+    const jobs: ResearchJob[] = [];
+    for (const { value } of this.leaseIndex.getRange()) {
+      const job = this.jobs.get(value);
+      if (job?.status === "processing") jobs.push(job);
+    }
+    return jobs;
+  }
+
+  /** How many queued jobs became available at or before the given time. */
+  countAvailable(before: number = Date.now()): number {
+    let count = 0;
+    for (let priority = CONFIG.MAX_PRIORITY; priority >= 0; priority--) {
+      const lane = priorityLane(priority);
+      count += this.queueIndex.getKeysCount({
+        start: `${lane}-`,
+        end: `${lane}-${String(before + 1).padStart(CONFIG.TIMESTAMP_PAD_LENGTH, "0")}`,
+      });
+    }
+    return count;
+  }
+
+  /**
+   * The earliest availableForProcessingAt among all queued jobs, including
+   * future-dated retries.
+   */
+  getNextAvailableAt(): number | undefined {
+    let next: number | undefined;
+    for (const { timestamp } of this.laneHeads()) {
+      if (next === undefined || timestamp < next) next = timestamp;
+    }
+    return next;
+  }
+
+  /** When the soonest lease held by any worker expires. */
+  getNextLeaseExpiry(): number | undefined {
+    for (const key of this.leaseIndex.getKeys({ limit: 1 })) {
+      return parseInt(key.slice(0, CONFIG.TIMESTAMP_PAD_LENGTH), 10);
+    }
+    return undefined;
+  }
+
+  /**
+   * Resolves after `ms`, or as soon as a job is submitted or requeued by this
+   * or any other process sharing the database. Aborting the signal resolves
+   * it early.
+   */
+  waitForWork(ms: number, signal?: AbortSignal): Promise<void> {
+    return this.wakeup.wait(ms, signal);
+  }
+
+  /**
+   * The earliest availableForProcessingAt among queued jobs that are already
+   * available, i.e. how long the longest waiting job has been waiting.
+   */
+  getOldestAvailableAt(now: number = Date.now()): number | undefined {
+    let oldest: number | undefined;
+    for (const { timestamp } of this.laneHeads()) {
+      if (timestamp <= now && (oldest === undefined || timestamp < oldest)) {
+        oldest = timestamp;
+      }
+    }
+    return oldest;
+  }
+
+  /**
+   * Cancels a queued or processing job, removing it from the queue and
+   * releasing any lease so a worker still processing it can't complete or
+   * retry it. Jobs already in a terminal state are returned unchanged.
+   */
+  cancelJob(jobId: string): ResearchJob | undefined {
+    return this.jobs.transactionSync(() => {
+      const job = this.jobs.get(jobId);
+      if (!job || (job.status !== "queued" && job.status !== "processing")) return job;
+
+      const updated = this.scheduleExpiry({
+        ...this.releaseLease(this.dequeue(job)),
+        status: "cancelled",
+      });
+      this.putJob(updated);
+      return updated;
+    });
+  }
+
+  /**
+   * Removes a job, its index entries, its stored result and any dead-letter
+   * entry entirely, so the name can be submitted and researched again from
+   * scratch.
+   */
+  deleteJob(jobId: string): ResearchJob | undefined {
+    return this.jobs.transactionSync(() => {
+      const job = this.jobs.get(jobId);
+      if (!job) return undefined;
+
+      this.clearExpiry(this.releaseLease(this.dequeue(job)));
+      this.results.removeResult(jobId);
+      this.refreshes.removeRefresh(jobId);
+      this.deadLetters.removeDeadLetter(jobId);
+      this.removeJob(jobId);
+      return job;
+    });
+  }
+
+  /**
+   * Puts a job back in the queue, available now, with a fresh retry budget
+   * and error history, whatever state it is in. A processing job loses its
+   * lease, so its worker can no longer complete or retry it, and a completed
+   * job is researched again. Any dead-letter entry is removed.
+   */
+  requeueJob(jobId: string): ResearchJob | undefined {
+    let updated: ResearchJob | undefined;
+
+    this.jobs.transactionSync(() => {
+      const job = this.jobs.get(jobId);
+      if (!job) return;
+
+      const { lastError, errorHistory, failureReason, ...rest } = this.clearExpiry(
+        this.releaseLease(this.dequeue(job))
+      );
+      updated = this.enqueue({
+        ...rest,
+        availableForProcessingAt: Date.now(),
+        retryCount: 0,
+        status: "queued",
+        body: {},
+      });
+      this.putJob(updated);
+      this.deadLetters.removeDeadLetter(jobId);
+    });
+
+    if (updated) this.wakeup.notify();
     return updated;
   }
 
-  retryJob(jobId: string, nextAvailableAt: number): ResearchJob | undefined {
-    const job = this.jobs.get(jobId);
-    if (!job) return undefined;
+  /**
+   * Marks the job as completed and stores the research in the results store
+   * in the same transaction, replacing any earlier result for the bird, and
+   * schedules its next refresh. The canonical title the provider reported,
+   * if any, is recorded as an alias.
+   */
+  completeJob(
+    jobId: string,
+    body: Record<string, unknown>,
+    workerId?: string,
+    source: string = "unknown",
+    canonicalTitle?: string
+  ): ResearchJob | undefined {
+    let updated: ResearchJob | undefined;
 
-    const updated: ResearchJob = {
-      ...job,
-      status: "queued",
-      retryCount: job.retryCount + 1,
-      availableForProcessingAt: nextAvailableAt,
-    };
+    this.jobs.transactionSync(() => {
+      const job = this.jobs.get(jobId);
+      if (!job || !this.holdsLease(job, workerId)) return;
+
+      const now = Date.now();
+      updated = this.scheduleExpiry({ ...this.releaseLease(job), status: "completed", body }, now);
+      this.putJob(updated);
+      this.results.putResult(jobId, job.name, body, source, now);
+      this.refreshes.scheduleAfter(jobId, now);
+      if (canonicalTitle !== undefined) this.recordCanonicalTitle(jobId, canonicalTitle);
+    });
+
+    return updated;
+  }
+
+  retryJob(
+    jobId: string,
+    nextAvailableAt: number,
+    workerId?: string,
+    error?: AttemptError
+  ): ResearchJob | undefined {
+    let updated: ResearchJob | undefined;
 
     this.jobs.transactionSync(() => {
-      this.jobs.putSync(jobId, updated);
-      this.queueIndex.putSync(indexKey(nextAvailableAt, jobId), jobId);
+      const job = this.jobs.get(jobId);
+      if (!job || !this.holdsLease(job, workerId)) return;
+
+      updated = this.enqueue({
+        ...this.recordError(this.releaseLease(job), error, workerId),
+        status: "queued",
+        retryCount: job.retryCount + 1,
+        availableForProcessingAt: nextAvailableAt,
+      });
+      this.putJob(updated);
     });
 
+    // Idle workers may be sleeping past the retry's availability time.
+    if (updated) this.wakeup.notify();
     return updated;
   }
 
-  failJob(jobId: string): ResearchJob | undefined {
-    const job = this.jobs.get(jobId);
-    if (!job) return undefined;
+  /**
+   * Puts a job the worker is giving up on (e.g. because it is shutting down
+   * or the upstream is rate limiting) back in the queue, available at the
+   * given time. Unlike retryJob the attempt doesn't count towards the job's
+   * retryCount, though a given error is still added to its history.
+   */
+  releaseJob(
+    jobId: string,
+    workerId: string,
+    availableAt: number = Date.now(),
+    error?: AttemptError
+  ): ResearchJob | undefined {
+    let updated: ResearchJob | undefined;
+
+    this.jobs.transactionSync(() => {
+      const job = this.jobs.get(jobId);
+      if (!job || !this.holdsLease(job, workerId)) return;
 
-    const updated: ResearchJob = { ...job, status: "failed" };
-    this.jobs.putSync(jobId, updated);
+      updated = this.enqueue({
+        ...this.recordError(this.releaseLease(job), error, workerId),
+        status: "queued",
+        availableForProcessingAt: availableAt,
+      });
+      this.putJob(updated);
+    });
+
+    if (updated) this.wakeup.notify();
     return updated;
   }
+
+  /**
+   * Marks a job as failed. Given the error that ended it, the failure reason
+   * says whether it was permanent or the job ran out of retries. A trusted
+   * caller may also fail a queued job, which takes it out of the queue.
+   */
+  failJob(jobId: string, workerId?: string, error?: AttemptError): ResearchJob | undefined {
+    let updated: ResearchJob | undefined;
+
+    this.jobs.transactionSync(() => {
+      const job = this.jobs.get(jobId);
+      if (!job || !this.holdsLease(job, workerId)) return;
+
+      updated = this.scheduleExpiry({
+        ...this.recordError(this.releaseLease(this.dequeue(job)), error, workerId),
+        status: "failed",
+        ...(error !== undefined && {
+          failureReason: error.kind === "permanent" ? "permanent-error" : "retries-exhausted",
+        }),
+      });
+      this.putJob(updated);
+      this.deadLetters.putDeadLetter(updated);
+    });
+
+    return updated;
+  }
+
+  /**
+   * Counts the jobs by status once, for databases written before the counts
+   * were kept. From then on putJob and removeJob keep them up to date.
+   */
+  private backfillStatusCounts(): void {
+    if (this.statusCounts.get("queued") !== undefined) return;
+    this.jobs.transactionSync(() => {
+      if (this.statusCounts.get("queued") !== undefined) return;
+      const counts = emptyStatusCounts();
+      for (const { value } of this.jobs.getRange()) counts[value.status]++;
+      for (const status of JOB_STATUSES) this.statusCounts.putSync(status, counts[status]);
+    });
+  }
+
+  /** Must be called inside a transaction. Writes a job record and keeps the status counts in step. */
+  private putJob(job: ResearchJob): void {
+    const previous = this.jobs.get(job.id)?.status;
+    if (previous !== job.status) {
+      if (previous !== undefined) this.countStatus(previous, -1);
+      this.countStatus(job.status, 1);
+    }
+    this.jobs.putSync(job.id, job);
+  }
+
+  /** Must be called inside a transaction. */
+  private removeJob(jobId: string): void {
+    const previous = this.jobs.get(jobId)?.status;
+    if (previous === undefined) return;
+    this.countStatus(previous, -1);
+    this.jobs.removeSync(jobId);
+  }
+
+  /** Must be called inside a transaction. */
+  private countStatus(status: JobStatus, delta: number): void {
+    this.statusCounts.putSync(status, (this.statusCounts.get(status) ?? 0) + delta);
+  }
+
+  /** Must be called inside a transaction. The job ID defaults to the one the name resolves to. */
+  private applySubmit(
+    request: ResearchJobRequest,
+    now: number,
+    jobId: string = this.resolveJobId(toJobId(request.name))
+  ): { job: ResearchJob; outcome: SubmitOutcome } {
+    const problem = jobIdProblem(jobId);
+    if (problem !== undefined) throw new InvalidJobNameError(request.name, problem);
+    const existing = this.jobs.get(jobId);
+
+    if (request.refresh !== undefined && request.refresh !== this.refreshes.getRefresh(jobId)?.schedule) {
+      this.refreshes.setSchedule(jobId, request.refresh);
+      const result = this.results.getResult(jobId);
+      if (result) this.refreshes.scheduleAfter(jobId, result.fetchedAt);
+    }
+
+    if (existing) {
+      if (existing.status === "failed" || existing.status === "cancelled") {
+        const { lastError, errorHistory, failureReason, ...rest } = this.clearExpiry(existing);
+        const resetJob = this.enqueue({
+          ...rest,
+          createdAt: now,
+          availableForProcessingAt: now,
+          retryCount: 0,
+          priority: request.priority ?? existing.priority,
+          status: "queued",
+          body: {},
+        });
+        this.putJob(resetJob);
+        this.deadLetters.removeDeadLetter(jobId);
+        return { job: resetJob, outcome: "requeued" };
+      }
+      return { job: existing, outcome: "duplicate" };
+    }
+
+    const job = this.enqueue({
+      id: jobId,
+      // A bird resubmitted (perhaps under an alias) after its record expired
+      // keeps the name its research was stored under.
+      name: this.results.getResult(jobId)?.name ?? request.name,
+      createdAt: now,
+      availableForProcessingAt: now,
+      retryCount: 0,
+      priority: request.priority ?? CONFIG.DEFAULT_PRIORITY,
+      status: "queued",
+      body: {},
+    });
+    this.putJob(job);
+    // The record of a dead-lettered job may have expired.
+    this.deadLetters.removeDeadLetter(jobId);
+    return { job, outcome: "created" };
+  }
+
+  /**
+   * Must be called inside a transaction. Makes the canonical title's ID an
+   * alias of the first job that reported it. When another job already owns
+   * the title, this job's ID becomes an alias of that job instead, so both
+   * names are researched once from then on.
+   */
+  private recordCanonicalTitle(jobId: string, title: string): void {
+    const titleId = toJobId(title);
+    if (titleId === "" || titleId === jobId) return;
+
+    const owner = this.resolveJobId(titleId);
+    if (owner === titleId && !this.jobs.get(titleId) && !this.results.getResult(titleId)) {
+      this.aliases.putSync(titleId, jobId);
+    } else if (owner !== jobId) {
+      this.aliases.putSync(jobId, owner);
+    }
+  }
+
+  /** Must be called inside a transaction. */
+  private selectDeadLetters(jobIds: string[] | undefined): DeadLetter[] {
+    if (jobIds === undefined) return this.deadLetters.listDeadLetters();
+    return [...new Set(jobIds)].flatMap((jobId) => this.deadLetters.getDeadLetter(jobId) ?? []);
+  }
+
+  /**
+   * When a workerId is given, the job must still be processing under that
+   * worker's lease. Without one the caller is trusted (tests, admin tooling),
+   * but a cancelled job can never be updated.
+   */
+  private holdsLease(job: ResearchJob, workerId: string | undefined): boolean {
+    if (job.status === "cancelled") return false;
+    if (workerId === undefined) return true;
+    return job.status === "processing" && job.lease?.workerId === workerId;
+  }
+
+  /** When the soonest terminal job record is due to expire. */
+  private getNextRecordExpiry(): number | undefined {
+    for (const key of this.expiryIndex.getKeys({ limit: 1 })) {
+      return parseInt(key.slice(0, CONFIG.TIMESTAMP_PAD_LENGTH), 10);
+    }
+    return undefined;
+  }
+
+  /** The first queue-index entry of each non-empty lane, highest priority first. */
+  private *laneHeads(): Generator<{ priority: number; timestamp: number; key: string; jobId: string }> {
+    for (let priority = CONFIG.MAX_PRIORITY; priority >= 0; priority--) {
+      const lane = priorityLane(priority);
+      for (const { key, value } of this.queueIndex.getRange({
+        start: `${lane}-`,
+        end: `${lane}-~`,
+        limit: 1,
+      })) {
+        yield { priority, timestamp: queueKeyTimestamp(key), key, jobId: value };
+      }
+    }
+  }
+
+  /**
+   * Adds a queue-index entry for the job and records its key on the job,
+   * bringing its priority into the range of the lanes first.
+   */
+  private enqueue(job: ResearchJob): ResearchJob {
+    const priority = toLanePriority(job.priority);
+    const key = queueKey(priority, job.availableForProcessingAt, job.id);
+    this.queueIndex.putSync(key, job.id);
+    return { ...job, priority, queueKey: key };
+  }
+
+  private dequeue(job: ResearchJob): ResearchJob {
+    const { queueKey, ...rest } = job;
+    if (queueKey) {
+      this.queueIndex.removeSync(queueKey);
+    }
+    return rest;
+  }
+
+  /** Adds an expiry-index entry for a job entering a terminal state. */
+  private scheduleExpiry(job: ResearchJob, now: number = Date.now()): ResearchJob {
+    const rest = this.clearExpiry(job);
+    const recordExpiresAt = now + CONFIG.TERMINAL_JOB_TTL_MS;
+    this.expiryIndex.putSync(indexKey(recordExpiresAt, job.id), job.id);
+    return { ...rest, recordExpiresAt };
+  }
+
+  private clearExpiry(job: ResearchJob): ResearchJob {
+    const { recordExpiresAt, ...rest } = job;
+    if (recordExpiresAt !== undefined) {
+      this.expiryIndex.removeSync(indexKey(recordExpiresAt, job.id));
+    }
+    return rest;
+  }
+
+  /** Adds a failed attempt to the job's error history and lastError. */
+  private recordError(
+    job: ResearchJob,
+    error: AttemptError | undefined,
+    workerId: string | undefined,
+    now: number = Date.now()
+  ): ResearchJob {
+    if (!error) return job;
+    return {
+      ...job,
+      lastError: error.message,
+      errorHistory: [
+        ...(job.errorHistory ?? []),
+        { timestamp: now, ...error, ...(workerId !== undefined && { workerId }) },
+      ],
+    };
+  }
+
+  private releaseLease(job: ResearchJob): ResearchJob {
+    const { lease, ...rest } = job;
+    if (lease) {
+      this.leaseIndex.removeSync(indexKey(lease.expiresAt, job.id));
+    }
+    return rest;
+  }
 }
@@ -0,0 +1,79 @@
+import { type Database } from "lmdb";
+import { getDb } from "../lib/db.js";
+import { CONFIG } from "../lib/config.js";
+
+interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+  /** Set from an upstream Retry-After; no tokens are handed out before it. */
+  pausedUntil?: number;
+}
+
+export type AcquireResult = { acquired: true } | { acquired: false; retryAt: number };
+
+/**
+ * A token bucket per upstream, kept in LMDB so every worker process on the
+ * host draws from the same budget.
+ */
+export class RateLimiter {
+  private buckets: Database<TokenBucket, string>;
+
+  constructor(
+    dbPath: string,
+    private readonly capacity: number = CONFIG.RATE_LIMIT_CAPACITY,
+    private readonly refillPerSecond: number = CONFIG.RATE_LIMIT_REFILL_PER_SECOND
+  ) {
+    this.buckets = getDb(dbPath).openDB<TokenBucket, string>("rate-limits", {
+      encoding: "msgpack",
+    });
+  }
+
+  /**
+   * Takes a token for a request to the upstream. When none is available,
+   * returns when the next one will be instead.
+   */
+  tryAcquire(key: string, now: number = Date.now()): AcquireResult {
+    return this.buckets.transactionSync((): AcquireResult => {
+      const bucket = this.refill(key, now);
+
+      if (bucket.pausedUntil !== undefined && bucket.pausedUntil > now) {
+        this.buckets.putSync(key, bucket);
+        return { acquired: false, retryAt: bucket.pausedUntil };
+      }
+
+      if (bucket.tokens < 1) {
+        this.buckets.putSync(key, bucket);
+        const waitMs = ((1 - bucket.tokens) / this.refillPerSecond) * 1000;
+        return { acquired: false, retryAt: now + Math.ceil(waitMs) };
+      }
+
+      this.buckets.putSync(key, { ...bucket, tokens: bucket.tokens - 1 });
+      return { acquired: true };
+    });
+  }
+
+  /** Holds back every worker until the given time, e.g. from a Retry-After. */
+  pauseUntil(key: string, until: number, now: number = Date.now()): void {
+    this.buckets.transactionSync(() => {
+      const bucket = this.refill(key, now);
+      if (bucket.pausedUntil === undefined || bucket.pausedUntil < until) {
+        this.buckets.putSync(key, { ...bucket, pausedUntil: until });
+      }
+    });
+  }
+
+  /** Must be called inside a transaction. */
+  private refill(key: string, now: number): TokenBucket {
+    const bucket = this.buckets.get(key);
+    if (!bucket) return { tokens: this.capacity, updatedAt: now };
+
+    const elapsedSeconds = Math.max(0, now - bucket.updatedAt) / 1000;
+    const { pausedUntil, ...rest } = bucket;
+    return {
+      ...rest,
+      tokens: Math.min(this.capacity, bucket.tokens + elapsedSeconds * this.refillPerSecond),
+      updatedAt: now,
+      ...(pausedUntil !== undefined && pausedUntil > now && { pausedUntil }),
+    };
+  }
+}
@@ -0,0 +1,115 @@
+import { type Database } from "lmdb";
+import { getDb } from "../lib/db.js";
+import { CONFIG } from "../lib/config.js";
+
+/** A bird's refresh schedule and when its research is next due for one. */
+export interface BirdRefresh {
+  /** A cron-style schedule for the bird. Without one its research is refreshed once stale. */
+  schedule?: string;
+  dueAt?: number;
+}
+
+const UNIT_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+const SHORTHANDS: Record<string, number> = {
+  "@hourly": UNIT_MS.h!,
+  "@daily": UNIT_MS.d!,
+  "@midnight": UNIT_MS.d!,
+  "@weekly": UNIT_MS.w!,
+  "@monthly": 30 * UNIT_MS.d!,
+};
+
+/** The schedules `refreshInterval` understands, for validating them up front. */
+export const REFRESH_SCHEDULE_PATTERN = "^@(hourly|daily|midnight|weekly|monthly|every ([1-9][0-9]*[mhdw])+)$";
+
+/**
+ * The interval of a cron-style schedule: one of the `@hourly`, `@daily`,
+ * `@weekly` or `@monthly` shorthands, or `@every` a duration such as `6h` or
+ * `1d12h`. Returns undefined for anything else.
+ */
+export function refreshInterval(schedule: string): number | undefined {
+  const shorthand = SHORTHANDS[schedule];
+  if (shorthand !== undefined) return shorthand;
+
+  const every = /^@every ((?:[1-9][0-9]*[mhdw])+)$/.exec(schedule);
+  if (!every) return undefined;
+  let ms = 0;
+  for (const [, count, unit] of every[1]!.matchAll(/([0-9]+)([mhdw])/g)) {
+    ms += Number(count) * UNIT_MS[unit!]!;
+  }
+  return ms;
+}
+
+function dueKey(dueAt: number, jobId: string): string {
+  return `${String(dueAt).padStart(CONFIG.TIMESTAMP_PAD_LENGTH, "0")}-${jobId}`;
+}
+
+/**
+ * When each bird's research is next due for a refresh, keyed by bird ID,
+ * with an index sorted by due time so due birds can be found without
+ * scanning every result. Like results, entries never expire.
+ */
+export class RefreshSchedule {
+  private refreshes: Database<BirdRefresh, string>;
+  private refreshIndex: Database<string, string>;
+
+  constructor(dbPath: string) {
+    const root = getDb(dbPath);
+    this.refreshes = root.openDB<BirdRefresh, string>("refreshes", { encoding: "msgpack" });
+    this.refreshIndex = root.openDB<string, string>("refresh-index", { encoding: "string" });
+  }
+
+  getRefresh(jobId: string): BirdRefresh | undefined {
+    return this.refreshes.get(jobId);
+  }
+
+  /**
+   * Must be called inside a transaction. Sets the bird's schedule, leaving
+   * its due time to the caller.
+   */
+  setSchedule(jobId: string, schedule: string): void {
+    this.refreshes.putSync(jobId, { ...this.refreshes.get(jobId), schedule });
+  }
+
+  /**
+   * Must be called inside a transaction. Makes the research fetched at the
+   * given time due one schedule interval later, or REFRESH_STALE_AFTER_MS
+   * later without a schedule. Returns the new due time.
+   */
+  scheduleAfter(jobId: string, fetchedAt: number): number {
+    const refresh = this.refreshes.get(jobId) ?? {};
+    const interval =
+      (refresh.schedule !== undefined ? refreshInterval(refresh.schedule) : undefined) ??
+      CONFIG.REFRESH_STALE_AFTER_MS;
+    const dueAt = fetchedAt + interval;
+
+    if (refresh.dueAt !== undefined) this.refreshIndex.removeSync(dueKey(refresh.dueAt, jobId));
+    this.refreshIndex.putSync(dueKey(dueAt, jobId), jobId);
+    this.refreshes.putSync(jobId, { ...refresh, dueAt });
+    return dueAt;
+  }
+
+  /** The IDs of birds due for a refresh at or before the given time, longest due first. */
+  listDue(until: number, limit?: number): Array<{ jobId: string; dueAt: number }> {
+    const end = `${String(until + 1).padStart(CONFIG.TIMESTAMP_PAD_LENGTH, "0")}-`;
+    return [...this.refreshIndex.getRange({ end, ...(limit !== undefined && { limit }) })].map(
+      ({ key, value }) => ({
+        jobId: value,
+        dueAt: parseInt(key.slice(0, CONFIG.TIMESTAMP_PAD_LENGTH), 10),
+      })
+    );
+  }
+
+  /** Must be called inside a transaction. */
+  removeRefresh(jobId: string): void {
+    const refresh = this.refreshes.get(jobId);
+    if (!refresh) return;
+    if (refresh.dueAt !== undefined) this.refreshIndex.removeSync(dueKey(refresh.dueAt, jobId));
+    this.refreshes.removeSync(jobId);
+  }
+}
@@ -0,0 +1,50 @@
+import { type Database } from "lmdb";
+import { getDb } from "../lib/db.js";
+import { type ResearchResult } from "../lib/types.js";
+
+/**
+ * Durable research results keyed by bird ID. Unlike queue records, results
+ * never expire, and a result is only replaced when a later job completes, so
+ * requeueing a bird never hides its last good answer.
+ */
+export class ResultsStore {
+  private results: Database<ResearchResult, string>;
+
+  constructor(dbPath: string) {
+    this.results = getDb(dbPath).openDB<ResearchResult, string>("results", {
+      encoding: "msgpack",
+    });
+  }
+
+  getResult(jobId: string): ResearchResult | undefined {
+    return this.results.get(jobId);
+  }
+
+  /** Writes synchronously so it can take part in a caller's transaction. */
+  putResult(
+    jobId: string,
+    name: string,
+    body: Record<string, unknown>,
+    source: string,
+    fetchedAt: number = Date.now()
+  ): ResearchResult {
+    const result: ResearchResult = {
+      id: jobId,
+      name,
+      body,
+      fetchedAt,
+      source,
+      sizeBytes: Buffer.byteLength(JSON.stringify(body)),
+    };
+    this.results.putSync(jobId, result);
+    return result;
+  }
+
+  listResults(): ResearchResult[] {
+    return [...this.results.getRange()].map(({ value }) => value);
+  }
+
+  removeResult(jobId: string): boolean {
+    return this.results.removeSync(jobId);
+  }
+}
@@ -1,3 +1,5 @@
+import { CONFIG } from "./config.js";
+
 export const ActionType = {
   JOB_SUBMITTED: "job-submitted",
   JOB_DUPLICATE: "job-duplicate",
@@ -7,6 +9,19 @@ export const ActionType = {
   JOB_FAILED: "job-failed",
   API_REQUEST: "api-request",
   WORKER_START: "worker-start",
+  JOB_LEASE_EXPIRED: "job-lease-expired",
+  JOB_CANCELLED: "job-cancelled",
+  JOB_PURGED: "job-purged",
+  WORKER_STOP: "worker-stop",
+  JOB_RATE_LIMITED: "job-rate-limited",
+  CIRCUIT_BREAKER: "circuit-breaker",
+  JOB_REPLAYED: "job-replayed",
+  JOB_REQUEUED: "job-requeued",
+  JOB_REFRESH_SCHEDULED: "job-refresh-scheduled",
+  API_KEY_CREATED: "api-key-created",
+  API_KEY_ROTATED: "api-key-rotated",
+  API_KEY_REVOKED: "api-key-revoked",
+  API_KEY_QUOTA_EXCEEDED: "api-key-quota-exceeded",
 } as const;
 
 export type ActionType = (typeof ActionType)[keyof typeof ActionType];
@@ -19,24 +34,171 @@ export interface LogAction {
   type: LogType;
   action: ActionType;
   body: Record<string, unknown>;
+  /** For job-completed entries, the time since the job was last claimed. */
+  durationMs?: number;
 }
 
-export type JobStatus = "queued" | "processing" | "completed" | "failed";
+export type CircuitState = "closed" | "open" | "half-open";
+
+export type JobStatus = "queued" | "processing" | "completed" | "failed" | "cancelled";
+
+export const JOB_STATUSES: readonly JobStatus[] = ["queued", "processing", "completed", "failed", "cancelled"];
+
+export type SubmitOutcome = "created" | "duplicate" | "requeued";
 
 export interface ResearchJobRequest {
   name: string;
+  priority?: number;
+  /** A cron-style schedule for refreshing the bird's research (see RefreshSchedule). */
+  refresh?: string;
+}
+
+export interface JobLease {
+  workerId: string;
+  claimedAt: number;
+  expiresAt: number;
+}
+
+/**
+ * How a failed research attempt is retried: a transient error is backed off
+ * and retried, a rate-limited one waits for the upstream, and a permanent one
+ * (no such page, a rejected request) will never succeed, so fails at once.
+ */
+export type ResearchErrorKind = "transient" | "rate-limited" | "permanent";
+
+/** Why a job ended up failed. */
+export type FailureReason = "permanent-error" | "retries-exhausted";
+
+export interface RetryPolicy {
+  /** How many failures of this kind a job is retried after. */
+  maxRetries: number;
+  /**
+   * The backoff base, doubled for each retry. Rate-limited jobs wait until
+   * the upstream's Retry-After instead, and only use this without one.
+   */
+  baseDelayMs: number;
 }
 
+export interface JobError {
+  timestamp: number;
+  kind: ResearchErrorKind;
+  message: string;
+  workerId?: string;
+}
+
+/** A failed attempt as reported to the queue, which stamps the rest. */
+export type AttemptError = Pick<JobError, "kind" | "message">;
+
 export interface ResearchJob {
   id: string;
   name: string;
   createdAt: number;
   availableForProcessingAt: number;
   retryCount: number;
+  priority: number;
   status: JobStatus;
   body: Record<string, unknown>;
+  queueKey?: string;
+  lease?: JobLease;
+  lastError?: string;
+  /** Every failed attempt since the job was last submitted, oldest first. */
+  errorHistory?: JobError[];
+  failureReason?: FailureReason;
+  /** When a job in a terminal state is removed from the queue database. */
+  recordExpiresAt?: number;
 }
 
+/** What an API key may do. `admin` includes the other scopes. */
+export type ApiScope = "submit" | "read" | "admin";
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  scopes: ApiScope[];
+  /** How many names the key may submit per UTC day. */
+  dailyQuota: number;
+  /** SHA-256 of the full key; the key itself is never stored. */
+  hash: string;
+  createdAt: number;
+  rotatedAt?: number;
+  revokedAt?: number;
+}
+
+/** A failed job as kept in the dead-letter store. */
+export interface DeadLetter {
+  id: string;
+  name: string;
+  priority: number;
+  createdAt: number;
+  failedAt: number;
+  retryCount: number;
+  /** The error that failed the job. */
+  error?: string;
+  failureReason?: FailureReason;
+  errorHistory: JobError[];
+}
+
+/**
+ * The research body for a bird, as checked against RESEARCH_SCHEMA (see
+ * src/providers/research.ts) before it is stored.
+ */
+export interface BirdResearch {
+  /** Bumped whenever these fields change, so consumers can tell results apart. */
+  schemaVersion: number;
+  /** The title of the source page, after redirects. */
+  canonicalTitle: string;
+  scientificName?: string;
+  summary: string;
+  sourceUrl: string;
+  /** The revision of the source page the summary was taken from. */
+  revisionId: number;
+  fetchedAt: number;
+}
+
+/** The last good research for a bird, kept independently of its queue record. */
+export interface ResearchResult {
+  id: string;
+  name: string;
+  body: Record<string, unknown>;
+  fetchedAt: number;
+  /** The provider that produced the research. */
+  source: string;
+  /** Size of the JSON encoded body in bytes. */
+  sizeBytes: number;
+}
+
+/**
+ * The job ID for a bird name. Names are Unicode normalized, Latin letters
+ * are stripped of accents, apostrophes are dropped, it is lowercased, and
+ * every other run of punctuation or whitespace becomes a single hyphen, so
+ * "Brown Pelican", "brown-pelican" and "Brown pelican!" are the same bird.
+ * Marks on other scripts are kept, since there they tell words apart (ガン
+ * and カン are different birds). A name without letters or digits gives "".
+ */
 export function toJobId(name: string): string {
-  return name.toLowerCase().replace(/\s+/g, "-");
+  return name
+    .normalize("NFKD")
+    .replace(/(\p{Script=Latin})\p{M}+/gu, "$1")
+    .normalize("NFC")
+    .replace(/['\u2019]/g, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/** Whether a job ID is at most MAX_JOB_ID_BYTES in UTF-8, so LMDB keys built from it fit. */
+export function fitsJobIdLimit(jobId: string): boolean {
+  return Buffer.byteLength(jobId) <= CONFIG.MAX_JOB_ID_BYTES;
+}
+
+/**
+ * Why the job ID made from a name can't be stored, if it can't: it is empty,
+ * or over MAX_JOB_ID_BYTES. Normalization can make an ID far longer than its
+ * name ("ﷺ" becomes 18 characters), so the limit is on the ID itself. Both
+ * request validation and the queue check names with this.
+ */
+export function jobIdProblem(jobId: string): string | undefined {
+  if (jobId === "") return "has no letters or digits to make a job ID from";
+  if (!fitsJobIdLimit(jobId)) return `makes a job ID longer than ${CONFIG.MAX_JOB_ID_BYTES} bytes`;
+  return undefined;
 }
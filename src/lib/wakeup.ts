@@ -0,0 +1,85 @@
+import { EventEmitter } from "node:events";
+import { type FSWatcher, readFileSync, watch, writeFileSync } from "node:fs";
+import { join } from "node:path";
+
+const SIGNAL_FILE = "wakeup";
+
+// Shared by every WakeupSignal on the same directory, so a notification
+// reaches waiters in this process without a round trip through the file.
+const emitters = new Map<string, EventEmitter>();
+
+/**
+ * Wakes idle workers when there is new work. Waiters in the same process are
+ * woken directly, and waiters in other processes through a change to a
+ * signal file next to the database they share.
+ */
+export class WakeupSignal {
+  private readonly path: string;
+  private readonly emitter: EventEmitter;
+  private watcher: FSWatcher | undefined;
+
+  constructor(dir: string) {
+    this.path = join(dir, SIGNAL_FILE);
+
+    let emitter = emitters.get(this.path);
+    if (!emitter) {
+      emitter = new EventEmitter();
+      emitter.setMaxListeners(0);
+      emitters.set(this.path, emitter);
+    }
+    this.emitter = emitter;
+  }
+
+  notify(): void {
+    this.emitter.emit("wake");
+    try {
+      writeFileSync(this.path, `${process.pid}-${Date.now()}`);
+    } catch (err) {
+      console.error(`Failed to write wakeup signal: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  /**
+   * Resolves after `ms`, as soon as any process calls notify(), or when the
+   * given signal is aborted.
+   */
+  wait(ms: number, signal?: AbortSignal): Promise<void> {
+    this.watch();
+
+    return new Promise((resolve) => {
+      const wake = (): void => {
+        clearTimeout(timer);
+        this.emitter.off("wake", wake);
+        signal?.removeEventListener("abort", wake);
+        resolve();
+      };
+      const timer = setTimeout(wake, ms);
+      this.emitter.on("wake", wake);
+      signal?.addEventListener("abort", wake);
+      if (signal?.aborted) wake();
+    });
+  }
+
+  close(): void {
+    this.watcher?.close();
+    this.watcher = undefined;
+  }
+
+  private watch(): void {
+    if (this.watcher) return;
+
+    // fs.watch needs the file to exist. Changes written by this process have
+    // already woken its waiters directly, so only other writers count.
+    writeFileSync(this.path, "", { flag: "a" });
+    this.watcher = watch(this.path, () => {
+      let writer: string | undefined;
+      try {
+        writer = readFileSync(this.path, "utf8").split("-")[0];
+      } catch {
+        // Treat an unreadable signal as a wakeup rather than miss one.
+      }
+      if (writer !== String(process.pid)) this.emitter.emit("wake");
+    });
+    this.watcher.unref();
+  }
+}
@@ -0,0 +1,127 @@
+import { type Database } from "lmdb";
+
+/**
+ * - failure-rate: failed / (completed + failed) over the window, fires above threshold
+ * - queue-depth: queued jobs that have been available for longer than the window, fires above threshold
+ * - stuck-processing: jobs processing for longer than the window, fires above threshold
+ * - worker-heartbeat: workers heard from within the window, fires below threshold
+ */
+export type AlertRuleKind = "failure-rate" | "queue-depth" | "stuck-processing" | "worker-heartbeat";
+
+export interface AlertRule {
+  name: string;
+  kind: AlertRuleKind;
+  threshold: number;
+  windowMs: number;
+  /** Minimum time between repeat notifications while the rule keeps firing. */
+  cooldownMs: number;
+}
+
+export interface Alert {
+  rule: string;
+  kind: AlertRuleKind;
+  status: "firing" | "resolved";
+  value: number;
+  threshold: number;
+  timestamp: number;
+  message: string;
+}
+
+export interface AlertSink {
+  readonly name: string;
+  send(alert: Alert): Promise<void>;
+}
+
+interface AlertState {
+  firing: boolean;
+  lastNotifiedAt: number;
+}
+
+function isBreached(rule: AlertRule, value: number): boolean {
+  return rule.kind === "worker-heartbeat" ? value < rule.threshold : value > rule.threshold;
+}
+
+function describe(rule: AlertRule, value: number): string {
+  const window = `${Math.round(rule.windowMs / 1000)}s`;
+  switch (rule.kind) {
+    case "failure-rate":
+      return `High failure rate detected: ${(value * 100).toFixed(1)}% over the last ${window} (threshold ${(rule.threshold * 100).toFixed(1)}%)`;
+    case "queue-depth":
+      return `Queue backlog: ${value} jobs waiting longer than ${window} (threshold ${rule.threshold})`;
+    case "stuck-processing":
+      return `${value} jobs processing for longer than ${window} (threshold ${rule.threshold})`;
+    case "worker-heartbeat":
+      return `${value} workers heard from in the last ${window} (expected at least ${rule.threshold})`;
+  }
+}
+
+/**
+ * Tracks whether each rule is firing and notifies the sinks on transitions.
+ * State lives in LMDB so the API and worker processes sharing an observer
+ * database don't send duplicate notifications.
+ */
+export class AlertManager {
+  constructor(
+    private state: Database<AlertState, string>,
+    readonly rules: readonly AlertRule[],
+    private sinks: readonly AlertSink[]
+  ) {}
+
+  /**
+   * Takes the current value of each evaluated rule (keyed by rule name) and
+   * sends a firing alert when a rule first breaches or its cooldown has
+   * passed, and a resolved alert when a firing rule clears.
+   */
+  async process(readings: Map<string, number>, now: number = Date.now()): Promise<Alert[]> {
+    const alerts = this.state.transactionSync(() => {
+      const due: Alert[] = [];
+
+      for (const rule of this.rules) {
+        const value = readings.get(rule.name);
+        if (value === undefined) continue;
+
+        const previous = this.state.get(rule.name) ?? { firing: false, lastNotifiedAt: 0 };
+        const breached = isBreached(rule, value);
+
+        let status: Alert["status"] | undefined;
+        if (breached && (!previous.firing || now - previous.lastNotifiedAt >= rule.cooldownMs)) {
+          status = "firing";
+        } else if (!breached && previous.firing) {
+          status = "resolved";
+        }
+        if (!status) continue;
+
+        this.state.putSync(rule.name, { firing: breached, lastNotifiedAt: now });
+        due.push({
+          rule: rule.name,
+          kind: rule.kind,
+          status,
+          value,
+          threshold: rule.threshold,
+          timestamp: now,
+          message: describe(rule, value),
+        });
+      }
+
+      return due;
+    });
+
+    await this.dispatch(alerts);
+    return alerts;
+  }
+
+  private async dispatch(alerts: Alert[]): Promise<void> {
+    const deliveries = alerts.flatMap((alert) =>
+      this.sinks.map(async (sink) => {
+        try {
+          await sink.send(alert);
+        } catch (err) {
+          console.error(
+            `Alert sink ${sink.name} failed: ${err instanceof Error ? err.message : String(err)}`
+          );
+        }
+      })
+    );
+    await Promise.all(deliveries);
+  }
+}
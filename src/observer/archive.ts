@@ -0,0 +1,38 @@
+import { appendFile, readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { promisify } from "node:util";
+import { gunzip, gzip } from "node:zlib";
+import { type LogAction } from "../lib/types.js";
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+/** One archived log entry along with the key it was stored under. */
+export interface ArchivedLog {
+  key: string;
+  entry: LogAction;
+}
+
+/** Archives are split by the UTC day of the entries they hold. */
+export function archivePath(dir: string, timestamp: number): string {
+  const day = new Date(timestamp).toISOString().slice(0, 10);
+  return join(dir, `observer-${day}.ndjson.gz`);
+}
+
+/**
+ * Appends the records to the archive as a new gzip member. Concatenated gzip
+ * members form a valid gzip file, so repeated compactions into the same day
+ * never need to rewrite what is already there.
+ */
+export async function appendArchive(path: string, records: ArchivedLog[]): Promise<void> {
+  const ndjson = records.map((record) => JSON.stringify(record)).join("\n") + "\n";
+  await appendFile(path, await gzipAsync(ndjson));
+}
+
+export async function readArchive(path: string): Promise<ArchivedLog[]> {
+  const ndjson = (await gunzipAsync(await readFile(path))).toString("utf8");
+  return ndjson
+    .split("\n")
+    .filter((line) => line.trim() !== "")
+    .map((line) => JSON.parse(line) as ArchivedLog);
+}
@@ -0,0 +1,164 @@
+import { CONFIG } from "../lib/config.js";
+import { ActionType, type JobStatus, type LogAction } from "../lib/types.js";
+import { type Observer } from "./observer.js";
+
+export type JobTransition =
+  | "queued"
+  | "processing"
+  | "retry"
+  | "completed"
+  | "failed"
+  | "cancelled"
+  | "purged";
+
+export interface JobEvent {
+  /** The observer log key of the entry, usable as a Last-Event-ID. */
+  id: string;
+  transition: JobTransition;
+  data: {
+    jobId: string;
+    name: string;
+    /** The job's status after the transition, or null once it was purged. */
+    status: JobStatus | null;
+    action: ActionType;
+    timestamp: number;
+  } & Record<string, unknown>;
+}
+
+/** The lifecycle actions that move a job between states. */
+export const LIFECYCLE_ACTIONS: ActionType[] = [
+  ActionType.JOB_SUBMITTED,
+  ActionType.JOB_REPLAYED,
+  ActionType.JOB_REQUEUED,
+  ActionType.JOB_REFRESH_SCHEDULED,
+  ActionType.JOB_CLAIMED,
+  ActionType.JOB_RETRY,
+  ActionType.JOB_RATE_LIMITED,
+  ActionType.JOB_LEASE_EXPIRED,
+  ActionType.JOB_COMPLETED,
+  ActionType.JOB_FAILED,
+  ActionType.JOB_CANCELLED,
+  ActionType.JOB_PURGED,
+  ActionType.WORKER_STOP,
+];
+
+function toTransition(entry: LogAction): JobTransition | undefined {
+  switch (entry.action) {
+    case ActionType.JOB_SUBMITTED:
+    case ActionType.JOB_REPLAYED:
+    case ActionType.JOB_REQUEUED:
+    case ActionType.JOB_REFRESH_SCHEDULED:
+      return "queued";
+    case ActionType.JOB_CLAIMED:
+      return "processing";
+    case ActionType.JOB_RETRY:
+    case ActionType.JOB_RATE_LIMITED:
+      return "retry";
+    // A reaped job that ran out of retries is followed by its own job-failed.
+    case ActionType.JOB_LEASE_EXPIRED:
+      return entry.body.status === "queued" ? "retry" : undefined;
+    case ActionType.JOB_COMPLETED:
+      return "completed";
+    case ActionType.JOB_FAILED:
+      return "failed";
+    case ActionType.JOB_CANCELLED:
+      return "cancelled";
+    case ActionType.JOB_PURGED:
+      return "purged";
+    // Only when the stopping worker released an unfinished job.
+    case ActionType.WORKER_STOP:
+      return entry.body.jobId === undefined ? undefined : "queued";
+    default:
+      return undefined;
+  }
+}
+
+export function toJobEvent(key: string, entry: LogAction): JobEvent | undefined {
+  const transition = toTransition(entry);
+  if (!transition) return undefined;
+
+  return {
+    id: key,
+    transition,
+    data: {
+      ...entry.body,
+      jobId: String(entry.body.jobId),
+      name: String(entry.body.name),
+      status: transition === "purged" ? null : transition === "retry" ? "queued" : transition,
+      action: entry.action,
+      timestamp: entry.timestamp,
+    },
+  };
+}
+
+function keyTimestamp(key: string): number {
+  return parseInt(key.slice(0, CONFIG.TIMESTAMP_PAD_LENGTH), 10);
+}
+
+/**
+ * Follows job lifecycle events through the observer log, which every process
+ * writes to. Each poll re-reads the last EVENT_STREAM_OVERLAP_MS of the log,
+ * because an entry from another process can be committed after later keyed
+ * entries were already read, and skips entries it has already returned.
+ */
+export class JobEventTail {
+  private since: number;
+  private afterKey: string;
+  private delivered = new Map<string, number>();
+
+  /**
+   * Starts at the given Last-Event-ID when resuming, otherwise only events
+   * logged from now on are returned.
+   */
+  constructor(
+    private readonly observer: Observer,
+    private readonly jobId?: string,
+    lastEventId?: string,
+    now: number = Date.now()
+  ) {
+    if (lastEventId !== undefined && !Number.isNaN(keyTimestamp(lastEventId))) {
+      this.afterKey = lastEventId;
+      this.since = keyTimestamp(lastEventId);
+    } else {
+      // A bare timestamp sorts before every log key from that millisecond.
+      this.afterKey = String(now).padStart(CONFIG.TIMESTAMP_PAD_LENGTH, "0");
+      this.since = now;
+    }
+  }
+
+  poll(now: number = Date.now()): JobEvent[] {
+    const from = this.since - CONFIG.EVENT_STREAM_OVERLAP_MS;
+    const entries = this.observer.tailLogs({
+      actions: LIFECYCLE_ACTIONS,
+      from: Math.max(0, from),
+      limit: CONFIG.MAX_LOG_PAGE_SIZE,
+      cursor: this.afterKey,
+      ...(this.jobId !== undefined && { jobId: this.jobId }),
+    });
+
+    const events: JobEvent[] = [];
+    for (const { key, entry } of entries) {
+      if (this.delivered.has(key)) continue;
+      this.delivered.set(key, entry.timestamp);
+
+      const event = toJobEvent(key, entry);
+      if (event) events.push(event);
+    }
+
+    // A full page may have stopped short of now, so continue after the last
+    // entry read instead.
+    const last = entries[entries.length - 1];
+    if (entries.length === CONFIG.MAX_LOG_PAGE_SIZE && last) {
+      this.afterKey = last.key;
+      this.since = last.entry.timestamp;
+    } else {
+      this.since = now;
+    }
+
+    for (const [key, timestamp] of this.delivered) {
+      if (timestamp < this.since - CONFIG.EVENT_STREAM_OVERLAP_MS) this.delivered.delete(key);
+    }
+
+    return events;
+  }
+}
@@ -0,0 +1,102 @@
+import { CONFIG } from "../lib/config.js";
+import { type ActionType, type CircuitState } from "../lib/types.js";
+
+/**
+ * Processing time observations bucketed by CONFIG.PROCESSING_TIME_BUCKETS_MS.
+ * `bins[i]` counts observations in (bounds[i - 1], bounds[i]]; the final bin
+ * counts everything above the last bound.
+ */
+export interface ProcessingHistogram {
+  count: number;
+  sumMs: number;
+  maxMs: number;
+  bins: number[];
+}
+
+/** Per-minute rollup of everything logged in [start, start + METRICS_BUCKET_MS). */
+export interface MetricsBucket {
+  start: number;
+  counts: Partial<Record<ActionType, number>>;
+  processing: ProcessingHistogram;
+}
+
+/** Running totals since the observer database was created, for counters. */
+export interface MetricsTotals {
+  counts: Partial<Record<ActionType, number>>;
+  processing: ProcessingHistogram;
+  retriesByWorker: Record<string, number>;
+}
+
+export interface CircuitBreakerStatus {
+  state: CircuitState;
+  since: number;
+}
+
+export interface Metrics {
+  submitted: number;
+  completed: number;
+  failed: number;
+  failureRate: number;
+  avgProcessingTimeMs: number | null;
+  p50ProcessingTimeMs: number | null;
+  p95ProcessingTimeMs: number | null;
+  p99ProcessingTimeMs: number | null;
+  circuitBreakers: Record<string, CircuitBreakerStatus>;
+}
+
+export function bucketStart(timestamp: number): number {
+  return timestamp - (timestamp % CONFIG.METRICS_BUCKET_MS);
+}
+
+export function emptyHistogram(): ProcessingHistogram {
+  return {
+    count: 0,
+    sumMs: 0,
+    maxMs: 0,
+    bins: new Array<number>(CONFIG.PROCESSING_TIME_BUCKETS_MS.length + 1).fill(0),
+  };
+}
+
+export function observe(histogram: ProcessingHistogram, durationMs: number): void {
+  let bin = CONFIG.PROCESSING_TIME_BUCKETS_MS.findIndex((bound) => durationMs <= bound);
+  if (bin === -1) bin = CONFIG.PROCESSING_TIME_BUCKETS_MS.length;
+
+  histogram.count++;
+  histogram.sumMs += durationMs;
+  histogram.maxMs = Math.max(histogram.maxMs, durationMs);
+  histogram.bins[bin] = (histogram.bins[bin] ?? 0) + 1;
+}
+
+export function mergeHistogram(into: ProcessingHistogram, from: ProcessingHistogram): void {
+  into.count += from.count;
+  into.sumMs += from.sumMs;
+  into.maxMs = Math.max(into.maxMs, from.maxMs);
+  from.bins.forEach((n, i) => {
+    into.bins[i] = (into.bins[i] ?? 0) + n;
+  });
+}
+
+/**
+ * Estimates the q-th quantile by linear interpolation within the bin that
+ * contains it, capped at the largest observed value.
+ */
+export function percentile(histogram: ProcessingHistogram, q: number): number | null {
+  if (histogram.count === 0) return null;
+
+  const bounds = CONFIG.PROCESSING_TIME_BUCKETS_MS;
+  const target = q * histogram.count;
+  let cumulative = 0;
+
+  for (let i = 0; i < histogram.bins.length; i++) {
+    const n = histogram.bins[i] ?? 0;
+    if (n > 0 && cumulative + n >= target) {
+      const lower = i === 0 ? 0 : bounds[i - 1]!;
+      const upper = bounds[i] ?? histogram.maxMs;
+      const estimate = lower + (upper - lower) * ((target - cumulative) / n);
+      return Math.min(estimate, histogram.maxMs);
+    }
+    cumulative += n;
+  }
+
+  return histogram.maxMs;
+}
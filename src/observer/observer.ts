@@ -1,12 +1,212 @@
+import { mkdir } from "node:fs/promises";
+import { type Database } from "lmdb";
 import { getDb } from "../lib/db.js";
 import { CONFIG } from "../lib/config.js";
-import { ActionType, type LogAction, type LogType } from "../lib/types.js";
+import { type Queue } from "../lib/queue.js";
+import { ActionType, type CircuitState, type LogAction, type LogType } from "../lib/types.js";
+import {
+  type Alert,
+  type AlertRule,
+  type AlertRuleKind,
+  type AlertSink,
+  AlertManager,
+} from "./alerts.js";
+import { ConsoleSink } from "./sinks.js";
+import { type ArchivedLog, appendArchive, archivePath, readArchive } from "./archive.js";
+import {
+  type CircuitBreakerStatus,
+  type Metrics,
+  type MetricsBucket,
+  type MetricsTotals,
+  type ProcessingHistogram,
+  bucketStart,
+  emptyHistogram,
+  mergeHistogram,
+  observe,
+  percentile,
+} from "./metrics.js";
+
+const TOTALS_KEY = "all";
+
+function emptyTotals(): MetricsTotals {
+  return { counts: {}, processing: emptyHistogram(), retriesByWorker: {} };
+}
+
+function timestampKey(timestamp: number): string {
+  return String(timestamp).padStart(CONFIG.TIMESTAMP_PAD_LENGTH, "0");
+}
+
+// Log keys are `${zeroPaddedTimestamp}-${sequence}-${uuid}`. The sequence
+// keeps entries logged by one process in the same millisecond in order.
+const SEQUENCE_PAD_LENGTH = 6;
+let sequence = 0;
+
+// Before the named databases, entries were kept in the root database keyed
+// `${zeroPaddedTimestamp}-${uuid}`.
+const LEGACY_LOG_KEY = new RegExp(`^\\d{${CONFIG.TIMESTAMP_PAD_LENGTH}}-`);
+
+function logKey(entry: LogAction): string {
+  sequence = (sequence + 1) % 10 ** SEQUENCE_PAD_LENGTH;
+  return `${timestampKey(entry.timestamp)}-${String(sequence).padStart(SEQUENCE_PAD_LENGTH, "0")}-${entry.id}`;
+}
+
+export interface LogQuery {
+  actions?: ActionType[];
+  type?: LogType;
+  jobId?: string;
+  workerId?: string;
+  /** Inclusive lower bound on the entry timestamp. */
+  from?: number;
+  /** Inclusive upper bound on the entry timestamp. */
+  to?: number;
+  /** The nextCursor of the previous page. */
+  cursor?: string;
+  limit?: number;
+}
+
+function retentionFor(entry: LogAction): number {
+  return (
+    CONFIG.LOG_RETENTION_BY_ACTION_MS[entry.action] ??
+    CONFIG.LOG_RETENTION_BY_TYPE_MS[entry.type] ??
+    CONFIG.DEFAULT_LOG_RETENTION_MS
+  );
+}
+
+// Which setting an entry's retention comes from: `action:${action}`,
+// `type:${type}` or `default`. Entries are indexed by it so compaction can
+// scan each class only as far as its own retention reaches.
+function retentionClass(entry: LogAction): string {
+  if (CONFIG.LOG_RETENTION_BY_ACTION_MS[entry.action] !== undefined) return `action:${entry.action}`;
+  if (CONFIG.LOG_RETENTION_BY_TYPE_MS[entry.type] !== undefined) return `type:${entry.type}`;
+  return "default";
+}
+
+/** A class whose setting has since been removed falls back to the default. */
+function classRetention(retentionClass: string): number {
+  const [kind, name] = retentionClass.split(":") as [string, string | undefined];
+  const retention =
+    kind === "action"
+      ? CONFIG.LOG_RETENTION_BY_ACTION_MS[name as ActionType]
+      : kind === "type"
+        ? CONFIG.LOG_RETENTION_BY_TYPE_MS[name as LogType]
+        : undefined;
+  return retention ?? CONFIG.DEFAULT_LOG_RETENTION_MS;
+}
+
+function matches(entry: LogAction, query: LogQuery): boolean {
+  if (query.actions && !query.actions.includes(entry.action)) return false;
+  if (query.type && entry.type !== query.type) return false;
+  if (query.jobId !== undefined && entry.body.jobId !== query.jobId) return false;
+  if (query.workerId !== undefined && entry.body.workerId !== query.workerId) return false;
+  return true;
+}
 
 export class Observer {
-  private db;
+  private root: Database;
+  private logs: Database<LogAction, string>;
+  private logsByJob: Database<string, [string, string]>;
+  private logsByWorker: Database<string, [string, string]>;
+  private logsByRetention: Database<string, [string, string]>;
+  private restoredLogs: Database<true, string>;
+  private buckets: Database<MetricsBucket, string>;
+  private claimTimes: Database<number, string>;
+  private totals: Database<MetricsTotals, string>;
+  private workerHeartbeats: Database<number, string>;
+  private circuitBreakers: Database<CircuitBreakerStatus, string>;
+  private alerts: AlertManager;
+
+  constructor(
+    dbPath: string,
+    alerting: { rules?: readonly AlertRule[]; sinks?: readonly AlertSink[] } = {}
+  ) {
+    const root = getDb(dbPath);
+    this.root = root;
+    this.logs = root.openDB<LogAction, string>("logs", { encoding: "msgpack" });
+    this.logsByJob = root.openDB<string, [string, string]>("logs-by-job", { encoding: "string" });
+    this.logsByWorker = root.openDB<string, [string, string]>("logs-by-worker", {
+      encoding: "string",
+    });
+    this.logsByRetention = root.openDB<string, [string, string]>("logs-by-retention", {
+      encoding: "string",
+    });
+    this.restoredLogs = root.openDB<true, string>("restored-logs", { encoding: "msgpack" });
+    this.buckets = root.openDB<MetricsBucket, string>("metrics-buckets", { encoding: "msgpack" });
+    this.claimTimes = root.openDB<number, string>("claim-times", { encoding: "msgpack" });
+    this.totals = root.openDB<MetricsTotals, string>("metrics-totals", { encoding: "msgpack" });
+    this.workerHeartbeats = root.openDB<number, string>("worker-heartbeats", {
+      encoding: "msgpack",
+    });
+    this.circuitBreakers = root.openDB<CircuitBreakerStatus, string>("circuit-breakers", {
+      encoding: "msgpack",
+    });
+    this.alerts = new AlertManager(
+      root.openDB("alert-state", { encoding: "msgpack" }),
+      alerting.rules ?? CONFIG.ALERT_RULES,
+      alerting.sinks ?? [new ConsoleSink()]
+    );
+    this.migrateLegacyLogs();
+    this.backfillRetentionIndex();
+  }
+
+  /**
+   * Moves entries left in the root database by older versions into the logs
+   * database, oldest first, indexing them and backfilling the metrics buckets
+   * and totals as if they had just been logged. Runs in batches of
+   * COMPACTION_BATCH_SIZE and does nothing once the root database is clear.
+   */
+  private migrateLegacyLogs(): void {
+    for (;;) {
+      const keys: string[] = [];
+      // The root database also holds the names of the named databases, so
+      // only keys shaped like a log key are read.
+      for (const key of this.root.getKeys()) {
+        if (typeof key !== "string" || !LEGACY_LOG_KEY.test(key)) continue;
+        keys.push(key);
+        if (keys.length === CONFIG.COMPACTION_BATCH_SIZE) break;
+      }
+      if (keys.length === 0) return;
+
+      this.logs.transactionSync(() => {
+        for (const legacyKey of keys) {
+          const entry = this.root.get(legacyKey) as LogAction | undefined;
+          this.root.removeSync(legacyKey);
+          if (!entry) continue;
 
-  constructor(dbPath: string) {
-    this.db = getDb(dbPath);
+          const key = logKey(entry);
+          this.trackProcessingTime(entry);
+          this.trackCircuitBreaker(entry);
+          this.logs.putSync(key, entry);
+          this.index(key, entry);
+          this.rollup(entry);
+        }
+      });
+    }
+  }
+
+  /**
+   * Indexes entries logged before the retention index existed, in batches of
+   * COMPACTION_BATCH_SIZE. Does nothing once the index has any entries.
+   */
+  private backfillRetentionIndex(): void {
+    if (this.logsByRetention.getKeysCount({ limit: 1 }) > 0) return;
+
+    let after: string | undefined;
+    for (;;) {
+      const batch: Array<{ key: string; value: LogAction }> = [];
+      for (const { key, value } of this.logs.getRange({ start: after ?? "" })) {
+        if (key === after) continue;
+        batch.push({ key, value });
+        if (batch.length === CONFIG.COMPACTION_BATCH_SIZE) break;
+      }
+      if (batch.length === 0) return;
+
+      this.logs.transactionSync(() => {
+        for (const { key, value } of batch) {
+          this.logsByRetention.putSync([retentionClass(value), key], key);
+        }
+      });
+      after = batch[batch.length - 1]!.key;
+    }
   }
 
   log(action: (typeof ActionType)[keyof typeof ActionType], type: LogType, body: Record<string, unknown>): void {
@@ -18,97 +218,440 @@ export class Observer {
       body,
     };
 
-    const key = `${String(entry.timestamp).padStart(CONFIG.TIMESTAMP_PAD_LENGTH, "0")}-${entry.id}`;
-    this.db.putSync(key, entry);
+    const key = logKey(entry);
+    this.logs.transactionSync(() => {
+      this.trackProcessingTime(entry);
+      this.trackCircuitBreaker(entry);
+      this.logs.putSync(key, entry);
+      this.index(key, entry);
+      this.rollup(entry);
+    });
 
     if (action === ActionType.JOB_FAILED) {
-      this.checkFailureRate();
+      void this.checkAlerts({ kinds: ["failure-rate"] });
     }
   }
 
   getTrace(jobId: string): LogAction[] {
     const results: LogAction[] = [];
-    for (const { value } of this.db.getRange()) {
-      const entry = value as LogAction;
-      if (entry.body && (entry.body as Record<string, unknown>).jobId === jobId) {
-        results.push(entry);
+    for (const { value } of this.logsByJob.getRange({ start: [jobId], end: [jobId, "~"] })) {
+      const entry = this.logs.get(value);
+      if (entry) results.push(entry);
+    }
+    return results;
+  }
+
+  /**
+   * Returns a page of entries matching every given filter, oldest first.
+   * Filtering by job or worker walks that secondary index instead of the
+   * whole log. Pass the returned nextCursor to fetch the following page.
+   */
+  searchLogs(query: LogQuery): { entries: LogAction[]; nextCursor: string | null } {
+    const limit = query.limit ?? CONFIG.DEFAULT_LOG_PAGE_SIZE;
+    const entries: LogAction[] = [];
+    let lastKey: string | null = null;
+
+    for (const { key, entry } of this.scan(query)) {
+      if (entries.length === limit) {
+        return { entries, nextCursor: lastKey };
       }
+      entries.push(entry);
+      lastKey = key;
     }
-    return results.sort((a, b) => a.timestamp - b.timestamp);
+
+    return { entries, nextCursor: null };
   }
 
-  getMetrics(windowMs: number = CONFIG.DEFAULT_METRICS_WINDOW_MS): {
-    submitted: number;
-    completed: number;
-    failed: number;
-    failureRate: number;
-    avgProcessingTimeMs: number | null;
-  } {
-    const now = Date.now();
-    const windowStart = now - windowMs;
-    const startKey = `${String(windowStart).padStart(CONFIG.TIMESTAMP_PAD_LENGTH, "0")}`;
+  /**
+   * Like searchLogs, but returns each entry with its log key (which sorts in
+   * logging order) so a reader can tail the log from another process.
+   */
+  tailLogs(query: LogQuery): Array<{ key: string; entry: LogAction }> {
+    const limit = query.limit ?? CONFIG.DEFAULT_LOG_PAGE_SIZE;
+    const results: Array<{ key: string; entry: LogAction }> = [];
+
+    for (const result of this.scan(query)) {
+      if (results.length === limit) break;
+      results.push(result);
+    }
 
-    let submitted = 0;
-    let completed = 0;
-    let failed = 0;
+    return results;
+  }
 
-    const claimedTimes = new Map<string, number>();
-    const completedTimes = new Map<string, number>();
+  /**
+   * Answers from the per-minute rollup buckets. Only the partial minute at the
+   * start of the window is read from the raw log, so counts match a full scan
+   * of the window exactly.
+   */
+  getMetrics(windowMs: number = CONFIG.DEFAULT_METRICS_WINDOW_MS): Metrics {
+    const { counts, processing } = this.aggregate(Date.now() - windowMs);
 
-    for (const { key, value } of this.db.getRange({ start: startKey })) {
-      if (typeof key !== "string") continue;
-      const entry = value as LogAction;
+    const submitted = counts[ActionType.JOB_SUBMITTED] ?? 0;
+    const completed = counts[ActionType.JOB_COMPLETED] ?? 0;
+    const failed = counts[ActionType.JOB_FAILED] ?? 0;
 
-      switch (entry.action) {
-        case ActionType.JOB_SUBMITTED:
-          submitted++;
-          break;
-        case ActionType.JOB_COMPLETED:
-          completed++;
-          if (entry.body?.jobId) {
-            completedTimes.set(entry.body.jobId as string, entry.timestamp);
+    const total = completed + failed;
+    const failureRate = total === 0 ? 0 : failed / total;
+
+    return {
+      submitted,
+      completed,
+      failed,
+      failureRate,
+      avgProcessingTimeMs: processing.count === 0 ? null : processing.sumMs / processing.count,
+      p50ProcessingTimeMs: percentile(processing, 0.5),
+      p95ProcessingTimeMs: percentile(processing, 0.95),
+      p99ProcessingTimeMs: percentile(processing, 0.99),
+      circuitBreakers: this.getCircuitBreakers(),
+    };
+  }
+
+  private *scan(query: LogQuery): Generator<{ key: string; entry: LogAction }> {
+    const fromKey = timestampKey(query.from ?? 0);
+    const start = query.cursor !== undefined && query.cursor > fromKey ? query.cursor : fromKey;
+    const end = query.to === undefined ? "~" : timestampKey(query.to + 1);
+
+    for (const key of this.candidateKeys(query, start, end)) {
+      if (key === query.cursor) continue;
+
+      const entry = this.logs.get(key);
+      if (entry && matches(entry, query)) yield { key, entry };
+    }
+  }
+
+  private *candidateKeys(query: LogQuery, start: string, end: string): Generator<string> {
+    if (query.jobId !== undefined || query.workerId !== undefined) {
+      const [index, id] =
+        query.jobId !== undefined
+          ? [this.logsByJob, query.jobId]
+          : [this.logsByWorker, query.workerId!];
+      for (const { value } of index.getRange({ start: [id, start], end: [id, end] })) {
+        yield value;
+      }
+      return;
+    }
+
+    yield* this.logs.getKeys({ start, end });
+  }
+
+  /**
+   * Must be called inside a transaction. Takes the class the entry was
+   * indexed under, since the retention settings may have changed since.
+   */
+  private removeEntry(key: string, entry: LogAction, indexedClass: string): void {
+    const { jobId, workerId } = entry.body;
+    this.logs.removeSync(key);
+    this.logsByRetention.removeSync([indexedClass, key]);
+    this.restoredLogs.removeSync(key);
+    if (typeof jobId === "string") {
+      this.logsByJob.removeSync([jobId, key]);
+    }
+    if (typeof workerId === "string") {
+      this.logsByWorker.removeSync([workerId, key]);
+    }
+  }
+
+  /** Must be called inside a transaction. */
+  private index(key: string, entry: LogAction): void {
+    const { jobId, workerId } = entry.body;
+    this.logsByRetention.putSync([retentionClass(entry), key], key);
+    if (typeof jobId === "string") {
+      this.logsByJob.putSync([jobId, key], key);
+    }
+    if (typeof workerId === "string") {
+      this.logsByWorker.putSync([workerId, key], key);
+    }
+  }
+
+  /**
+   * Moves entries that have outlived their retention period into gzipped
+   * NDJSON archives, one per UTC day, then deletes them from LMDB. Entries
+   * are only deleted once their archive has been written, and restored ones
+   * are deleted without being written again. Each retention class is only
+   * scanned up to its own cutoff. Metrics buckets and totals are kept, so
+   * metrics over older windows are unaffected, except for workers that have
+   * been gone for WORKER_RETENTION_MS.
+   */
+  async compact(
+    options: { now?: number; archiveDir?: string } = {}
+  ): Promise<{ archived: number; files: string[] }> {
+    const now = options.now ?? Date.now();
+    const archiveDir = options.archiveDir ?? CONFIG.LOG_ARCHIVE_DIR;
+
+    this.pruneWorkers(now);
+    await mkdir(archiveDir, { recursive: true });
+
+    let archived = 0;
+    const files = new Set<string>();
+
+    for (const indexedClass of this.retentionClasses()) {
+      const end: [string, string] = [indexedClass, timestampKey(now - classRetention(indexedClass) + 1)];
+      let after: string | undefined;
+
+      for (;;) {
+        const batch = new Map<string, ArchivedLog[]>();
+        let batchSize = 0;
+        let exhausted = true;
+
+        const start: [string, string] = [indexedClass, after ?? ""];
+        for (const { value: key } of this.logsByRetention.getRange({ start, end })) {
+          if (key === after) continue;
+          after = key;
+          const entry = this.logs.get(key);
+          if (!entry || now - entry.timestamp <= retentionFor(entry)) continue;
+
+          const path = archivePath(archiveDir, entry.timestamp);
+          const records = batch.get(path) ?? [];
+          records.push({ key, entry });
+          batch.set(path, records);
+          if (++batchSize >= CONFIG.COMPACTION_BATCH_SIZE) {
+            exhausted = false;
+            break;
+          }
+        }
+
+        for (const [path, records] of batch) {
+          // Restored entries are already in their archive.
+          const unarchived = records.filter(({ key }) => !this.restoredLogs.doesExist(key));
+          if (unarchived.length === 0) continue;
+          await appendArchive(path, unarchived);
+          files.add(path);
+        }
+
+        this.logs.transactionSync(() => {
+          for (const records of batch.values()) {
+            for (const { key, entry } of records) {
+              this.removeEntry(key, entry, indexedClass);
+            }
           }
+        });
+        archived += batchSize;
+
+        if (exhausted) break;
+      }
+    }
+
+    return { archived, files: [...files] };
+  }
+
+  /** The retention classes that have indexed entries. */
+  private retentionClasses(): string[] {
+    const classes: string[] = [];
+    let start: [string, string] = ["", ""];
+    for (;;) {
+      let next: string | undefined;
+      for (const [indexedClass] of this.logsByRetention.getKeys({ start, limit: 1 })) {
+        next = indexedClass;
+      }
+      if (next === undefined) return classes;
+      classes.push(next);
+      // Log keys start with digits, so this sorts after every key in the class.
+      start = [next, "~"];
+    }
+  }
+
+  /**
+   * Loads archived entries back into the log (and its indexes) under their
+   * original keys, e.g. to trace a job from before the retention period.
+   * Entries that are already present are skipped. Metrics are not touched,
+   * since archived entries were never removed from them. Restored entries
+   * are marked so the next compaction deletes them again without appending
+   * them to the archive a second time.
+   */
+  async restoreArchive(path: string): Promise<number> {
+    const records = await readArchive(path);
+    return this.logs.transactionSync(() => {
+      let restored = 0;
+      for (const { key, entry } of records) {
+        if (this.logs.doesExist(key)) continue;
+        this.logs.putSync(key, entry);
+        this.index(key, entry);
+        this.restoredLogs.putSync(key, true);
+        restored++;
+      }
+      return restored;
+    });
+  }
+
+  /**
+   * Forgets workers that haven't reported in for WORKER_RETENTION_MS, both
+   * their heartbeats and their retry totals, so the `worker_id` series don't
+   * pile up as workers come and go.
+   */
+  private pruneWorkers(now: number): void {
+    const cutoff = now - CONFIG.WORKER_RETENTION_MS;
+    this.workerHeartbeats.transactionSync(() => {
+      for (const { key, value } of this.workerHeartbeats.getRange()) {
+        if (value < cutoff) this.workerHeartbeats.removeSync(key);
+      }
+
+      const totals = this.totals.get(TOTALS_KEY);
+      if (!totals) return;
+      const gone = Object.keys(totals.retriesByWorker).filter((id) => !this.workerHeartbeats.doesExist(id));
+      if (gone.length === 0) return;
+      for (const workerId of gone) delete totals.retriesByWorker[workerId];
+      this.totals.putSync(TOTALS_KEY, totals);
+    });
+  }
+
+  recordWorkerHeartbeat(workerId: string, now: number = Date.now()): void {
+    this.workerHeartbeats.putSync(workerId, now);
+  }
+
+  countLiveWorkers(since: number): number {
+    let count = 0;
+    for (const { value } of this.workerHeartbeats.getRange()) {
+      if (value >= since) count++;
+    }
+    return count;
+  }
+
+  /**
+   * Evaluates the alert rules and notifies the sinks of any that started
+   * firing, are still firing past their cooldown, or resolved. Queue rules
+   * are only evaluated when a queue is given; `kinds` limits evaluation to
+   * those rule kinds.
+   */
+  checkAlerts(
+    options: { queue?: Queue; kinds?: readonly AlertRuleKind[]; now?: number } = {}
+  ): Promise<Alert[]> {
+    const now = options.now ?? Date.now();
+    const readings = new Map<string, number>();
+
+    for (const rule of this.alerts.rules) {
+      if (options.kinds && !options.kinds.includes(rule.kind)) continue;
+
+      switch (rule.kind) {
+        case "failure-rate":
+          readings.set(rule.name, this.getMetrics(rule.windowMs).failureRate);
+          break;
+        case "worker-heartbeat":
+          readings.set(rule.name, this.countLiveWorkers(now - rule.windowMs));
           break;
-        case ActionType.JOB_FAILED:
-          failed++;
+        case "queue-depth":
+          if (options.queue) {
+            readings.set(rule.name, options.queue.countAvailable(now - rule.windowMs));
+          }
           break;
-        case ActionType.JOB_CLAIMED:
-          if (entry.body?.jobId) {
-            claimedTimes.set(entry.body.jobId as string, entry.timestamp);
+        case "stuck-processing":
+          if (options.queue) {
+            const cutoff = now - rule.windowMs;
+            const stuck = options.queue
+              .getProcessingJobs()
+              .filter((job) => job.lease !== undefined && job.lease.claimedAt < cutoff);
+            readings.set(rule.name, stuck.length);
           }
           break;
       }
     }
 
-    const total = completed + failed;
-    const failureRate = total === 0 ? 0 : failed / total;
+    return this.alerts.process(readings, now);
+  }
+
+  /** The last reported state of each upstream's circuit breaker. */
+  getCircuitBreakers(): Record<string, CircuitBreakerStatus> {
+    const breakers: Record<string, CircuitBreakerStatus> = {};
+    for (const { key, value } of this.circuitBreakers.getRange()) {
+      breakers[key] = value;
+    }
+    return breakers;
+  }
+
+  getTotals(): MetricsTotals {
+    return this.totals.get(TOTALS_KEY) ?? emptyTotals();
+  }
 
-    let avgProcessingTimeMs: number | null = null;
-    const processingTimes: number[] = [];
-    for (const [jobId, completedAt] of completedTimes) {
-      const claimedAt = claimedTimes.get(jobId);
-      if (claimedAt !== undefined) {
-        processingTimes.push(completedAt - claimedAt);
+  private aggregate(windowStart: number): {
+    counts: Partial<Record<ActionType, number>>;
+    processing: ProcessingHistogram;
+  } {
+    const counts: Partial<Record<ActionType, number>> = {};
+    const processing = emptyHistogram();
+
+    const firstBucket =
+      bucketStart(windowStart) === windowStart
+        ? windowStart
+        : bucketStart(windowStart) + CONFIG.METRICS_BUCKET_MS;
+
+    for (const { value } of this.logs.getRange({
+      start: timestampKey(windowStart),
+      end: timestampKey(firstBucket),
+    })) {
+      counts[value.action] = (counts[value.action] ?? 0) + 1;
+      if (value.durationMs !== undefined) {
+        observe(processing, value.durationMs);
       }
     }
-    if (processingTimes.length > 0) {
-      avgProcessingTimeMs =
-        processingTimes.reduce((sum, t) => sum + t, 0) / processingTimes.length;
+
+    for (const { value } of this.buckets.getRange({ start: timestampKey(firstBucket) })) {
+      for (const [action, n] of Object.entries(value.counts) as Array<[ActionType, number]>) {
+        counts[action] = (counts[action] ?? 0) + n;
+      }
+      mergeHistogram(processing, value.processing);
     }
 
-    return { submitted, completed, failed, failureRate, avgProcessingTimeMs };
+    return { counts, processing };
   }
 
-  private checkFailureRate(): void {
-    const metrics = this.getMetrics();
-    if (metrics.failureRate > CONFIG.FAILURE_RATE_THRESHOLD) {
-      this.alert(
-        `High failure rate detected: ${(metrics.failureRate * 100).toFixed(1)}% (${metrics.failed}/${metrics.completed + metrics.failed} jobs failed)`
-      );
+  /**
+   * Remembers when each job was last claimed so the matching completion can
+   * record how long processing took. Must be called inside a transaction.
+   */
+  private trackProcessingTime(entry: LogAction): void {
+    const jobId = entry.body.jobId;
+    if (typeof jobId !== "string") return;
+
+    switch (entry.action) {
+      case ActionType.JOB_CLAIMED:
+        this.claimTimes.putSync(jobId, entry.timestamp);
+        break;
+      case ActionType.JOB_COMPLETED: {
+        const claimedAt = this.claimTimes.get(jobId);
+        if (claimedAt !== undefined) {
+          entry.durationMs = entry.timestamp - claimedAt;
+        }
+        this.claimTimes.removeSync(jobId);
+        break;
+      }
+      case ActionType.JOB_RETRY:
+      case ActionType.JOB_FAILED:
+      case ActionType.JOB_LEASE_EXPIRED:
+      case ActionType.JOB_RATE_LIMITED:
+        this.claimTimes.removeSync(jobId);
+        break;
     }
   }
 
-  private alert(message: string): void {
-    console.log(`ALERT: ${message}`);
+  /** Keeps the latest circuit-breaker state per upstream. Must be called inside a transaction. */
+  private trackCircuitBreaker(entry: LogAction): void {
+    if (entry.action !== ActionType.CIRCUIT_BREAKER) return;
+
+    const { provider, state } = entry.body;
+    if (typeof provider !== "string" || typeof state !== "string") return;
+    this.circuitBreakers.putSync(provider, { state: state as CircuitState, since: entry.timestamp });
+  }
+
+  /** Updates the minute bucket and running totals. Must be called inside a transaction. */
+  private rollup(entry: LogAction): void {
+    const start = bucketStart(entry.timestamp);
+    const key = timestampKey(start);
+    const bucket = this.buckets.get(key) ?? { start, counts: {}, processing: emptyHistogram() };
+
+    bucket.counts[entry.action] = (bucket.counts[entry.action] ?? 0) + 1;
+    if (entry.durationMs !== undefined) {
+      observe(bucket.processing, entry.durationMs);
+    }
+    this.buckets.putSync(key, bucket);
+
+    const totals = this.totals.get(TOTALS_KEY) ?? emptyTotals();
+    totals.counts[entry.action] = (totals.counts[entry.action] ?? 0) + 1;
+    if (entry.durationMs !== undefined) {
+      observe(totals.processing, entry.durationMs);
+    }
+    const workerId = entry.body.workerId;
+    if (entry.action === ActionType.JOB_RETRY && typeof workerId === "string") {
+      totals.retriesByWorker[workerId] = (totals.retriesByWorker[workerId] ?? 0) + 1;
+    }
+    this.totals.putSync(TOTALS_KEY, totals);
   }
 }
@@ -0,0 +1,70 @@
+import { CONFIG } from "../lib/config.js";
+import { ActionType, type CircuitState, type JobStatus } from "../lib/types.js";
+import { type CircuitBreakerStatus, type MetricsTotals } from "./metrics.js";
+
+const CIRCUIT_STATES: readonly CircuitState[] = ["closed", "open", "half-open"];
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function series(name: string, labels: Record<string, string>, value: number): string {
+  const pairs = Object.entries(labels).map(([k, v]) => `${k}="${escapeLabel(v)}"`);
+  return pairs.length === 0 ? `${name} ${value}` : `${name}{${pairs.join(",")}} ${value}`;
+}
+
+/**
+ * Renders the observer totals and current queue state in the Prometheus
+ * text exposition format (version 0.0.4).
+ */
+export function renderPrometheus(
+  totals: MetricsTotals,
+  statusCounts: Record<JobStatus, number>,
+  oldestQueuedAgeMs: number,
+  circuitBreakers: Record<string, CircuitBreakerStatus> = {}
+): string {
+  const lines: string[] = [];
+
+  lines.push("# HELP birds_actions_total Observer log entries by action.");
+  lines.push("# TYPE birds_actions_total counter");
+  for (const action of Object.values(ActionType)) {
+    lines.push(series("birds_actions_total", { action }, totals.counts[action] ?? 0));
+  }
+
+  lines.push("# HELP birds_jobs Jobs in the queue database by status.");
+  lines.push("# TYPE birds_jobs gauge");
+  for (const [status, count] of Object.entries(statusCounts)) {
+    lines.push(series("birds_jobs", { status }, count));
+  }
+
+  lines.push("# HELP birds_oldest_queued_job_age_seconds How long the longest waiting available job has been waiting.");
+  lines.push("# TYPE birds_oldest_queued_job_age_seconds gauge");
+  lines.push(series("birds_oldest_queued_job_age_seconds", {}, oldestQueuedAgeMs / 1000));
+
+  lines.push("# HELP birds_job_processing_duration_seconds Time from claim to completion.");
+  lines.push("# TYPE birds_job_processing_duration_seconds histogram");
+  let cumulative = 0;
+  CONFIG.PROCESSING_TIME_BUCKETS_MS.forEach((bound, i) => {
+    cumulative += totals.processing.bins[i] ?? 0;
+    lines.push(series("birds_job_processing_duration_seconds_bucket", { le: String(bound / 1000) }, cumulative));
+  });
+  lines.push(series("birds_job_processing_duration_seconds_bucket", { le: "+Inf" }, totals.processing.count));
+  lines.push(series("birds_job_processing_duration_seconds_sum", {}, totals.processing.sumMs / 1000));
+  lines.push(series("birds_job_processing_duration_seconds_count", {}, totals.processing.count));
+
+  lines.push("# HELP birds_job_retries_total Job retries by the worker that scheduled them.");
+  lines.push("# TYPE birds_job_retries_total counter");
+  for (const [workerId, count] of Object.entries(totals.retriesByWorker)) {
+    lines.push(series("birds_job_retries_total", { worker_id: workerId }, count));
+  }
+
+  lines.push("# HELP birds_circuit_breaker_state Upstream circuit breaker state (1 for the current state).");
+  lines.push("# TYPE birds_circuit_breaker_state gauge");
+  for (const [provider, { state }] of Object.entries(circuitBreakers)) {
+    for (const candidate of CIRCUIT_STATES) {
+      lines.push(series("birds_circuit_breaker_state", { provider, state: candidate }, candidate === state ? 1 : 0));
+    }
+  }
+
+  return `${lines.join("\n")}\n`;
+}
@@ -0,0 +1,17 @@
+import { CONFIG } from "../lib/config.js";
+import { closeAll } from "../lib/db.js";
+import { Observer } from "./observer.js";
+
+// Usage: npm run restore-logs -- data/archive/observer-2025-01-31.ndjson.gz [...more archives]
+const paths = process.argv.slice(2);
+if (paths.length === 0) {
+  console.error("Usage: npm run restore-logs -- <archive.ndjson.gz>...");
+  process.exit(1);
+}
+
+const observer = new Observer(CONFIG.OBSERVER_DB_PATH);
+for (const path of paths) {
+  const restored = await observer.restoreArchive(path);
+  console.log(`Restored ${restored} entries from ${path}`);
+}
+closeAll();
@@ -0,0 +1,80 @@
+import { appendFile } from "node:fs/promises";
+import { CONFIG } from "../lib/config.js";
+import { type Alert, type AlertSink } from "./alerts.js";
+
+/** Prints `ALERT: {message}` (or `RESOLVED: {message}`) to stdout. */
+export class ConsoleSink implements AlertSink {
+  readonly name = "console";
+
+  async send(alert: Alert): Promise<void> {
+    console.log(`${alert.status === "firing" ? "ALERT" : "RESOLVED"}: ${alert.message}`);
+  }
+}
+
+/** Writes each alert to stderr as a single line of JSON. */
+export class StderrSink implements AlertSink {
+  readonly name = "stderr";
+
+  async send(alert: Alert): Promise<void> {
+    process.stderr.write(`${JSON.stringify(alert)}\n`);
+  }
+}
+
+/** Appends each alert to a file as NDJSON. */
+export class FileSink implements AlertSink {
+  readonly name = "file";
+
+  constructor(private path: string) {}
+
+  async send(alert: Alert): Promise<void> {
+    await appendFile(this.path, `${JSON.stringify(alert)}\n`);
+  }
+}
+
+/**
+ * POSTs each alert as JSON to a webhook URL, giving up after `timeoutMs` so
+ * an unresponsive endpoint can't hold up alert checks.
+ */
+export class WebhookSink implements AlertSink {
+  readonly name = "webhook";
+
+  constructor(
+    private url: string,
+    private timeoutMs: number = CONFIG.ALERT_WEBHOOK_TIMEOUT_MS
+  ) {}
+
+  async send(alert: Alert): Promise<void> {
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(alert),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+    if (!response.ok) {
+      throw new Error(`Webhook returned ${response.status}`);
+    }
+  }
+}
+
+export function createSinks(
+  names: readonly string[],
+  options: { filePath: string; webhookUrl?: string | undefined }
+): AlertSink[] {
+  return names.map((name) => {
+    switch (name) {
+      case "console":
+        return new ConsoleSink();
+      case "stderr":
+        return new StderrSink();
+      case "file":
+        return new FileSink(options.filePath);
+      case "webhook":
+        if (!options.webhookUrl) {
+          throw new Error("The webhook alert sink requires ALERT_WEBHOOK_URL");
+        }
+        return new WebhookSink(options.webhookUrl);
+      default:
+        throw new Error(`Unknown alert sink "${name}"`);
+    }
+  });
+}
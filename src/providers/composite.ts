@@ -0,0 +1,38 @@
+import { type ResearchJob } from "../lib/types.js";
+import { type ResearchProvider } from "./provider.js";
+import { PermanentError, RateLimitedError } from "./errors.js";
+
+/**
+ * Tries each provider in order and returns the first successful result,
+ * tagged with the name of the provider that produced it. Fails only when
+ * every provider has failed: as rate limited if any of them was, as
+ * permanent if all of them were, and otherwise as a plain (transient) error.
+ */
+export class CompositeProvider implements ResearchProvider {
+  readonly name = "composite";
+
+  constructor(private providers: ResearchProvider[]) {}
+
+  async research(job: ResearchJob): Promise<Record<string, unknown>> {
+    const errors: string[] = [];
+    let retryAt: number | undefined;
+    let allPermanent = true;
+
+    for (const provider of this.providers) {
+      try {
+        const body = await provider.research(job);
+        return { ...body, provider: provider.name };
+      } catch (err) {
+        errors.push(`${provider.name}: ${err instanceof Error ? err.message : String(err)}`);
+        if (!(err instanceof PermanentError)) allPermanent = false;
+        if (err instanceof RateLimitedError) {
+          retryAt = retryAt === undefined ? err.retryAt : Math.min(retryAt, err.retryAt);
+        }
+      }
+    }
+
+    const message = `All research providers failed (${errors.join("; ")})`;
+    if (retryAt !== undefined) throw new RateLimitedError(message, retryAt);
+    throw allPermanent ? new PermanentError(message) : new Error(message);
+  }
+}
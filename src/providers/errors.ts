@@ -0,0 +1,74 @@
+import { CONFIG } from "../lib/config.js";
+import { type ResearchErrorKind } from "../lib/types.js";
+
+/**
+ * The research can never succeed as asked, e.g. the upstream has no page for
+ * the name or rejected the request. Retrying would only repeat the answer.
+ */
+export class PermanentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PermanentError";
+  }
+}
+
+/**
+ * The provider's research doesn't match the research schema. Asking again
+ * would give the same answer, so it is permanent, and nothing is stored.
+ */
+export class InvalidResearchError extends PermanentError {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidResearchError";
+  }
+}
+
+/** The upstream failed in a way that is worth retrying after a backoff. */
+export class TransientError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TransientError";
+  }
+}
+
+/**
+ * The upstream refused the request because we are sending too many. The job
+ * should be tried again at `retryAt`.
+ */
+export class RateLimitedError extends Error {
+  constructor(
+    message: string,
+    readonly retryAt: number
+  ) {
+    super(message);
+    this.name = "RateLimitedError";
+  }
+}
+
+/**
+ * Which retry policy a provider error falls under. Anything that isn't one of
+ * the typed errors above (network failures, malformed responses) is treated
+ * as transient.
+ */
+export function classifyError(err: unknown): ResearchErrorKind {
+  if (err instanceof RateLimitedError) return "rate-limited";
+  if (err instanceof PermanentError) return "permanent";
+  return "transient";
+}
+
+/**
+ * Reads a Retry-After header, given either as delay-seconds or an HTTP date,
+ * as an absolute time. Falls back to the rate-limited retry policy's base
+ * delay from now.
+ */
+export function retryAtFromHeader(value: string | null, now: number = Date.now()): number {
+  if (value !== null) {
+    const seconds = Number(value);
+    if (value.trim() !== "" && Number.isFinite(seconds) && seconds >= 0) {
+      return now + seconds * 1000;
+    }
+    const date = Date.parse(value);
+    if (!Number.isNaN(date)) return Math.max(now, date);
+  }
+  return now + CONFIG.RETRY_POLICIES["rate-limited"].baseDelayMs;
+}
@@ -0,0 +1,55 @@
+import { readdir, readFile } from "node:fs/promises";
+import { extname, join } from "node:path";
+import { type ResearchJob, toJobId } from "../lib/types.js";
+import { type ResearchProvider } from "./provider.js";
+import { PermanentError } from "./errors.js";
+
+/**
+ * Serves research from a local directory instead of the network. Every
+ * `.json` file holds one record or an array of records, and every `.ndjson`
+ * file holds one record per line. A record is `{ name, ...body }`; the body
+ * (everything except `name`) is returned for jobs whose ID matches the name.
+ */
+export class FixtureProvider implements ResearchProvider {
+  readonly name = "fixture";
+  private records: Promise<Map<string, Record<string, unknown>>> | undefined;
+
+  constructor(private dir: string) {}
+
+  async research(job: ResearchJob): Promise<Record<string, unknown>> {
+    this.records ??= this.load();
+    const body = (await this.records).get(job.id);
+    if (!body) {
+      throw new PermanentError(`No fixture found for "${job.name}"`);
+    }
+    return body;
+  }
+
+  private async load(): Promise<Map<string, Record<string, unknown>>> {
+    const records = new Map<string, Record<string, unknown>>();
+
+    for (const file of (await readdir(this.dir)).sort()) {
+      const ext = extname(file);
+      if (ext !== ".json" && ext !== ".ndjson") continue;
+
+      const content = await readFile(join(this.dir, file), "utf8");
+      const parsed: unknown[] =
+        ext === ".json"
+          ? [JSON.parse(content)].flat()
+          : content
+              .split("\n")
+              .filter((line) => line.trim() !== "")
+              .map((line) => JSON.parse(line));
+
+      for (const record of parsed) {
+        const { name, ...body } = record as { name?: unknown } & Record<string, unknown>;
+        if (typeof name !== "string") {
+          throw new Error(`Fixture record in ${file} is missing a name`);
+        }
+        records.set(toJobId(name), body);
+      }
+    }
+
+    return records;
+  }
+}
@@ -0,0 +1,6 @@
+import { type ResearchJob } from "../lib/types.js";
+
+export interface ResearchProvider {
+  readonly name: string;
+  research(job: ResearchJob): Promise<Record<string, unknown>>;
+}
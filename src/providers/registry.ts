@@ -0,0 +1,37 @@
+import { CONFIG } from "../lib/config.js";
+import { type ResearchProvider } from "./provider.js";
+import { WikipediaProvider } from "./wikipedia.js";
+import { FixtureProvider } from "./fixture.js";
+import { CompositeProvider } from "./composite.js";
+
+const factories = new Map<string, () => ResearchProvider>([
+  ["wikipedia", () => new WikipediaProvider()],
+  ["fixture", () => new FixtureProvider(CONFIG.FIXTURE_DIR)],
+]);
+
+export function registerProvider(name: string, factory: () => ResearchProvider): void {
+  factories.set(name, factory);
+}
+
+/**
+ * Builds the provider for a configured list of names. A single name gives
+ * that provider directly; several give a composite that falls back through
+ * them in order.
+ */
+export function createProvider(names: readonly string[]): ResearchProvider {
+  const providers = names.map((name) => {
+    const factory = factories.get(name);
+    if (!factory) {
+      throw new Error(`Unknown research provider "${name}"`);
+    }
+    return factory();
+  });
+
+  if (providers.length === 0) {
+    throw new Error("At least one research provider must be configured");
+  }
+  if (providers.length === 1) {
+    return providers[0]!;
+  }
+  return new CompositeProvider(providers);
+}
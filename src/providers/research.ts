@@ -0,0 +1,40 @@
+import { type ObjectSchema, validate } from "../api/schema.js";
+import { type BirdResearch } from "../lib/types.js";
+import { InvalidResearchError } from "./errors.js";
+
+/** The version of RESEARCH_SCHEMA, stored in every research body. */
+export const RESEARCH_SCHEMA_VERSION = 1;
+
+/** The shape every provider's research must have to be stored. */
+export const RESEARCH_SCHEMA: ObjectSchema = {
+  type: "object",
+  properties: {
+    schemaVersion: { type: "integer", minimum: RESEARCH_SCHEMA_VERSION, maximum: RESEARCH_SCHEMA_VERSION },
+    canonicalTitle: { type: "string", minLength: 1 },
+    scientificName: {
+      type: "string",
+      pattern: "^[A-Z][a-z]+( [a-z]+){1,2}$",
+      description: "a binomial or trinomial name",
+    },
+    summary: { type: "string", minLength: 1 },
+    sourceUrl: { type: "string", pattern: "^https?://\\S+$", description: "an http(s) URL" },
+    revisionId: { type: "integer", minimum: 1 },
+    fetchedAt: { type: "integer", minimum: 0, description: "a timestamp in ms since the epoch" },
+  },
+  required: ["schemaVersion", "canonicalTitle", "summary", "sourceUrl", "revisionId", "fetchedAt"],
+};
+
+/**
+ * Checks a provider's research against RESEARCH_SCHEMA, throwing an
+ * InvalidResearchError that lists every problem when it doesn't match.
+ */
+export function validateResearch(body: Record<string, unknown>): BirdResearch {
+  const result = validate(RESEARCH_SCHEMA, body, "research");
+  if ("issues" in result) {
+    const problems = result.issues.map((issue) => `${issue.path} ${issue.message}`).join("; ");
+    throw new InvalidResearchError(
+      `Research doesn't match schema version ${RESEARCH_SCHEMA_VERSION}: ${problems}`
+    );
+  }
+  return result.value as BirdResearch;
+}
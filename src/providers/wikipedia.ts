@@ -0,0 +1,79 @@
+import { type ResearchJob } from "../lib/types.js";
+import { type ResearchProvider } from "./provider.js";
+import { PermanentError, RateLimitedError, TransientError, retryAtFromHeader } from "./errors.js";
+import { RESEARCH_SCHEMA_VERSION } from "./research.js";
+
+/** The parts of an `action=query` response (formatversion=2) the provider reads. */
+export interface WikipediaQueryResponse {
+  query?: {
+    pages?: Array<{
+      title?: string;
+      extract?: string;
+      missing?: boolean;
+      lastrevid?: number;
+      canonicalurl?: string;
+      fullurl?: string;
+    }>;
+  };
+}
+
+// A binomial or trinomial name making up a whole parenthetical, or its last
+// `;` separated part after a pronunciation, as in "The osprey (/ˈɒspri/;
+// Pandion haliaetus) is ...".
+const SCIENTIFIC_NAME = /\((?:[^()]*;\s*)?([A-Z][a-z]+(?: [a-z]+){1,2})\)/;
+
+/** The scientific name given in parentheses in a page's introduction, if any. */
+export function scientificNameOf(extract: string): string | undefined {
+  const firstParagraph = extract.split("\n")[0] ?? "";
+  return SCIENTIFIC_NAME.exec(firstParagraph)?.[1];
+}
+
+/**
+ * Takes the research fields out of a query response. The result still has
+ * to be checked against the research schema, which catches anything missing.
+ */
+export function extractResearch(
+  data: WikipediaQueryResponse,
+  name: string,
+  fetchedAt: number = Date.now()
+): Record<string, unknown> {
+  const page = data.query?.pages?.[0];
+  if (!page || page.missing || !page.extract) {
+    throw new PermanentError(`No Wikipedia page found for "${name}"`);
+  }
+
+  const scientificName = scientificNameOf(page.extract);
+  return {
+    schemaVersion: RESEARCH_SCHEMA_VERSION,
+    // After redirects the page title is the canonical name for the bird.
+    canonicalTitle: page.title,
+    ...(scientificName !== undefined && { scientificName }),
+    summary: page.extract,
+    sourceUrl: page.canonicalurl ?? page.fullurl,
+    revisionId: page.lastrevid,
+    fetchedAt,
+  };
+}
+
+export class WikipediaProvider implements ResearchProvider {
+  readonly name = "wikipedia";
+
+  async research(job: ResearchJob): Promise<Record<string, unknown>> {
+    const url = `https://en.wikipedia.org/w/api.php?action=query&prop=extracts|info&exintro=1&explaintext=1&inprop=url&redirects=1&titles=${encodeURIComponent(job.name)}&format=json&formatversion=2`;
+    const response = await fetch(url);
+    if (response.status === 429) {
+      throw new RateLimitedError(
+        "Wikipedia API returned 429",
+        retryAtFromHeader(response.headers.get("Retry-After"))
+      );
+    }
+    // Other client errors mean the request itself is bad, except a timeout.
+    if (!response.ok) {
+      const message = `Wikipedia API returned ${response.status}`;
+      throw response.status >= 500 || response.status === 408
+        ? new TransientError(message)
+        : new PermanentError(message);
+    }
+    return extractResearch((await response.json()) as WikipediaQueryResponse, job.name);
+  }
+}
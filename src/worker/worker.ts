@@ -1,97 +1,395 @@
 import crypto from "node:crypto";
 import { Queue } from "../lib/queue.js";
+import { closeAll } from "../lib/db.js";
 import { Observer } from "../observer/observer.js";
-import { ActionType, type ResearchJob } from "../lib/types.js";
+import { createSinks } from "../observer/sinks.js";
+import {
+  ActionType,
+  type BirdResearch,
+  type ResearchErrorKind,
+  type ResearchJob,
+  type RetryPolicy,
+} from "../lib/types.js";
 import { CONFIG } from "../lib/config.js";
+import { CircuitBreaker, type BreakerTransition } from "../lib/breaker.js";
+import { RateLimiter } from "../lib/ratelimit.js";
+import { type ResearchProvider } from "../providers/provider.js";
+import { classifyError, RateLimitedError } from "../providers/errors.js";
+import { createProvider } from "../providers/registry.js";
+import { validateResearch } from "../providers/research.js";
 
 export function generateWorkerId(): string {
   return `w-${crypto.randomBytes(2).toString("hex")}`;
 }
 
-export function computeBackoff(retryCount: number): number {
-  const delay = Math.pow(2, retryCount + 1) * CONFIG.BASE_DELAY_MS;
-  const jitter = Math.random() * CONFIG.BASE_DELAY_MS;
+export function computeBackoff(
+  retryCount: number,
+  policy: RetryPolicy = CONFIG.RETRY_POLICIES.transient
+): number {
+  const delay = Math.pow(2, retryCount + 1) * policy.baseDelayMs;
+  const jitter = Math.random() * policy.baseDelayMs;
   return Date.now() + delay + jitter;
 }
 
-export async function processJob(job: ResearchJob): Promise<Record<string, unknown>> {
-  const url = `https://en.wikipedia.org/w/api.php?action=query&prop=extracts&exintro=1&explaintext=1&redirects=1&titles=${encodeURIComponent(job.name)}&format=json&formatversion=2`;
-  const response = await fetch(url);
-  if (!response.ok) {
-    throw new Error(`Wikipedia API returned ${response.status}`);
-  }
-  const data = (await response.json()) as {
-    query: { pages: Array<{ extract?: string; missing?: boolean }> };
-  };
-  const page = data.query.pages[0];
-  if (!page || page.missing || !page.extract) {
-    throw new Error(`No Wikipedia page found for "${job.name}"`);
-  }
-  return { research: page.extract };
+/**
+ * How many earlier attempts at a job failed with this kind of error, to hold
+ * against its retry policy. Transient failures, including expired leases,
+ * are what the retryCount counts.
+ */
+function previousFailures(job: ResearchJob, kind: ResearchErrorKind): number {
+  if (kind === "transient") return job.retryCount;
+  return (job.errorHistory ?? []).filter((error) => error.kind === kind).length;
 }
 
-export async function runWorker(workerId: string, queue: Queue, observer: Observer): Promise<void> {
-  observer.log(ActionType.WORKER_START, "log", { workerId });
+/**
+ * Researches a job and checks the result against the research schema, so
+ * research that doesn't match fails the attempt instead of being stored.
+ * Returns it with the name of the provider that produced it.
+ */
+export async function processJob(
+  job: ResearchJob,
+  provider: ResearchProvider
+): Promise<{ research: BirdResearch; source: string }> {
+  // A composite provider records which of its providers answered.
+  const { provider: answeredBy, ...body } = await provider.research(job);
+  return {
+    research: validateResearch(body),
+    source: typeof answeredBy === "string" ? answeredBy : provider.name,
+  };
+}
 
-  const poll = async (): Promise<void> => {
-    const job = queue.claimJob();
+export function reapExpiredLeases(workerId: string, queue: Queue, observer: Observer): void {
+  for (const { job, previousWorkerId } of queue.reapExpiredLeases()) {
+    observer.log(ActionType.JOB_LEASE_EXPIRED, "warning", {
+      jobId: job.id,
+      name: job.name,
+      workerId,
+      previousWorkerId,
+      retryCount: job.retryCount,
+      status: job.status,
+    });
 
-    if (job) {
-      observer.log(ActionType.JOB_CLAIMED, "log", {
+    if (job.status === "failed") {
+      observer.log(ActionType.JOB_FAILED, "error", {
         jobId: job.id,
         name: job.name,
-        workerId,
+        workerId: previousWorkerId,
+        retryCount: job.retryCount,
+        errorKind: "transient",
+        reason: job.failureReason,
+        error: "Lease expired",
       });
+    }
+  }
+}
 
-      try {
-        const body = await processJob(job);
-        queue.completeJob(job.id, body);
+/** Queues refreshes of stale research (see Queue.scheduleRefreshes). */
+export function scheduleRefreshes(
+  workerId: string,
+  queue: Queue,
+  observer: Observer,
+  now: number = Date.now()
+): void {
+  for (const { job, fetchedAt } of queue.scheduleRefreshes(now)) {
+    const schedule = queue.getRefresh(job.id)?.schedule;
+    observer.log(ActionType.JOB_REFRESH_SCHEDULED, "log", {
+      jobId: job.id,
+      name: job.name,
+      workerId,
+      fetchedAt,
+      availableAt: job.availableForProcessingAt,
+      ...(schedule !== undefined && { schedule }),
+    });
+  }
+}
+
+/**
+ * How long an idle worker can sleep before it has to look at the queue
+ * again: until the next future-dated job becomes available or the next lease
+ * expires, and never longer than MAX_IDLE_MS so heartbeats and record expiry
+ * keep running. New work wakes it early.
+ */
+export function idleDelay(queue: Queue, now: number = Date.now()): number {
+  const wakeAt = Math.min(
+    queue.getNextAvailableAt() ?? Infinity,
+    queue.getNextLeaseExpiry() ?? Infinity,
+    now + CONFIG.MAX_IDLE_MS
+  );
+  return Math.max(0, wakeAt - now);
+}
+
+/**
+ * Shared protections for the upstream behind the research provider. Both
+ * are keyed by the provider's name.
+ */
+export interface UpstreamGuards {
+  limiter?: RateLimiter;
+  breaker?: CircuitBreaker;
+}
+
+export interface WorkerController {
+  /** Resolves once the first poll, including any job it claimed, is done. */
+  firstPoll: Promise<void>;
+  /** Stops claiming new jobs. A job already in flight runs to completion. */
+  stop(): void;
+  /**
+   * Stops claiming and waits up to `timeoutMs` for the in-flight job. A job
+   * still running after that is put back in the queue. Logs worker-stop and
+   * resolves once the worker is done with the queue.
+   */
+  drain(timeoutMs?: number): Promise<void>;
+}
+
+export function runWorker(
+  workerId: string,
+  queue: Queue,
+  observer: Observer,
+  provider: ResearchProvider = createProvider(CONFIG.RESEARCH_PROVIDERS),
+  upstream: UpstreamGuards = {}
+): WorkerController {
+  observer.log(ActionType.WORKER_START, "log", { workerId });
+
+  let lastHeartbeatAt = 0;
+  let lastRefreshCheckAt = 0;
+  let stopping = false;
+  let current: { job: ResearchJob; done: Promise<void> } | undefined;
+  let nextPoll: NodeJS.Timeout | undefined;
+  let drained: Promise<void> | undefined;
+  const idle = new AbortController();
+
+  const logBreaker = (transition: BreakerTransition): void => {
+    observer.log(ActionType.CIRCUIT_BREAKER, transition.to === "open" ? "warning" : "log", {
+      provider: provider.name,
+      state: transition.to,
+      previousState: transition.from,
+      failureRate: transition.failureRate,
+      workerId,
+    });
+  };
+
+  const recordHeartbeat = (now: number): void => {
+    observer.recordWorkerHeartbeat(workerId, now);
+    lastHeartbeatAt = now;
+  };
+
+  const recordOutcome = (success: boolean): void => {
+    const transition = upstream.breaker?.record(provider.name, success);
+    if (transition) logBreaker(transition);
+  };
+
+  /**
+   * When the upstream can't take a request right now (the breaker is open or
+   * the rate limit is used up), returns when to try again. A token is only
+   * taken when there is a job to claim.
+   */
+  const upstreamBlockedUntil = (now: number): number | undefined => {
+    if (upstream.breaker) {
+      const { allowed, retryAt, transition } = upstream.breaker.check(provider.name, now);
+      if (transition) logBreaker(transition);
+      if (!allowed) return retryAt;
+    }
+    if (upstream.limiter && queue.getOldestAvailableAt(now) !== undefined) {
+      const result = upstream.limiter.tryAcquire(provider.name, now);
+      if (!result.acquired) return result.retryAt;
+    }
+    return undefined;
+  };
+
+  const handleJob = async (job: ResearchJob): Promise<void> => {
+    observer.log(ActionType.JOB_CLAIMED, "log", {
+      jobId: job.id,
+      name: job.name,
+      workerId,
+    });
+
+    // Keep the lease alive while the fetch is in flight. If the heartbeat
+    // finds the lease gone, the job was reaped (or released on shutdown) and
+    // the queue updates below will be rejected. The worker itself reports in
+    // too, since a slow job keeps it from polling.
+    const heartbeat = setInterval(() => {
+      queue.heartbeatJob(job.id, workerId);
+      recordHeartbeat(Date.now());
+    }, CONFIG.HEARTBEAT_INTERVAL_MS);
+
+    try {
+      const { research, source } = await processJob(job, provider);
+      const { canonicalTitle } = research;
+      recordOutcome(true);
+      if (queue.completeJob(job.id, { ...research }, workerId, source, canonicalTitle)) {
         observer.log(ActionType.JOB_COMPLETED, "log", {
           jobId: job.id,
           name: job.name,
           workerId,
+          canonicalTitle,
         });
-      } catch (err) {
-        const error = err instanceof Error ? err.message : String(err);
+      }
+    } catch (err) {
+      const kind = classifyError(err);
+      const error = { kind, message: err instanceof Error ? err.message : String(err) };
+      const policy = CONFIG.RETRY_POLICIES[kind];
 
-        if (job.retryCount >= CONFIG.MAX_RETRIES) {
-          queue.failJob(job.id);
+      // Being told to slow down holds every worker back. Otherwise only
+      // transient errors count against the upstream: a permanent error is
+      // the upstream answering properly that there is nothing to find.
+      if (err instanceof RateLimitedError) {
+        upstream.limiter?.pauseUntil(provider.name, err.retryAt);
+      } else {
+        recordOutcome(kind === "permanent");
+      }
+
+      if (previousFailures(job, kind) >= policy.maxRetries) {
+        const failed = queue.failJob(job.id, workerId, error);
+        if (failed) {
           observer.log(ActionType.JOB_FAILED, "error", {
             jobId: job.id,
             name: job.name,
             workerId,
             retryCount: job.retryCount,
-            error,
+            errorKind: kind,
+            reason: failed.failureReason,
+            error: error.message,
           });
-        } else {
-          const nextAvailableAt = computeBackoff(job.retryCount);
-          queue.retryJob(job.id, nextAvailableAt);
+        }
+      } else if (err instanceof RateLimitedError) {
+        // Put the job back for when the upstream will take it, without
+        // using up one of its transient retries.
+        if (queue.releaseJob(job.id, workerId, err.retryAt, error)) {
+          observer.log(ActionType.JOB_RATE_LIMITED, "warning", {
+            jobId: job.id,
+            name: job.name,
+            workerId,
+            retryAt: err.retryAt,
+            error: error.message,
+          });
+        }
+      } else {
+        const nextAvailableAt = computeBackoff(job.retryCount, policy);
+        if (queue.retryJob(job.id, nextAvailableAt, workerId, error)) {
           observer.log(ActionType.JOB_RETRY, "warning", {
             jobId: job.id,
             name: job.name,
             workerId,
             retryCount: job.retryCount + 1,
             nextAvailableAt,
-            error,
+            errorKind: kind,
+            error: error.message,
           });
         }
       }
+    } finally {
+      clearInterval(heartbeat);
+    }
+  };
+
+  const poll = async (): Promise<void> => {
+    if (stopping) return;
+
+    const now = Date.now();
+    if (now - lastHeartbeatAt >= CONFIG.HEARTBEAT_INTERVAL_MS) recordHeartbeat(now);
+
+    reapExpiredLeases(workerId, queue, observer);
+    queue.expireTerminalJobs();
+    if (now - lastRefreshCheckAt >= CONFIG.REFRESH_CHECK_INTERVAL_MS) {
+      scheduleRefreshes(workerId, queue, observer, now);
+      lastRefreshCheckAt = now;
+    }
+
+    const blockedUntil = upstreamBlockedUntil(now);
+    if (blockedUntil !== undefined) {
+      const delay = Math.min(CONFIG.MAX_IDLE_MS, Math.max(0, blockedUntil - now));
+      void queue.waitForWork(delay, idle.signal).then(() => poll());
+      return;
+    }
+
+    const job = queue.claimJob(workerId);
+
+    if (job) {
+      current = { job, done: handleJob(job) };
+      await current.done;
+      current = undefined;
+    }
+
+    if (stopping) return;
+
+    if (job) {
+      // More jobs may be waiting, so look again straight away.
+      nextPoll = setTimeout(() => void poll(), 0);
+    } else {
+      void queue.waitForWork(idleDelay(queue), idle.signal).then(() => poll());
+    }
+  };
+
+  const stop = (): void => {
+    stopping = true;
+    clearTimeout(nextPoll);
+    idle.abort();
+  };
+
+  const drain = async (timeoutMs: number): Promise<void> => {
+    stop();
+
+    let released: ResearchJob | undefined;
+    if (current) {
+      const { job, done } = current;
+      let timer: NodeJS.Timeout | undefined;
+      const finished = await Promise.race([
+        done.then(() => true),
+        new Promise<boolean>((resolve) => {
+          timer = setTimeout(() => resolve(false), timeoutMs);
+        }),
+      ]);
+      clearTimeout(timer);
+
+      if (!finished) released = queue.releaseJob(job.id, workerId);
     }
 
-    setTimeout(() => void poll(), CONFIG.POLL_INTERVAL_MS);
+    observer.log(ActionType.WORKER_STOP, "log", {
+      workerId,
+      ...(released && { jobId: released.id, name: released.name }),
+    });
   };
 
-  await poll();
+  return {
+    firstPoll: poll(),
+    stop,
+    drain: (timeoutMs = CONFIG.DRAIN_TIMEOUT_MS) => (drained ??= drain(timeoutMs)),
+  };
 }
 
 if (process.env.NODE_ENV !== "test") {
   const concurrency = parseInt(process.env.WORKER_CONCURRENCY ?? "1", 10);
   const queue = new Queue(CONFIG.QUEUE_DB_PATH);
-  const observer = new Observer(CONFIG.OBSERVER_DB_PATH);
+  const observer = new Observer(CONFIG.OBSERVER_DB_PATH, {
+    sinks: createSinks(process.env.ALERT_SINKS?.split(",") ?? CONFIG.ALERT_SINKS, {
+      filePath: CONFIG.ALERT_FILE_PATH,
+      webhookUrl: process.env.ALERT_WEBHOOK_URL,
+    }),
+  });
+  const provider = createProvider(
+    process.env.RESEARCH_PROVIDERS?.split(",") ?? CONFIG.RESEARCH_PROVIDERS
+  );
+
+  const backfilled = queue.backfillRefreshSchedule();
+  if (backfilled > 0) console.log(`Scheduled refreshes for ${backfilled} earlier result(s)`);
 
+  const upstream: UpstreamGuards = {
+    limiter: new RateLimiter(CONFIG.QUEUE_DB_PATH),
+    breaker: new CircuitBreaker(CONFIG.QUEUE_DB_PATH),
+  };
+
+  const workers: WorkerController[] = [];
   for (let i = 0; i < concurrency; i++) {
     const workerId = generateWorkerId();
     console.log(`Starting worker ${workerId} (${i + 1}/${concurrency})`);
-    void runWorker(workerId, queue, observer);
+    workers.push(runWorker(workerId, queue, observer, provider, upstream));
   }
+
+  const shutdown = async (signal: NodeJS.Signals): Promise<void> => {
+    console.log(`Received ${signal}, draining ${workers.length} worker(s)`);
+    await Promise.all(workers.map((worker) => worker.drain()));
+    closeAll();
+    process.exit(0);
+  };
+  process.once("SIGTERM", (signal) => void shutdown(signal));
+  process.once("SIGINT", (signal) => void shutdown(signal));
 }
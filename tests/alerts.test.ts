@@ -0,0 +1,227 @@
+import { describe, it, expect, beforeEach, afterAll, vi } from "vitest";
+import { mkdtempSync, readFileSync } from "node:fs";
+import { createServer } from "node:http";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { Queue } from "../src/lib/queue.js";
+import { Observer } from "../src/observer/observer.js";
+import { ActionType } from "../src/lib/types.js";
+import { closeAll } from "../src/lib/db.js";
+import { type Alert, type AlertRule, type AlertSink } from "../src/observer/alerts.js";
+import { FileSink, StderrSink, WebhookSink, createSinks } from "../src/observer/sinks.js";
+
+class RecordingSink implements AlertSink {
+  readonly name = "recording";
+  alerts: Alert[] = [];
+
+  async send(alert: Alert): Promise<void> {
+    this.alerts.push(alert);
+  }
+}
+
+const sampleAlert: Alert = {
+  rule: "high-failure-rate",
+  kind: "failure-rate",
+  status: "firing",
+  value: 0.75,
+  threshold: 0.5,
+  timestamp: 1700000000000,
+  message: "High failure rate detected",
+};
+
+let queue: Queue;
+let sink: RecordingSink;
+
+function makeObserver(rules: AlertRule[]): Observer {
+  return new Observer(mkdtempSync(join(tmpdir(), "alerts-observer-test-")), {
+    rules,
+    sinks: [sink],
+  });
+}
+
+beforeEach(() => {
+  queue = new Queue(mkdtempSync(join(tmpdir(), "alerts-queue-test-")));
+  sink = new RecordingSink();
+});
+
+afterAll(() => {
+  closeAll();
+});
+
+describe("alerts", () => {
+  describe("rules", () => {
+    it("fires once per cooldown and resolves when the condition clears", async () => {
+      const observer = makeObserver([
+        { name: "backlog", kind: "queue-depth", threshold: 1, windowMs: 0, cooldownMs: 60000 },
+      ]);
+      const now = Date.now();
+
+      queue.submitJob({ name: "Brown Pelican" });
+      queue.submitJob({ name: "Bald Eagle" });
+
+      await observer.checkAlerts({ queue, now });
+      await observer.checkAlerts({ queue, now: now + 1000 });
+      expect(sink.alerts.map(a => a.status)).toEqual(["firing"]);
+      expect(sink.alerts[0]!.rule).toBe("backlog");
+      expect(sink.alerts[0]!.value).toBe(2);
+
+      await observer.checkAlerts({ queue, now: now + 61000 });
+      expect(sink.alerts.map(a => a.status)).toEqual(["firing", "firing"]);
+
+      queue.claimJob();
+      await observer.checkAlerts({ queue, now: now + 62000 });
+      expect(sink.alerts.map(a => a.status)).toEqual(["firing", "firing", "resolved"]);
+
+      await observer.checkAlerts({ queue, now: now + 63000 });
+      expect(sink.alerts).toHaveLength(3);
+    });
+
+    it("fires on failure rate when a job fails", async () => {
+      const observer = makeObserver([
+        { name: "failures", kind: "failure-rate", threshold: 0.5, windowMs: 60000, cooldownMs: 60000 },
+      ]);
+
+      observer.log(ActionType.JOB_COMPLETED, "log", { jobId: "a", name: "A", workerId: "w" });
+      observer.log(ActionType.JOB_FAILED, "error", { jobId: "b", name: "B", workerId: "w", retryCount: 3, error: "fail" });
+      observer.log(ActionType.JOB_FAILED, "error", { jobId: "c", name: "C", workerId: "w", retryCount: 3, error: "fail" });
+      await vi.waitFor(() => expect(sink.alerts).toHaveLength(1));
+
+      expect(sink.alerts[0]!.kind).toBe("failure-rate");
+      expect(sink.alerts[0]!.value).toBeCloseTo(2 / 3);
+    });
+
+    it("fires on jobs stuck in processing", async () => {
+      const observer = makeObserver([
+        { name: "stuck", kind: "stuck-processing", threshold: 0, windowMs: 60000, cooldownMs: 60000 },
+      ]);
+      queue.submitJob({ name: "Brown Pelican" });
+      queue.claimJob("w-1234");
+
+      await observer.checkAlerts({ queue });
+      expect(sink.alerts).toHaveLength(0);
+
+      await observer.checkAlerts({ queue, now: Date.now() + 120000 });
+      expect(sink.alerts[0]!.value).toBe(1);
+    });
+
+    it("fires when no worker has sent a heartbeat", async () => {
+      const observer = makeObserver([
+        { name: "heartbeat", kind: "worker-heartbeat", threshold: 1, windowMs: 60000, cooldownMs: 60000 },
+      ]);
+
+      await observer.checkAlerts();
+      expect(sink.alerts.map(a => a.status)).toEqual(["firing"]);
+
+      observer.recordWorkerHeartbeat("w-1234");
+      await observer.checkAlerts();
+      expect(sink.alerts.map(a => a.status)).toEqual(["firing", "resolved"]);
+    });
+
+    it("skips queue rules when no queue is given", async () => {
+      const observer = makeObserver([
+        { name: "backlog", kind: "queue-depth", threshold: 0, windowMs: 0, cooldownMs: 60000 },
+      ]);
+      queue.submitJob({ name: "Brown Pelican" });
+
+      await observer.checkAlerts();
+      expect(sink.alerts).toHaveLength(0);
+    });
+
+    it("keeps delivering to other sinks when one fails", async () => {
+      const failing: AlertSink = {
+        name: "failing",
+        send: async () => {
+          throw new Error("unreachable");
+        },
+      };
+      const observer = new Observer(mkdtempSync(join(tmpdir(), "alerts-observer-test-")), {
+        rules: [{ name: "heartbeat", kind: "worker-heartbeat", threshold: 1, windowMs: 60000, cooldownMs: 60000 }],
+        sinks: [failing, sink],
+      });
+      const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+      await observer.checkAlerts();
+      expect(sink.alerts).toHaveLength(1);
+      expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining("Alert sink failing failed"));
+
+      vi.restoreAllMocks();
+    });
+  });
+
+  describe("sinks", () => {
+    it("posts alerts to a webhook", async () => {
+      const received: unknown[] = [];
+      const server = createServer((req, res) => {
+        let body = "";
+        req.on("data", chunk => (body += chunk));
+        req.on("end", () => {
+          received.push(JSON.parse(body));
+          res.writeHead(204).end();
+        });
+      });
+      await new Promise<void>(resolve => server.listen(0, resolve));
+      const addr = server.address();
+      const port = addr && typeof addr === "object" ? addr.port : 0;
+
+      await new WebhookSink(`http://localhost:${port}/hooks/alerts`).send(sampleAlert);
+      server.close();
+
+      expect(received).toEqual([sampleAlert]);
+    });
+
+    it("rejects when the webhook returns an error", async () => {
+      const server = createServer((_req, res) => res.writeHead(500).end());
+      await new Promise<void>(resolve => server.listen(0, resolve));
+      const addr = server.address();
+      const port = addr && typeof addr === "object" ? addr.port : 0;
+
+      await expect(new WebhookSink(`http://localhost:${port}`).send(sampleAlert)).rejects.toThrow(
+        "Webhook returned 500"
+      );
+      server.close();
+    });
+
+    it("gives up on a webhook that doesn't answer in time", async () => {
+      const server = createServer(() => {});
+      await new Promise<void>(resolve => server.listen(0, resolve));
+      const addr = server.address();
+      const port = addr && typeof addr === "object" ? addr.port : 0;
+
+      await expect(new WebhookSink(`http://localhost:${port}`, 50).send(sampleAlert)).rejects.toThrow(
+        expect.objectContaining({ name: "TimeoutError" })
+      );
+      server.closeAllConnections();
+      server.close();
+    });
+
+    it("appends alerts to a file as NDJSON", async () => {
+      const path = join(mkdtempSync(join(tmpdir(), "alerts-file-test-")), "alerts.ndjson");
+      const fileSink = new FileSink(path);
+
+      await fileSink.send(sampleAlert);
+      await fileSink.send({ ...sampleAlert, status: "resolved" });
+
+      const lines = readFileSync(path, "utf8").trim().split("\n").map(line => JSON.parse(line));
+      expect(lines.map(a => a.status)).toEqual(["firing", "resolved"]);
+    });
+
+    it("writes alerts to stderr as JSON", async () => {
+      const writeSpy = vi.spyOn(process.stderr, "write").mockImplementation(() => true);
+
+      await new StderrSink().send(sampleAlert);
+      expect(JSON.parse(String(writeSpy.mock.calls[0]![0]))).toEqual(sampleAlert);
+
+      vi.restoreAllMocks();
+    });
+
+    it("creates sinks by name", () => {
+      const sinks = createSinks(["console", "stderr", "file", "webhook"], {
+        filePath: "./alerts.ndjson",
+        webhookUrl: "http://localhost:9999",
+      });
+      expect(sinks.map(s => s.name)).toEqual(["console", "stderr", "file", "webhook"]);
+      expect(() => createSinks(["webhook"], { filePath: "./alerts.ndjson" })).toThrow();
+      expect(() => createSinks(["pager"], { filePath: "./alerts.ndjson" })).toThrow('Unknown alert sink "pager"');
+    });
+  });
+});
@@ -3,9 +3,13 @@ import { mkdtempSync } from "node:fs";
 import { join } from "node:path";
 import { tmpdir } from "node:os";
 import { createApp } from "../src/index.js";
+import { ApiKeyStore } from "../src/lib/apikeys.js";
 import { Queue } from "../src/lib/queue.js";
 import { Observer } from "../src/observer/observer.js";
 import { closeAll } from "../src/lib/db.js";
+import { ActionType } from "../src/lib/types.js";
+import { CONFIG } from "../src/lib/config.js";
+import type { Express } from "express";
 import type { Server } from "node:http";
 
 let server: Server;
@@ -19,8 +23,10 @@ beforeEach(async () => {
 
   queue = new Queue(queuePath);
   observer = new Observer(observerPath);
-  const app = createApp(queue, observer);
+  await listen(createApp(queue, observer));
+});
 
+async function listen(app: Express): Promise<void> {
   await new Promise<void>((resolve) => {
     server = app.listen(0, () => {
       const addr = server.address();
@@ -30,13 +36,51 @@ beforeEach(async () => {
       resolve();
     });
   });
-});
+}
 
 afterAll(() => {
   server?.close();
   closeAll();
 });
 
+interface StreamedEvent {
+  id: string | undefined;
+  event: string;
+  data: Record<string, unknown>;
+}
+
+/** Reads Server-Sent Events until `count` have arrived, then disconnects. */
+async function readEvents(res: globalThis.Response, count: number): Promise<StreamedEvent[]> {
+  const reader = res.body!.getReader();
+  const decoder = new TextDecoder();
+  const events: StreamedEvent[] = [];
+  let buffer = "";
+
+  while (events.length < count) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let end: number;
+    while ((end = buffer.indexOf("\n\n")) !== -1) {
+      const fields = new Map<string, string>();
+      for (const line of buffer.slice(0, end).split("\n")) {
+        const separator = line.indexOf(": ");
+        if (separator > 0) fields.set(line.slice(0, separator), line.slice(separator + 2));
+      }
+      buffer = buffer.slice(end + 2);
+
+      const event = fields.get("event");
+      if (event !== undefined) {
+        events.push({ id: fields.get("id"), event, data: JSON.parse(fields.get("data") ?? "null") });
+      }
+    }
+  }
+
+  await reader.cancel();
+  return events.slice(0, count);
+}
+
 describe("API", () => {
   describe("POST /bird", () => {
     it("creates a new job and returns 201", async () => {
@@ -81,6 +125,30 @@ describe("API", () => {
       expect(res.status).toBe(400);
     });
 
+    it("returns 400 when name has no letters or digits", async () => {
+      const res = await fetch(`${baseUrl}/bird`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: "?!" }),
+      });
+
+      expect(res.status).toBe(400);
+    });
+
+    it("returns 400 when the name normalizes to a job ID too long to store", async () => {
+      const res = await fetch(`${baseUrl}/bird`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: "\uFDFA".repeat(CONFIG.MAX_NAME_LENGTH) }),
+      });
+
+      expect(res.status).toBe(400);
+      expect(await res.json()).toMatchObject({
+        code: "validation-failed",
+        errors: [{ path: "body.name", message: `makes a job ID longer than ${CONFIG.MAX_JOB_ID_BYTES} bytes` }],
+      });
+    });
+
     it("returns 400 when name is not a string", async () => {
       const res = await fetch(`${baseUrl}/bird`, {
         method: "POST",
@@ -90,6 +158,42 @@ describe("API", () => {
       expect(res.status).toBe(400);
     });
 
+    it("accepts a priority", async () => {
+      const res = await fetch(`${baseUrl}/bird`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: "Brown Pelican", priority: 9 }),
+      });
+
+      expect(res.status).toBe(201);
+      expect(queue.getJob("brown-pelican")!.priority).toBe(9);
+    });
+
+    it("returns 400 when priority is out of range", async () => {
+      const res = await fetch(`${baseUrl}/bird`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: "Brown Pelican", priority: 42 }),
+      });
+      expect(res.status).toBe(400);
+    });
+
+    it("accepts a cron-style refresh schedule and rejects anything else", async () => {
+      const submit = (refresh: string): Promise<globalThis.Response> =>
+        fetch(`${baseUrl}/bird`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ name: "Brown Pelican", refresh }),
+        });
+
+      expect((await submit("@every 12h")).status).toBe(201);
+      expect(queue.getRefresh("brown-pelican")).toEqual({ schedule: "@every 12h" });
+
+      const res = await submit("*/5 * * * *");
+      expect(res.status).toBe(400);
+      expect((await res.json()).errors[0].path).toBe("body.refresh");
+    });
+
     it("logs job-submitted on new job", async () => {
       await fetch(`${baseUrl}/bird`, {
         method: "POST",
@@ -127,13 +231,316 @@ describe("API", () => {
     });
   });
 
+  describe("validation and errors", () => {
+    it("rejects unknown fields with a problem+json body", async () => {
+      const res = await fetch(`${baseUrl}/bird`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: "Brown Pelican", colour: "brown" }),
+      });
+
+      expect(res.status).toBe(400);
+      expect(res.headers.get("content-type")).toMatch(/^application\/problem\+json/);
+      const problem = await res.json();
+      expect(problem).toMatchObject({
+        type: "urn:birds:problem:validation-failed",
+        status: 400,
+        code: "validation-failed",
+        instance: "/bird",
+        errors: [{ path: "body.colour", message: "is not allowed" }],
+      });
+      expect(problem.requestId).toBe(res.headers.get("x-request-id"));
+    });
+
+    it("limits the length and characters of names", async () => {
+      for (const name of ["x".repeat(CONFIG.MAX_NAME_LENGTH + 1), "<script>alert(1)</script>", "Owl\u0000"]) {
+        const res = await fetch(`${baseUrl}/bird`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ name }),
+        });
+        expect(res.status).toBe(400);
+      }
+    });
+
+    it("rejects unknown query parameters", async () => {
+      const res = await fetch(`${baseUrl}/bird?name=Brown+Pelican&verbose=1`);
+      expect(res.status).toBe(400);
+      expect((await res.json()).errors).toEqual([{ path: "query.verbose", message: "is not allowed" }]);
+    });
+
+    it("reports malformed JSON and unknown routes as problems", async () => {
+      const malformed = await fetch(`${baseUrl}/bird`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: "{",
+      });
+      expect(malformed.status).toBe(400);
+      expect((await malformed.json()).code).toBe("malformed-body");
+
+      const unknown = await fetch(`${baseUrl}/birdz`);
+      expect(unknown.status).toBe(404);
+      expect((await unknown.json()).code).toBe("route-not-found");
+    });
+
+    it("reuses the client's X-Request-Id and logs it with the request", async () => {
+      const res = await fetch(`${baseUrl}/bird?name=Brown+Pelican`, {
+        headers: { "X-Request-Id": "req-123" },
+      });
+      expect(res.status).toBe(404);
+      expect(res.headers.get("x-request-id")).toBe("req-123");
+      expect((await res.json()).code).toBe("not-found");
+
+      const [entry] = observer.searchLogs({ actions: [ActionType.API_REQUEST] }).entries;
+      expect(entry!.body.requestId).toBe("req-123");
+    });
+
+    it("generates a request ID when the client's is unusable", async () => {
+      const res = await fetch(`${baseUrl}/metrics`, { headers: { "X-Request-Id": "bad id!" } });
+      expect(res.headers.get("x-request-id")).toMatch(/^[0-9a-f-]{36}$/);
+    });
+  });
+
+  describe("API keys", () => {
+    let apiKeys: ApiKeyStore;
+    let adminKey: string;
+
+    beforeEach(async () => {
+      server.close();
+      apiKeys = new ApiKeyStore(mkdtempSync(join(tmpdir(), "api-keys-test-")));
+      adminKey = apiKeys.createKey("ops", ["admin"]).key;
+      await listen(createApp(queue, observer, apiKeys));
+    });
+
+    const submit = (key: string | undefined, body: unknown, path = "/bird") =>
+      fetch(`${baseUrl}${path}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(key !== undefined && { Authorization: `Bearer ${key}` }),
+        },
+        body: JSON.stringify(body),
+      });
+
+    it("answers 401 without a key or with an unknown one", async () => {
+      const missing = await fetch(`${baseUrl}/metrics`);
+      expect(missing.status).toBe(401);
+      expect(missing.headers.get("www-authenticate")).toContain("Bearer");
+      expect(await missing.json()).toMatchObject({ code: "unauthenticated" });
+
+      const unknown = await fetch(`${baseUrl}/metrics`, {
+        headers: { Authorization: `Bearer bk_000000000000_${"a".repeat(43)}` },
+      });
+      expect(unknown.status).toBe(401);
+      expect((await unknown.json()).detail).toContain("invalid or has been revoked");
+    });
+
+    it("answers 403 when the key lacks the route's scope", async () => {
+      const { key } = apiKeys.createKey("reader", ["read"]);
+
+      expect((await fetch(`${baseUrl}/metrics`, { headers: { Authorization: `Bearer ${key}` } })).status).toBe(200);
+
+      const res = await submit(key, { name: "Osprey" });
+      expect(res.status).toBe(403);
+      expect(await res.json()).toMatchObject({ code: "insufficient-scope" });
+    });
+
+    it("needs the admin scope to purge", async () => {
+      const { key } = apiKeys.createKey("ingest", ["submit"]);
+      await submit(key, { name: "Osprey" });
+
+      const res = await fetch(`${baseUrl}/bird?name=Osprey&purge=true`, {
+        method: "DELETE",
+        headers: { Authorization: `Bearer ${key}` },
+      });
+      expect(res.status).toBe(403);
+      expect(queue.getJob("osprey")).toBeDefined();
+    });
+
+    it("enforces the daily quota per submitted name and attributes usage", async () => {
+      const { apiKey, key } = apiKeys.createKey("ingest", ["submit"], 3);
+
+      const first = await submit(key, { name: "Osprey" });
+      expect(first.status).toBe(201);
+      expect(first.headers.get("x-quota-remaining")).toBe("2");
+
+      const bulk = await submit(key, ["Kestrel", "Merlin", "Hobby"], "/birds");
+      expect(bulk.status).toBe(429);
+      expect(Number(bulk.headers.get("retry-after"))).toBeGreaterThan(0);
+      expect(await bulk.json()).toMatchObject({ code: "quota-exceeded" });
+
+      expect((await submit(key, ["Kestrel", "Merlin"], "/birds")).status).toBe(200);
+      expect((await submit(key, { name: "Hobby" })).status).toBe(429);
+      expect(apiKeys.getUsage(apiKey.id)).toBe(3);
+
+      const submitted = observer.searchLogs({ actions: [ActionType.JOB_SUBMITTED] }).entries;
+      expect(submitted.every((entry) => entry.body.apiKeyId === apiKey.id)).toBe(true);
+      const exceeded = observer.searchLogs({ actions: [ActionType.API_KEY_QUOTA_EXCEEDED] }).entries;
+      expect(exceeded).toHaveLength(2);
+      expect(exceeded[0]!.body).toMatchObject({ apiKeyId: apiKey.id, dailyQuota: 3 });
+    });
+
+    it("creates, lists, rotates and revokes keys", async () => {
+      const admin = { Authorization: `Bearer ${adminKey}`, "Content-Type": "application/json" };
+
+      const created = await fetch(`${baseUrl}/admin/api-keys`, {
+        method: "POST",
+        headers: admin,
+        body: JSON.stringify({ name: "ingest", scopes: ["submit"], dailyQuota: 10 }),
+      });
+      expect(created.status).toBe(201);
+      const { id, key } = await created.json();
+      expect(key).toMatch(/^bk_/);
+      expect((await submit(key, { name: "Osprey" })).status).toBe(201);
+
+      const list = await (await fetch(`${baseUrl}/admin/api-keys`, { headers: admin })).json();
+      const listed = list.keys.find((entry: { id: string }) => entry.id === id);
+      expect(listed).toMatchObject({ name: "ingest", scopes: ["submit"], dailyQuota: 10, usedToday: 1 });
+      expect(listed).not.toHaveProperty("hash");
+
+      const rotated = await fetch(`${baseUrl}/admin/api-keys/${id}/rotate`, { method: "POST", headers: admin });
+      const { key: newKey } = await rotated.json();
+      expect((await submit(key, { name: "Kestrel" })).status).toBe(401);
+      expect((await submit(newKey, { name: "Kestrel" })).status).toBe(201);
+
+      const revoked = await fetch(`${baseUrl}/admin/api-keys/${id}`, { method: "DELETE", headers: admin });
+      expect(await revoked.json()).toMatchObject({ id, revokedAt: expect.any(Number) });
+      expect((await submit(newKey, { name: "Merlin" })).status).toBe(401);
+
+      const actions = observer
+        .searchLogs({ actions: [ActionType.API_KEY_CREATED, ActionType.API_KEY_ROTATED, ActionType.API_KEY_REVOKED] })
+        .entries.map((entry) => entry.action);
+      expect(actions.sort()).toEqual(["api-key-created", "api-key-revoked", "api-key-rotated"]);
+    });
+  });
+
+  describe("POST /birds", () => {
+    it("submits a JSON array of names", async () => {
+      await fetch(`${baseUrl}/bird`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: "Brown Pelican" }),
+      });
+      queue.claimJob();
+      queue.failJob("brown-pelican");
+      await fetch(`${baseUrl}/bird`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: "Snowy Owl" }),
+      });
+
+      const res = await fetch(`${baseUrl}/birds`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(["Bald Eagle", { name: "Brown Pelican" }, "Snowy Owl", 42]),
+      });
+      expect(res.status).toBe(200);
+
+      const data = await res.json();
+      expect(data.results.map((r: { result: string }) => r.result)).toEqual([
+        "created",
+        "requeued",
+        "duplicate",
+        "invalid",
+      ]);
+      expect(data.results[0].id).toBe("bald-eagle");
+      expect(data.results[3].index).toBe(3);
+      expect(data.results[3].error).toBeDefined();
+    });
+
+    it("reports an item whose job ID is too long to store and queues the rest", async () => {
+      const res = await fetch(`${baseUrl}/birds`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(["Osprey", { name: "\uFDFA".repeat(CONFIG.MAX_NAME_LENGTH) }]),
+      });
+      expect(res.status).toBe(200);
+
+      const data = await res.json();
+      expect(data.results).toEqual([
+        expect.objectContaining({ index: 0, result: "created", id: "osprey" }),
+        { index: 1, result: "invalid", error: "body[1] must be a name or { name, priority?, refresh? }" },
+      ]);
+      expect(queue.getJob("osprey")!.status).toBe("queued");
+    });
+
+    it("submits an NDJSON stream of names", async () => {
+      const res = await fetch(`${baseUrl}/birds`, {
+        method: "POST",
+        headers: { "Content-Type": "application/x-ndjson" },
+        body: ['"Bald Eagle"', '{"name":"Snowy Owl"}', "not json", ""].join("\n"),
+      });
+      expect(res.status).toBe(200);
+
+      const data = await res.json();
+      expect(data.results.map((r: { result: string }) => r.result)).toEqual([
+        "created",
+        "created",
+        "invalid",
+      ]);
+      expect(queue.getJob("snowy-owl")!.status).toBe("queued");
+    });
+
+    it("logs job-submitted and job-duplicate for each item", async () => {
+      await fetch(`${baseUrl}/birds`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(["Bald Eagle", "Bald Eagle"]),
+      });
+
+      const actions = observer.getTrace("bald-eagle").map(e => e.action);
+      expect(actions.sort()).toEqual(["job-duplicate", "job-submitted"]);
+    });
+
+    it("accepts a batch of MAX_BULK_ITEMS of the largest items", async () => {
+      // Full-length names of an astral letter, sent escaped as surrogate pairs.
+      const items = Array.from({ length: CONFIG.MAX_BULK_ITEMS }, (_, i) => ({
+        name: `${i}${"\u{1D4D1}".repeat(CONFIG.MAX_NAME_LENGTH - String(i).length)}`,
+        priority: CONFIG.MAX_PRIORITY,
+        refresh: `@every ${"1m".repeat(27)}1h`,
+      }));
+      const json = JSON.stringify(items, null, 2).replace(
+        /[\u{10000}-\u{10FFFF}]/gu,
+        (c) => `\\u${c.charCodeAt(0).toString(16)}\\u${c.charCodeAt(1).toString(16)}`
+      );
+      expect(json.length).toBeGreaterThan(1_000_000);
+
+      const res = await fetch(`${baseUrl}/birds`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: json,
+      });
+      expect(res.status).toBe(200);
+      const data = await res.json();
+      expect(data.results.filter((r: { result: string }) => r.result === "created")).toHaveLength(
+        CONFIG.MAX_BULK_ITEMS
+      );
+
+      const ndjson = await fetch(`${baseUrl}/birds`, {
+        method: "POST",
+        headers: { "Content-Type": "application/x-ndjson" },
+        body: json.slice(1, -1).replace(/\n/g, "").replace(/},\s*{/g, "}\n{"),
+      });
+      expect(ndjson.status).toBe(200);
+    });
+
+    it("returns 400 when the body is not an array", async () => {
+      const res = await fetch(`${baseUrl}/birds`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: "Bald Eagle" }),
+      });
+      expect(res.status).toBe(400);
+    });
+  });
+
   describe("GET /bird", () => {
     it("returns 404 when job does not exist", async () => {
       const res = await fetch(`${baseUrl}/bird?name=Brown+Pelican`);
       expect(res.status).toBe(404);
     });
 
-    it("returns 404 when job is not completed", async () => {
+    it("returns queued status when job is not completed", async () => {
       await fetch(`${baseUrl}/bird`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
@@ -141,7 +548,64 @@ describe("API", () => {
       });
 
       const res = await fetch(`${baseUrl}/bird?name=Brown+Pelican`);
-      expect(res.status).toBe(404);
+      expect(res.status).toBe(200);
+
+      const data = await res.json();
+      expect(data.status).toBe("queued");
+      expect(data.retryCount).toBe(0);
+      expect(data.availableForProcessingAt).toBeTypeOf("number");
+      expect(data.lastError).toBeNull();
+    });
+
+    it("resolves aliases recorded from a canonical title", async () => {
+      queue.submitJob({ name: "Pelecanus occidentalis" });
+      queue.claimJob("w-test");
+      queue.completeJob("pelecanus-occidentalis", { research: "x" }, "w-test", "wikipedia", "Brown pelican");
+
+      const byName = await (await fetch(`${baseUrl}/bird?name=Brown+Pelican!`)).json();
+      expect(byName).toMatchObject({ id: "pelecanus-occidentalis", status: "completed" });
+
+      const byId = await fetch(`${baseUrl}/bird/brown-pelican`);
+      expect(byId.status).toBe(200);
+      expect((await byId.json()).id).toBe("pelecanus-occidentalis");
+    });
+
+    it("returns retry state with the last error", async () => {
+      await fetch(`${baseUrl}/bird`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: "Brown Pelican" }),
+      });
+
+      queue.claimJob("w-test");
+      const nextAvailableAt = Date.now() + 60000;
+      queue.retryJob("brown-pelican", nextAvailableAt, "w-test", { kind: "transient", message: "timeout" });
+
+      const res = await fetch(`${baseUrl}/bird?name=Brown+Pelican`);
+      const data = await res.json();
+      expect(data.status).toBe("queued");
+      expect(data.retryCount).toBe(1);
+      expect(data.availableForProcessingAt).toBe(nextAvailableAt);
+      expect(data.lastError).toBe("timeout");
+    });
+
+    it("returns failed status", async () => {
+      await fetch(`${baseUrl}/bird`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: "Brown Pelican" }),
+      });
+
+      queue.claimJob("w-test");
+      queue.failJob("brown-pelican", "w-test", { kind: "permanent", message: "No Wikipedia page found" });
+
+      const res = await fetch(`${baseUrl}/bird?name=Brown+Pelican`);
+      const data = await res.json();
+      expect(data.status).toBe("failed");
+      expect(data.lastError).toBe("No Wikipedia page found");
+      expect(data.failureReason).toBe("permanent-error");
+      expect(data.errorHistory).toHaveLength(1);
+      expect(data.errorHistory[0]).toMatchObject({ kind: "permanent", workerId: "w-test" });
     });
 
     it("returns completed job", async () => {
@@ -160,6 +624,29 @@ describe("API", () => {
       const data = await res.json();
       expect(data.id).toBe("brown-pelican");
       expect(data.body.research).toBe("Some research text");
+      expect(data.result.source).toBe("unknown");
+      expect(data.result.fetchedAt).toBeDefined();
+    });
+
+    it("keeps returning the last result while a refresh is queued", async () => {
+      queue.submitJob({ name: "Brown Pelican" });
+      queue.claimJob();
+      queue.completeJob("brown-pelican", { research: "Some research text" });
+      queue.expireTerminalJobs(Date.now() + CONFIG.TERMINAL_JOB_TTL_MS + 1);
+
+      let res = await fetch(`${baseUrl}/bird?name=Brown+Pelican`);
+      let data = await res.json();
+      expect(res.status).toBe(200);
+      expect(data.status).toBe("completed");
+      expect(data.createdAt).toBeNull();
+      expect(data.body.research).toBe("Some research text");
+
+      queue.submitJob({ name: "Brown Pelican" });
+
+      res = await fetch(`${baseUrl}/bird?name=Brown+Pelican`);
+      data = await res.json();
+      expect(data.status).toBe("queued");
+      expect(data.body.research).toBe("Some research text");
     });
 
     it("returns 400 when name is missing", async () => {
@@ -168,6 +655,349 @@ describe("API", () => {
     });
   });
 
+  describe("DELETE /bird", () => {
+    it("cancels a queued job", async () => {
+      await fetch(`${baseUrl}/bird`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: "Brown Pelican" }),
+      });
+
+      const res = await fetch(`${baseUrl}/bird?name=Brown+Pelican`, { method: "DELETE" });
+      expect(res.status).toBe(200);
+
+      const data = await res.json();
+      expect(data.status).toBe("cancelled");
+      expect(queue.claimJob()).toBeUndefined();
+
+      const cancelled = observer.getTrace("brown-pelican").find(e => e.action === "job-cancelled");
+      expect(cancelled).toBeDefined();
+      expect(cancelled!.body.previousStatus).toBe("queued");
+    });
+
+    it("returns 409 for a completed job", async () => {
+      await fetch(`${baseUrl}/bird`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: "Brown Pelican" }),
+      });
+      queue.claimJob();
+      queue.completeJob("brown-pelican", { research: "Some research text" });
+
+      const res = await fetch(`${baseUrl}/bird?name=Brown+Pelican`, { method: "DELETE" });
+      expect(res.status).toBe(409);
+    });
+
+    it("purges a job so it can be researched again", async () => {
+      await fetch(`${baseUrl}/bird`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: "Brown Pelican" }),
+      });
+      queue.claimJob();
+      queue.completeJob("brown-pelican", { research: "Some research text" });
+
+      const res = await fetch(`${baseUrl}/bird?name=Brown+Pelican&purge=true`, { method: "DELETE" });
+      expect(res.status).toBe(204);
+      expect(queue.getJob("brown-pelican")).toBeUndefined();
+
+      const resubmit = await fetch(`${baseUrl}/bird`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: "Brown Pelican" }),
+      });
+      expect(resubmit.status).toBe(201);
+    });
+
+    it("returns 404 when job does not exist", async () => {
+      const res = await fetch(`${baseUrl}/bird?name=Brown+Pelican`, { method: "DELETE" });
+      expect(res.status).toBe(404);
+    });
+
+    it("returns 400 when name is missing", async () => {
+      const res = await fetch(`${baseUrl}/bird`, { method: "DELETE" });
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe("GET /bird/:id", () => {
+    it("returns 400 for an ID longer than MAX_JOB_ID_BYTES", async () => {
+      const res = await fetch(`${baseUrl}/bird/${"\u00e9".repeat(CONFIG.MAX_JOB_ID_BYTES / 2 + 1)}`);
+      expect(res.status).toBe(400);
+      expect(await res.json()).toMatchObject({
+        errors: [{ path: "params.id", message: `must be at most ${CONFIG.MAX_JOB_ID_BYTES} bytes` }],
+      });
+    });
+
+    it("returns job status by id", async () => {
+      await fetch(`${baseUrl}/bird`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: "Brown Pelican" }),
+      });
+      queue.claimJob("w-test");
+
+      const res = await fetch(`${baseUrl}/bird/brown-pelican`);
+      expect(res.status).toBe(200);
+
+      const data = await res.json();
+      expect(data.id).toBe("brown-pelican");
+      expect(data.status).toBe("processing");
+    });
+
+    it("returns 404 for unknown id", async () => {
+      const res = await fetch(`${baseUrl}/bird/brown-pelican`);
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe("GET /bird/events", () => {
+    it("streams status transitions logged by any process", async () => {
+      const res = await fetch(`${baseUrl}/bird/events`);
+      expect(res.status).toBe(200);
+      expect(res.headers.get("content-type")).toBe("text/event-stream");
+
+      await fetch(`${baseUrl}/bird`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: "Brown Pelican" }),
+      });
+      // A worker in another process logs to the same observer database.
+      observer.log(ActionType.JOB_CLAIMED, "log", { jobId: "brown-pelican", name: "Brown Pelican", workerId: "w-1" });
+      observer.log(ActionType.JOB_COMPLETED, "log", { jobId: "brown-pelican", name: "Brown Pelican", workerId: "w-1" });
+
+      const events = await readEvents(res, 3);
+      expect(events.map(e => e.event)).toEqual(["queued", "processing", "completed"]);
+      expect(events[2]!.data).toMatchObject({ jobId: "brown-pelican", status: "completed", workerId: "w-1" });
+      expect(events.every(e => e.id !== undefined)).toBe(true);
+    });
+
+    it("resumes from Last-Event-ID", async () => {
+      observer.log(ActionType.JOB_SUBMITTED, "log", { jobId: "brown-pelican", name: "Brown Pelican" });
+      observer.log(ActionType.JOB_CLAIMED, "log", { jobId: "brown-pelican", name: "Brown Pelican", workerId: "w-1" });
+      observer.log(ActionType.JOB_RETRY, "warning", { jobId: "brown-pelican", name: "Brown Pelican", workerId: "w-1" });
+      const { entries } = observer.searchLogs({ jobId: "brown-pelican" });
+      expect(entries).toHaveLength(3);
+
+      const first = await readEvents(
+        await fetch(`${baseUrl}/bird/events`, { headers: { "Last-Event-ID": "0" } }),
+        1
+      );
+      const res = await fetch(`${baseUrl}/bird/events`, { headers: { "Last-Event-ID": first[0]!.id! } });
+
+      const events = await readEvents(res, 2);
+      expect(events.map(e => e.event)).toEqual(["processing", "retry"]);
+    });
+  });
+
+  describe("GET /bird/:id/events", () => {
+    it("opens with the current status and only streams that bird", async () => {
+      queue.submitJob({ name: "Brown Pelican" });
+      const res = await fetch(`${baseUrl}/bird/brown-pelican/events`);
+
+      observer.log(ActionType.JOB_SUBMITTED, "log", { jobId: "snowy-owl", name: "Snowy Owl" });
+      observer.log(ActionType.JOB_CLAIMED, "log", { jobId: "brown-pelican", name: "Brown Pelican", workerId: "w-1" });
+
+      const events = await readEvents(res, 2);
+      expect(events[0]).toMatchObject({ id: undefined, event: "status", data: { status: "queued" } });
+      expect(events[1]).toMatchObject({ event: "processing", data: { jobId: "brown-pelican" } });
+    });
+  });
+
+  describe("GET /bird/:id/trace", () => {
+    it("returns the observer trace for a job", async () => {
+      await fetch(`${baseUrl}/bird`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: "Brown Pelican" }),
+      });
+
+      const res = await fetch(`${baseUrl}/bird/brown-pelican/trace`);
+      expect(res.status).toBe(200);
+
+      const data = await res.json();
+      expect(data.jobId).toBe("brown-pelican");
+      expect(data.entries.map((e: { action: string }) => e.action)).toContain("job-submitted");
+    });
+
+    it("returns 404 for unknown id", async () => {
+      const res = await fetch(`${baseUrl}/bird/brown-pelican/trace`);
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe("GET /logs", () => {
+    it("filters and paginates observer entries", async () => {
+      observer.log(ActionType.JOB_CLAIMED, "log", { jobId: "a", name: "A", workerId: "w-1" });
+      observer.log(ActionType.JOB_CLAIMED, "log", { jobId: "b", name: "B", workerId: "w-1" });
+      observer.log(ActionType.JOB_CLAIMED, "log", { jobId: "c", name: "C", workerId: "w-2" });
+
+      const res = await fetch(`${baseUrl}/logs?action=job-claimed&workerId=w-1&limit=1`);
+      expect(res.status).toBe(200);
+
+      const page1 = await res.json();
+      expect(page1.entries).toHaveLength(1);
+      expect(page1.entries[0].body.jobId).toBe("a");
+
+      const res2 = await fetch(
+        `${baseUrl}/logs?action=job-claimed&workerId=w-1&limit=1&cursor=${encodeURIComponent(page1.nextCursor)}`
+      );
+      const page2 = await res2.json();
+      expect(page2.entries[0].body.jobId).toBe("b");
+      expect(page2.nextCursor).toBeNull();
+    });
+
+    it("returns 400 for an unknown action", async () => {
+      const res = await fetch(`${baseUrl}/logs?action=job-exploded`);
+      expect(res.status).toBe(400);
+    });
+
+    it("returns 400 for an invalid time range", async () => {
+      const res = await fetch(`${baseUrl}/logs?from=yesterday`);
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe("/admin/dead-letters", () => {
+    function failBird(name: string, message: string): void {
+      queue.submitJob({ name });
+      const job = queue.claimJob("w-test")!;
+      queue.failJob(job.id, "w-test", { kind: "permanent", message });
+    }
+
+    async function post(path: string, body: unknown): Promise<globalThis.Response> {
+      return fetch(`${baseUrl}${path}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+    }
+
+    it("lists failed jobs filtered by error text", async () => {
+      failBird("Brown Pelican", "No Wikipedia page found");
+      failBird("Snowy Owl", "Wikipedia API returned 400");
+
+      const res = await fetch(`${baseUrl}/admin/dead-letters?error=no+wikipedia+page`);
+      expect(res.status).toBe(200);
+
+      const data = await res.json();
+      expect(data.total).toBe(1);
+      expect(data.entries[0]).toMatchObject({
+        id: "brown-pelican",
+        error: "No Wikipedia page found",
+        failureReason: "permanent-error",
+      });
+      expect(data.entries[0].errorHistory).toHaveLength(1);
+    });
+
+    it("rejects invalid filters", async () => {
+      const res = await fetch(`${baseUrl}/admin/dead-letters?from=yesterday`);
+      expect(res.status).toBe(400);
+    });
+
+    it("replays selected entries with a fresh retry budget", async () => {
+      failBird("Brown Pelican", "not found");
+      failBird("Snowy Owl", "not found");
+
+      const res = await post("/admin/dead-letters/replay", { ids: ["brown-pelican", "unknown"] });
+      expect(res.status).toBe(200);
+      expect((await res.json()).replayed).toEqual([
+        { id: "brown-pelican", name: "Brown Pelican", status: "queued" },
+      ]);
+
+      const job = queue.getJob("brown-pelican")!;
+      expect(job.retryCount).toBe(0);
+      expect(job.errorHistory).toBeUndefined();
+      expect(queue.listDeadLetters().map((d) => d.id)).toEqual(["snowy-owl"]);
+
+      const [entry] = observer.searchLogs({ actions: [ActionType.JOB_REPLAYED] }).entries;
+      expect(entry!.body).toMatchObject({ jobId: "brown-pelican", error: "not found" });
+    });
+
+    it("replays or purges everything with all: true", async () => {
+      failBird("Brown Pelican", "not found");
+      failBird("Snowy Owl", "not found");
+
+      const purged = await (await post("/admin/dead-letters/purge", { all: true })).json();
+      expect(purged.purged).toHaveLength(2);
+      expect(queue.listDeadLetters()).toHaveLength(0);
+      expect(queue.getJob("snowy-owl")!.status).toBe("failed");
+
+      const replayed = await (await post("/admin/dead-letters/replay", { all: true })).json();
+      expect(replayed.replayed).toEqual([]);
+    });
+
+    it("requires a selection to replay or purge", async () => {
+      expect((await post("/admin/dead-letters/replay", {})).status).toBe(400);
+      expect((await post("/admin/dead-letters/purge", { ids: [] })).status).toBe(400);
+    });
+
+    it("returns a single entry or 404", async () => {
+      failBird("Brown Pelican", "not found");
+
+      expect((await fetch(`${baseUrl}/admin/dead-letters/brown-pelican`)).status).toBe(200);
+      expect((await fetch(`${baseUrl}/admin/dead-letters/snowy-owl`)).status).toBe(404);
+    });
+  });
+
+  describe("/admin/jobs", () => {
+    async function post(path: string, body: unknown): Promise<globalThis.Response> {
+      return fetch(`${baseUrl}${path}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+    }
+
+    it("lists jobs filtered by status", async () => {
+      queue.submitJob({ name: "Brown Pelican" });
+      queue.submitJob({ name: "Snowy Owl" });
+      queue.claimJob("w-test");
+
+      const data = await (await fetch(`${baseUrl}/admin/jobs?status=queued&limit=10`)).json();
+      expect(data.total).toBe(1);
+      expect(data.jobs.map((job: { id: string }) => job.id)).toEqual(["snowy-owl"]);
+
+      expect((await fetch(`${baseUrl}/admin/jobs?status=lost`)).status).toBe(400);
+    });
+
+    it("fails a queued job and requeues it", async () => {
+      queue.submitJob({ name: "Brown Pelican" });
+
+      const failed = await post("/admin/jobs/brown-pelican/fail", { reason: "wrong bird" });
+      expect(failed.status).toBe(200);
+      expect(await failed.json()).toMatchObject({ status: "failed", lastError: "wrong bird" });
+      expect(queue.getQueueIndex()).toEqual([]);
+      expect(queue.listDeadLetters().map((d) => d.id)).toEqual(["brown-pelican"]);
+
+      const again = await post("/admin/jobs/brown-pelican/fail", {});
+      expect(again.status).toBe(409);
+      expect((await again.json()).code).toBe("job-not-failable");
+
+      const requeued = await post("/admin/jobs/brown-pelican/requeue", {});
+      expect(requeued.status).toBe(200);
+      expect(await requeued.json()).toMatchObject({ status: "queued", retryCount: 0 });
+      expect(queue.listDeadLetters()).toEqual([]);
+
+      const [entry] = observer.searchLogs({ actions: [ActionType.JOB_REQUEUED] }).entries;
+      expect(entry!.body).toMatchObject({ jobId: "brown-pelican", previousStatus: "failed" });
+    });
+
+    it("returns 404 for unknown jobs", async () => {
+      expect((await post("/admin/jobs/dodo/requeue", {})).status).toBe(404);
+      expect((await post("/admin/jobs/dodo/fail", {})).status).toBe(404);
+    });
+
+    it("dumps the queue-index in claim order", async () => {
+      queue.submitJob({ name: "Brown Pelican", priority: 1 });
+      queue.submitJob({ name: "Snowy Owl", priority: 9 });
+
+      const data = await (await fetch(`${baseUrl}/admin/queue-index`)).json();
+      expect(data.entries.map((entry: { jobId: string }) => entry.jobId)).toEqual(["snowy-owl", "brown-pelican"]);
+      expect(data.entries[0]).toMatchObject({ priority: 9 });
+    });
+  });
+
   describe("GET /metrics", () => {
     it("returns metrics with no window parameter", async () => {
       const res = await fetch(`${baseUrl}/metrics`);
@@ -179,6 +1009,9 @@ describe("API", () => {
       expect(data).toHaveProperty("failed");
       expect(data).toHaveProperty("failureRate");
       expect(data).toHaveProperty("avgProcessingTimeMs");
+      expect(data).toHaveProperty("p50ProcessingTimeMs");
+      expect(data).toHaveProperty("p95ProcessingTimeMs");
+      expect(data).toHaveProperty("p99ProcessingTimeMs");
     });
 
     it("returns metrics with window parameter", async () => {
@@ -193,4 +1026,80 @@ describe("API", () => {
       expect(data).toHaveProperty("avgProcessingTimeMs");
     });
   });
+
+  describe("GET /openapi.json", () => {
+    it("describes every route from its spec", async () => {
+      const res = await fetch(`${baseUrl}/openapi.json`);
+      expect(res.status).toBe(200);
+
+      const doc = await res.json();
+      expect(doc.openapi).toBe("3.1.0");
+      expect(Object.keys(doc.paths)).toContain("/bird/{id}/trace");
+
+      const submit = doc.paths["/bird"].post;
+      expect(submit.operationId).toBe("submitBird");
+      expect(submit["x-scope"]).toBe("submit");
+      expect(submit.requestBody.content["application/json"].schema).toMatchObject({
+        type: "object",
+        required: ["name"],
+        additionalProperties: false,
+      });
+      expect(Object.keys(submit.responses)).toEqual(expect.arrayContaining(["400", "401", "403", "429"]));
+
+      const bulk = doc.paths["/birds"].post.requestBody.content;
+      expect(bulk["application/json"].schema.items.oneOf).toHaveLength(2);
+      expect(bulk["application/x-ndjson"].schema.oneOf).toHaveLength(2);
+
+      const logs = doc.paths["/logs"].get.parameters;
+      expect(logs.find((param: { name: string }) => param.name === "action")).toMatchObject({
+        in: "query",
+        style: "form",
+        explode: false,
+      });
+      expect(doc.paths["/openapi.json"].get.security).toEqual([]);
+    });
+  });
+
+  describe("GET /metrics/prometheus", () => {
+    it("exposes counters, queue gauges, histogram and retries in text format", async () => {
+      await fetch(`${baseUrl}/bird`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: "Brown Pelican" }),
+      });
+      observer.log(ActionType.JOB_CLAIMED, "log", { jobId: "a", name: "A", workerId: "w-1" });
+      observer.log(ActionType.JOB_COMPLETED, "log", { jobId: "a", name: "A", workerId: "w-1" });
+      observer.log(ActionType.JOB_RETRY, "warning", { jobId: "b", name: "B", workerId: "w-1", retryCount: 1, nextAvailableAt: 0, error: "timeout" });
+
+      const res = await fetch(`${baseUrl}/metrics/prometheus`);
+      expect(res.status).toBe(200);
+      expect(res.headers.get("content-type")).toContain("text/plain");
+
+      const text = await res.text();
+      expect(text).toContain("# TYPE birds_actions_total counter");
+      expect(text).toContain('birds_actions_total{action="job-submitted"} 1');
+      expect(text).toContain('birds_actions_total{action="job-failed"} 0');
+      expect(text).toContain('birds_jobs{status="queued"} 1');
+      expect(text).toContain('birds_jobs{status="completed"} 0');
+      expect(text).toMatch(/^birds_oldest_queued_job_age_seconds \d/m);
+      expect(text).toContain('birds_job_processing_duration_seconds_bucket{le="+Inf"} 1');
+      expect(text).toContain("birds_job_processing_duration_seconds_count 1");
+      expect(text).toContain('birds_job_retries_total{worker_id="w-1"} 1');
+    });
+
+    it("exposes the circuit breaker state of each upstream", async () => {
+      observer.log(ActionType.CIRCUIT_BREAKER, "warning", {
+        provider: "wikipedia",
+        state: "open",
+        previousState: "closed",
+      });
+
+      const text = await (await fetch(`${baseUrl}/metrics/prometheus`)).text();
+      expect(text).toContain('birds_circuit_breaker_state{provider="wikipedia",state="open"} 1');
+      expect(text).toContain('birds_circuit_breaker_state{provider="wikipedia",state="closed"} 0');
+
+      const metrics = await (await fetch(`${baseUrl}/metrics`)).json();
+      expect(metrics.circuitBreakers.wikipedia.state).toBe("open");
+    });
+  });
 });
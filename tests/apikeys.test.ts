@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach, afterAll } from "vitest";
+import { mkdtempSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { ApiKeyStore, hasScope } from "../src/lib/apikeys.js";
+import { closeAll } from "../src/lib/db.js";
+
+let store: ApiKeyStore;
+
+beforeEach(() => {
+  store = new ApiKeyStore(mkdtempSync(join(tmpdir(), "apikeys-test-")));
+});
+
+afterAll(() => {
+  closeAll();
+});
+
+describe("ApiKeyStore", () => {
+  it("stores only a hash and verifies the key it returned", () => {
+    const { apiKey, key } = store.createKey("ingest", ["submit"], 10);
+
+    expect(key).toMatch(new RegExp(`^bk_${apiKey.id}_`));
+    expect(JSON.stringify(store.getKey(apiKey.id))).not.toContain(key.slice(16));
+    expect(store.verifyKey(key)).toMatchObject({ id: apiKey.id, name: "ingest" });
+    expect(store.verifyKey(`${key.slice(0, -1)}${key.endsWith("A") ? "B" : "A"}`)).toBeUndefined();
+    expect(store.verifyKey("not-a-key")).toBeUndefined();
+  });
+
+  it("invalidates the old key on rotation and every key on revocation", () => {
+    const { apiKey, key } = store.createKey("ingest", ["submit"]);
+
+    const rotated = store.rotateKey(apiKey.id, 1000)!;
+    expect(rotated.apiKey.rotatedAt).toBe(1000);
+    expect(store.verifyKey(key)).toBeUndefined();
+    expect(store.verifyKey(rotated.key)).toBeDefined();
+
+    expect(store.revokeKey(apiKey.id, 2000)?.revokedAt).toBe(2000);
+    expect(store.verifyKey(rotated.key)).toBeUndefined();
+    expect(store.rotateKey(apiKey.id)).toBeUndefined();
+    expect(store.listKeys()).toHaveLength(1);
+  });
+
+  it("counts submissions per UTC day and refuses to go over the quota", () => {
+    const { apiKey } = store.createKey("ingest", ["submit"], 5);
+    const noon = Date.UTC(2025, 0, 31, 12);
+
+    expect(store.consumeQuota(apiKey, 4, noon)).toEqual({ allowed: true, used: 4, remaining: 1 });
+    expect(store.consumeQuota(apiKey, 2, noon)).toEqual({
+      allowed: false,
+      used: 4,
+      resetsAt: Date.UTC(2025, 1, 1),
+    });
+    expect(store.getUsage(apiKey.id, noon)).toBe(4);
+
+    const tomorrow = Date.UTC(2025, 1, 1, 0, 0, 1);
+    expect(store.consumeQuota(apiKey, 2, tomorrow)).toMatchObject({ allowed: true, used: 2 });
+  });
+
+  it("treats admin as every scope", () => {
+    const { apiKey: admin } = store.createKey("ops", ["admin"]);
+    const { apiKey: reader } = store.createKey("dashboard", ["read"]);
+
+    expect(hasScope(admin, "submit")).toBe(true);
+    expect(hasScope(reader, "read")).toBe(true);
+    expect(hasScope(reader, "submit")).toBe(false);
+  });
+});
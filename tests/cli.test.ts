@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, afterAll } from "vitest";
+import { mkdtempSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import type { Server } from "node:http";
+import { createApp } from "../src/index.js";
+import { type Backend, CliError, LocalBackend, RemoteBackend } from "../src/cli/backends.js";
+import { runCommand } from "../src/cli/commands.js";
+import { renderTable } from "../src/cli/format.js";
+import { CONFIG } from "../src/lib/config.js";
+import { closeAll } from "../src/lib/db.js";
+import { Queue } from "../src/lib/queue.js";
+import { ActionType } from "../src/lib/types.js";
+import { Observer } from "../src/observer/observer.js";
+
+let queuePath: string;
+let observerPath: string;
+
+beforeEach(() => {
+  queuePath = mkdtempSync(join(tmpdir(), "cli-queue-test-"));
+  observerPath = mkdtempSync(join(tmpdir(), "cli-observer-test-"));
+});
+
+afterAll(() => {
+  closeAll();
+});
+
+/** Runs the same operator session against a backend. */
+async function session(backend: Backend): Promise<void> {
+  await runCommand(backend, "submit", ["Brown Pelican"], { priority: 7 });
+  await runCommand(backend, "submit", ["Osprey"]);
+
+  const list = await runCommand(backend, "list", [], { status: "queued" });
+  expect(list.data).toMatchObject({ total: 2 });
+  expect(list.table).toContain("brown-pelican");
+  expect(list.table).toContain("2 of 2 jobs");
+
+  const failed = await runCommand(backend, "fail", ["Osprey"], { reason: "wrong bird" });
+  expect(failed.data).toMatchObject({ status: "failed", lastError: "wrong bird", failureReason: "permanent-error" });
+  await expect(runCommand(backend, "fail", ["Osprey"])).rejects.toThrow("already failed");
+
+  const index = await runCommand(backend, "queue-index", []);
+  expect(index.data).toEqual([expect.objectContaining({ jobId: "brown-pelican", priority: 7 })]);
+  expect(index.table).toMatch(/^7\s+\S+\s+now\s+brown-pelican\s+/m);
+
+  expect((await runCommand(backend, "requeue", ["osprey"])).data).toMatchObject({ status: "queued" });
+  expect((await runCommand(backend, "cancel", ["Brown Pelican"])).data).toMatchObject({ status: "cancelled" });
+  expect((await runCommand(backend, "status", ["brown-pelican"])).data).toMatchObject({ status: "cancelled" });
+
+  const trace = await runCommand(backend, "trace", ["Osprey"]);
+  expect((trace.data as Array<{ action: string }>).map((entry) => entry.action)).toEqual([
+    ActionType.JOB_SUBMITTED,
+    ActionType.JOB_FAILED,
+    ActionType.JOB_REQUEUED,
+  ]);
+
+  expect((await runCommand(backend, "metrics", [], { windowMs: 60_000 })).data).toMatchObject({ submitted: 2 });
+}
+
+describe("birds CLI", () => {
+  it("works directly on the databases, attributing changes to the local user", async () => {
+    const backend = new LocalBackend(queuePath, observerPath);
+    await session(backend);
+
+    const trace = new Observer(observerPath).getTrace("osprey");
+    expect(trace.every((entry) => typeof entry.body.operator === "string")).toBe(true);
+  });
+
+  it("works against a running API", async () => {
+    const app = createApp(new Queue(queuePath), new Observer(observerPath));
+    const server = await new Promise<Server>((resolve) => {
+      const listening: Server = app.listen(0, () => resolve(listening));
+    });
+    const addr = server.address();
+    const port = addr && typeof addr === "object" ? addr.port : 0;
+
+    try {
+      await session(new RemoteBackend(`http://localhost:${port}`));
+    } finally {
+      server.close();
+    }
+  });
+
+  it("reports unknown birds and commands as CLI errors", async () => {
+    const backend = new LocalBackend(queuePath, observerPath);
+    await expect(runCommand(backend, "status", ["Dodo"])).rejects.toThrow(CliError);
+    await expect(runCommand(backend, "requeue", [])).rejects.toThrow("Usage: birds requeue <name>");
+    await expect(runCommand(backend, "frobnicate", [])).rejects.toThrow('Unknown command "frobnicate"');
+  });
+
+  it("validates submissions like the API before touching the queue", async () => {
+    const backend = new LocalBackend(queuePath, observerPath);
+    await expect(runCommand(backend, "submit", ["Osprey"], { priority: 15 })).rejects.toThrow(
+      new CliError(`request.priority must be between 0 and ${CONFIG.MAX_PRIORITY}`)
+    );
+    await expect(runCommand(backend, "submit", ["!!!"])).rejects.toThrow(/^request\.name must be a bird name/);
+    expect((await runCommand(backend, "list", [])).data).toMatchObject({ total: 0 });
+  });
+
+  it("renders tables with aligned columns and ISO timestamps", () => {
+    expect(renderTable([{ id: "osprey", createdAt: 0, lastError: undefined }, { id: "owl", extra: { a: 1 } }])).toBe(
+      [
+        "id      createdAt                 lastError  extra",
+        "------  ------------------------  ---------  -------",
+        "osprey  1970-01-01T00:00:00.000Z  -          -",
+        'owl     -                         -          {"a":1}',
+      ].join("\n")
+    );
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, afterAll } from "vitest";
+import { mkdtempSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import type { Server } from "node:http";
+import { createApp } from "../src/index.js";
+import { BirdsClient } from "../src/client/client.js";
+import {
+  ApiError,
+  NotFoundError,
+  ResearchFailedError,
+  ResearchTimeoutError,
+  ValidationError,
+} from "../src/client/errors.js";
+import { ApiKeyStore } from "../src/lib/apikeys.js";
+import { CONFIG } from "../src/lib/config.js";
+import { closeAll } from "../src/lib/db.js";
+import { Queue } from "../src/lib/queue.js";
+import { Observer } from "../src/observer/observer.js";
+
+let server: Server;
+let baseUrl: string;
+let queue: Queue;
+let client: BirdsClient;
+
+beforeEach(async () => {
+  queue = new Queue(mkdtempSync(join(tmpdir(), "client-queue-test-")));
+  const observer = new Observer(mkdtempSync(join(tmpdir(), "client-observer-test-")));
+  const apiKeys = new ApiKeyStore(mkdtempSync(join(tmpdir(), "client-keys-test-")));
+  const app = createApp(queue, observer, apiKeys);
+
+  await new Promise<void>((resolve) => {
+    server = app.listen(0, () => {
+      const addr = server.address();
+      if (addr && typeof addr === "object") {
+        baseUrl = `http://localhost:${addr.port}`;
+        client = new BirdsClient({ baseUrl, apiKey: apiKeys.createKey("test", ["admin"]).key });
+      }
+      resolve();
+    });
+  });
+});
+
+afterAll(() => {
+  server?.close();
+  closeAll();
+});
+
+/** Plays the worker: claims the next job and completes or fails it. */
+function finishNextJob(outcome: "complete" | "fail"): void {
+  const job = queue.claimJob("w-1")!;
+  if (outcome === "complete") queue.completeJob(job.id, { extract: "A bird." }, "w-1", "fixture");
+  else queue.failJob(job.id, "w-1", { kind: "permanent", message: "No page" });
+}
+
+describe("BirdsClient", () => {
+  it("submits, reads and lists bulk results with typed responses", async () => {
+    const job = await client.submit("Brown Pelican", 7);
+    expect(job).toMatchObject({ id: "brown-pelican", status: "queued" });
+
+    const results = await client.submitMany(["Osprey", { name: "Brown Pelican" }, "!!"]);
+    expect(results.map((item) => item.result)).toEqual(["created", "duplicate", "invalid"]);
+
+    expect(await client.get("brown pelican")).toMatchObject({ id: "brown-pelican", priority: 7 });
+    expect((await client.metrics()).submitted).toBe(2);
+  });
+
+  it("throws typed errors for 400 and 404", async () => {
+    const invalid = await client.submit("Owl", 99).catch((err: unknown) => err);
+    expect(invalid).toBeInstanceOf(ValidationError);
+    expect((invalid as ValidationError).issues[0]?.path).toBe("body.priority");
+
+    const missing = await client.getById("dodo").catch((err: unknown) => err);
+    expect(missing).toBeInstanceOf(NotFoundError);
+    expect((missing as NotFoundError).code).toBe("not-found");
+  });
+
+  it("throws ApiError with the problem for other statuses", async () => {
+    const anonymous = new BirdsClient({ baseUrl });
+    const err = await anonymous.metrics().catch((error: unknown) => error);
+    expect(err).toBeInstanceOf(ApiError);
+    expect(err).toMatchObject({ status: 401, code: "unauthenticated" });
+  });
+
+  describe("research", () => {
+    it("waits for the job to complete", async () => {
+      const pending = client.research("Osprey", { pollIntervalMs: 10 });
+      setTimeout(() => finishNextJob("complete"), 50);
+
+      const bird = await pending;
+      expect(bird).toMatchObject({ id: "osprey", status: "completed", body: { extract: "A bird." } });
+    });
+
+    it("returns a stored result at once, even after the job record expires", async () => {
+      await client.submit("Osprey");
+      finishNextJob("complete");
+      queue.expireTerminalJobs(Date.now() + CONFIG.TERMINAL_JOB_TTL_MS + 1);
+
+      const bird = await client.research("Osprey", { timeout: 50 });
+      expect(bird).toMatchObject({ id: "osprey", status: "completed", body: { extract: "A bird." } });
+      expect(queue.getJob("osprey")).toBeUndefined();
+    });
+
+    it("throws ResearchFailedError when the job fails", async () => {
+      const pending = client.research("Osprey", { pollIntervalMs: 10 });
+      setTimeout(() => finishNextJob("fail"), 50);
+
+      const err = await pending.catch((error: unknown) => error);
+      expect(err).toBeInstanceOf(ResearchFailedError);
+      expect((err as ResearchFailedError).bird.failureReason).toBe("permanent-error");
+    });
+
+    it("throws ResearchTimeoutError with the last status", async () => {
+      const err = await client
+        .research("Osprey", { timeout: 50, pollIntervalMs: 10 })
+        .catch((error: unknown) => error);
+      expect(err).toBeInstanceOf(ResearchTimeoutError);
+      expect((err as ResearchTimeoutError).bird.status).toBe("queued");
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach, afterAll } from "vitest";
+import { mkdtempSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { Observer } from "../src/observer/observer.js";
+import { JobEventTail } from "../src/observer/events.js";
+import { ActionType } from "../src/lib/types.js";
+import { closeAll } from "../src/lib/db.js";
+
+let observer: Observer;
+
+beforeEach(() => {
+  const dbPath = mkdtempSync(join(tmpdir(), "events-test-"));
+  observer = new Observer(dbPath);
+});
+
+afterAll(() => {
+  closeAll();
+});
+
+describe("JobEventTail", () => {
+  it("returns lifecycle transitions logged after it started, once each", () => {
+    observer.log(ActionType.JOB_SUBMITTED, "log", { jobId: "snowy-owl", name: "Snowy Owl" });
+    const tail = new JobEventTail(observer, undefined, undefined, Date.now() + 1);
+
+    observer.log(ActionType.API_REQUEST, "log", { method: "GET", path: "/bird" });
+    observer.log(ActionType.JOB_CLAIMED, "log", { jobId: "bald-eagle", name: "Bald Eagle", workerId: "w-1" });
+    observer.log(ActionType.JOB_RETRY, "warning", {
+      jobId: "bald-eagle",
+      name: "Bald Eagle",
+      workerId: "w-1",
+      retryCount: 1,
+      error: "timeout",
+    });
+
+    // Entries logged within the same millisecond as the tail started are
+    // still picked up by the next poll.
+    const events = tail.poll(Date.now() + 1);
+    expect(events.map(e => e.transition)).toEqual(["processing", "retry"]);
+    expect(events[1]!.data).toMatchObject({ jobId: "bald-eagle", status: "queued", error: "timeout" });
+
+    observer.log(ActionType.JOB_COMPLETED, "log", { jobId: "bald-eagle", name: "Bald Eagle", workerId: "w-1" });
+    expect(tail.poll().map(e => e.transition)).toEqual(["completed"]);
+    expect(tail.poll()).toHaveLength(0);
+  });
+
+  it("only follows the given job", () => {
+    const tail = new JobEventTail(observer, "bald-eagle", undefined, Date.now() - 1);
+    observer.log(ActionType.JOB_SUBMITTED, "log", { jobId: "snowy-owl", name: "Snowy Owl" });
+    observer.log(ActionType.JOB_SUBMITTED, "log", { jobId: "bald-eagle", name: "Bald Eagle" });
+
+    expect(tail.poll().map(e => e.data.jobId)).toEqual(["bald-eagle"]);
+  });
+
+  it("resumes after a Last-Event-ID", () => {
+    const start = new JobEventTail(observer, undefined, undefined, Date.now() - 1);
+    observer.log(ActionType.JOB_SUBMITTED, "log", { jobId: "bald-eagle", name: "Bald Eagle" });
+    observer.log(ActionType.JOB_CLAIMED, "log", { jobId: "bald-eagle", name: "Bald Eagle", workerId: "w-1" });
+    observer.log(ActionType.JOB_COMPLETED, "log", { jobId: "bald-eagle", name: "Bald Eagle", workerId: "w-1" });
+    const [first] = start.poll();
+
+    const resumed = new JobEventTail(observer, undefined, first!.id);
+    expect(resumed.poll().map(e => e.transition)).toEqual(["processing", "completed"]);
+  });
+
+  it("skips a lease expiry that failed the job, which logs its own job-failed", () => {
+    const tail = new JobEventTail(observer, undefined, undefined, Date.now() - 1);
+    observer.log(ActionType.JOB_LEASE_EXPIRED, "warning", {
+      jobId: "bald-eagle",
+      name: "Bald Eagle",
+      status: "failed",
+    });
+    observer.log(ActionType.JOB_FAILED, "error", { jobId: "bald-eagle", name: "Bald Eagle" });
+
+    expect(tail.poll().map(e => e.transition)).toEqual(["failed"]);
+  });
+});
@@ -1,10 +1,12 @@
 import { describe, it, expect, beforeEach, afterAll, vi } from "vitest";
 import { mkdtempSync } from "node:fs";
-import { join } from "node:path";
+import { basename, join } from "node:path";
 import { tmpdir } from "node:os";
 import { Observer } from "../src/observer/observer.js";
-import { ActionType } from "../src/lib/types.js";
-import { closeAll } from "../src/lib/db.js";
+import { ActionType, type LogType } from "../src/lib/types.js";
+import { readArchive } from "../src/observer/archive.js";
+import { closeAll, getDb } from "../src/lib/db.js";
+import { CONFIG } from "../src/lib/config.js";
 
 let observer: Observer;
 
@@ -125,6 +127,96 @@ describe("Observer", () => {
       expect(trace[2]!.body.name).toBe("Brown Pelican");
       expect(trace[2]!.body.workerId).toBe("w-1234");
     });
+
+    it("migrates entries from a database written before the named databases", () => {
+      const dbPath = mkdtempSync(join(tmpdir(), "observer-legacy-test-"));
+      const root = getDb(dbPath);
+      const now = Date.now();
+      const legacy = [
+        { action: ActionType.JOB_SUBMITTED, timestamp: now - 3000 },
+        { action: ActionType.JOB_CLAIMED, timestamp: now - 2000 },
+        { action: ActionType.JOB_COMPLETED, timestamp: now - 1000 },
+      ];
+      for (const { action, timestamp } of legacy) {
+        const id = crypto.randomUUID();
+        const key = `${String(timestamp).padStart(CONFIG.TIMESTAMP_PAD_LENGTH, "0")}-${id}`;
+        root.putSync(key, { id, timestamp, type: "log", action, body: { jobId: "osprey", workerId: "w-1" } });
+      }
+
+      const migrated = new Observer(dbPath);
+      expect(migrated.getTrace("osprey").map((entry) => entry.action)).toEqual(legacy.map((e) => e.action));
+      expect(migrated.searchLogs({ workerId: "w-1" }).entries).toHaveLength(3);
+      expect(migrated.getMetrics(60_000)).toMatchObject({ submitted: 1, completed: 1, avgProcessingTimeMs: 1000 });
+      expect(migrated.getTotals().counts[ActionType.JOB_COMPLETED]).toBe(1);
+      expect([...root.getKeys()].some((key) => typeof key === "string" && /^\d/.test(key))).toBe(false);
+
+      // Opening it again finds nothing left to migrate.
+      expect(new Observer(dbPath).getTrace("osprey")).toHaveLength(3);
+    });
+  });
+
+  describe("searchLogs", () => {
+    beforeEach(() => {
+      observer.log(ActionType.JOB_SUBMITTED, "log", { jobId: "a", name: "A" });
+      observer.log(ActionType.JOB_CLAIMED, "log", { jobId: "a", name: "A", workerId: "w-1" });
+      observer.log(ActionType.JOB_SUBMITTED, "log", { jobId: "b", name: "B" });
+      observer.log(ActionType.JOB_CLAIMED, "log", { jobId: "b", name: "B", workerId: "w-2" });
+      observer.log(ActionType.JOB_RETRY, "warning", { jobId: "a", name: "A", workerId: "w-1", retryCount: 1, nextAvailableAt: 0, error: "timeout" });
+      observer.log(ActionType.JOB_COMPLETED, "log", { jobId: "b", name: "B", workerId: "w-2" });
+    });
+
+    it("returns every entry in order without filters", () => {
+      const { entries, nextCursor } = observer.searchLogs({});
+      expect(entries.map(e => e.action)).toEqual([
+        "job-submitted",
+        "job-claimed",
+        "job-submitted",
+        "job-claimed",
+        "job-retry",
+        "job-completed",
+      ]);
+      expect(nextCursor).toBeNull();
+    });
+
+    it("filters by job, worker, action and type", () => {
+      expect(observer.searchLogs({ jobId: "a" }).entries).toHaveLength(3);
+      expect(observer.searchLogs({ workerId: "w-2" }).entries.map(e => e.action)).toEqual([
+        "job-claimed",
+        "job-completed",
+      ]);
+      expect(observer.searchLogs({ actions: ["job-submitted"] }).entries).toHaveLength(2);
+      expect(observer.searchLogs({ type: "warning" }).entries[0]!.body.jobId).toBe("a");
+      expect(observer.searchLogs({ jobId: "a", actions: ["job-claimed"], workerId: "w-1" }).entries).toHaveLength(1);
+      expect(observer.searchLogs({ jobId: "a", workerId: "w-2" }).entries).toHaveLength(0);
+    });
+
+    it("filters by time range", () => {
+      const { entries } = observer.searchLogs({});
+      const first = entries[0]!.timestamp;
+      const last = entries[entries.length - 1]!.timestamp;
+
+      expect(observer.searchLogs({ from: first, to: last }).entries).toHaveLength(6);
+      expect(observer.searchLogs({ from: last + 1 }).entries).toHaveLength(0);
+      expect(observer.searchLogs({ to: first - 1 }).entries).toHaveLength(0);
+    });
+
+    it("paginates with a cursor", () => {
+      const page1 = observer.searchLogs({ limit: 4 });
+      expect(page1.entries).toHaveLength(4);
+      expect(page1.nextCursor).not.toBeNull();
+
+      const page2 = observer.searchLogs({ limit: 4, cursor: page1.nextCursor! });
+      expect(page2.entries.map(e => e.action)).toEqual(["job-retry", "job-completed"]);
+      expect(page2.nextCursor).toBeNull();
+
+      const byJob1 = observer.searchLogs({ jobId: "b", limit: 2 });
+      const byJob2 = observer.searchLogs({ jobId: "b", limit: 2, cursor: byJob1.nextCursor! });
+      expect([...byJob1.entries, ...byJob2.entries].map(e => e.action)).toEqual([
+        "job-submitted",
+        "job-claimed",
+        "job-completed",
+      ]);
+    });
   });
 
   describe("getMetrics", () => {
@@ -168,11 +260,173 @@ describe("Observer", () => {
       expect(metrics.avgProcessingTimeMs!).toBeGreaterThanOrEqual(0);
     });
 
+    it("computes processing time percentiles", () => {
+      const start = Date.now();
+      const nowSpy = vi.spyOn(Date, "now");
+
+      for (let i = 1; i <= 100; i++) {
+        nowSpy.mockReturnValue(start);
+        observer.log(ActionType.JOB_CLAIMED, "log", { jobId: `job-${i}`, name: `Job ${i}`, workerId: "w" });
+        nowSpy.mockReturnValue(start + i * 10);
+        observer.log(ActionType.JOB_COMPLETED, "log", { jobId: `job-${i}`, name: `Job ${i}`, workerId: "w" });
+      }
+
+      const metrics = observer.getMetrics();
+      expect(metrics.avgProcessingTimeMs).toBe(505);
+      expect(metrics.p50ProcessingTimeMs).toBeGreaterThanOrEqual(250);
+      expect(metrics.p50ProcessingTimeMs).toBeLessThanOrEqual(500);
+      expect(metrics.p95ProcessingTimeMs).toBeGreaterThan(metrics.p50ProcessingTimeMs!);
+      expect(metrics.p99ProcessingTimeMs).toBeGreaterThanOrEqual(metrics.p95ProcessingTimeMs!);
+      expect(metrics.p99ProcessingTimeMs).toBeLessThanOrEqual(1000);
+
+      vi.restoreAllMocks();
+    });
+
+    it("matches raw counts for windows that start mid-bucket", () => {
+      const base = Math.floor(Date.now() / CONFIG.METRICS_BUCKET_MS) * CONFIG.METRICS_BUCKET_MS - 10 * CONFIG.METRICS_BUCKET_MS;
+      const nowSpy = vi.spyOn(Date, "now");
+
+      // One submission every 15 seconds for 10 minutes
+      const timestamps: number[] = [];
+      for (let t = base; t < base + 10 * CONFIG.METRICS_BUCKET_MS; t += 15 * 1000) {
+        nowSpy.mockReturnValue(t);
+        observer.log(ActionType.JOB_SUBMITTED, "log", { jobId: `job-${t}`, name: "Job" });
+        timestamps.push(t);
+      }
+
+      const now = base + 10 * CONFIG.METRICS_BUCKET_MS;
+      nowSpy.mockReturnValue(now);
+
+      for (const windowMs of [1000, 20 * 1000, 90 * 1000, 4.5 * 60 * 1000, 10 * 60 * 1000]) {
+        const expected = timestamps.filter(t => t >= now - windowMs).length;
+        expect(observer.getMetrics(windowMs).submitted).toBe(expected);
+      }
+
+      vi.restoreAllMocks();
+    });
+
     it("returns null avgProcessingTimeMs when no completed pairs", () => {
       observer.log(ActionType.JOB_SUBMITTED, "log", { jobId: "a", name: "A" });
 
       const metrics = observer.getMetrics();
       expect(metrics.avgProcessingTimeMs).toBeNull();
+      expect(metrics.p50ProcessingTimeMs).toBeNull();
+    });
+  });
+
+  describe("compact", () => {
+    const DAY_MS = 24 * 60 * 60 * 1000;
+    let archiveDir: string;
+
+    beforeEach(() => {
+      archiveDir = mkdtempSync(join(tmpdir(), "observer-archive-test-"));
+    });
+
+    function logAt(timestamp: number, action: ActionType, type: LogType, body: Record<string, unknown>): void {
+      const nowSpy = vi.spyOn(Date, "now").mockReturnValue(timestamp);
+      observer.log(action, type, body);
+      nowSpy.mockRestore();
+    }
+
+    it("archives entries past their retention and deletes them", async () => {
+      const now = Date.UTC(2025, 5, 30, 12);
+      logAt(now - 10 * DAY_MS, ActionType.API_REQUEST, "log", { method: "GET", path: "/bird" });
+      logAt(now - 10 * DAY_MS, ActionType.JOB_SUBMITTED, "log", { jobId: "a", name: "A" });
+      logAt(now - 40 * DAY_MS, ActionType.JOB_SUBMITTED, "log", { jobId: "b", name: "B" });
+      logAt(now - 40 * DAY_MS, ActionType.JOB_RETRY, "error", { jobId: "b", name: "B", workerId: "w-1" });
+      logAt(now - 1 * DAY_MS, ActionType.API_REQUEST, "log", { method: "GET", path: "/metrics" });
+
+      const result = await observer.compact({ now, archiveDir });
+      expect(result.archived).toBe(2);
+      expect(result.files.map(f => basename(f)).sort()).toEqual([
+        "observer-2025-05-21.ndjson.gz",
+        "observer-2025-06-20.ndjson.gz",
+      ]);
+
+      const remaining = observer.searchLogs({}).entries.map(e => `${e.action}:${e.type}`);
+      expect(remaining).toEqual(["job-retry:error", "job-submitted:log", "api-request:log"]);
+      expect(observer.getTrace("b").map(e => e.action)).toEqual(["job-retry"]);
+
+      const archived = await readArchive(join(archiveDir, "observer-2025-05-21.ndjson.gz"));
+      expect(archived.map(r => r.entry.body.jobId)).toEqual(["b"]);
+    });
+
+    it("appends to an existing day archive and restores entries from it", async () => {
+      const now = Date.UTC(2025, 5, 30, 12);
+      logAt(now - 40 * DAY_MS, ActionType.JOB_SUBMITTED, "log", { jobId: "b", name: "B" });
+      await observer.compact({ now, archiveDir });
+      logAt(now - 40 * DAY_MS + 1000, ActionType.JOB_CLAIMED, "log", { jobId: "b", name: "B", workerId: "w-1" });
+      await observer.compact({ now, archiveDir });
+
+      expect(observer.getTrace("b")).toHaveLength(0);
+
+      const path = join(archiveDir, "observer-2025-05-21.ndjson.gz");
+      expect(await observer.restoreArchive(path)).toBe(2);
+      expect(await observer.restoreArchive(path)).toBe(0);
+
+      expect(observer.getTrace("b").map(e => e.action)).toEqual(["job-submitted", "job-claimed"]);
+      expect(observer.searchLogs({ workerId: "w-1" }).entries).toHaveLength(1);
+    });
+
+    it("deletes restored entries again without archiving them twice", async () => {
+      const now = Date.UTC(2025, 5, 30, 12);
+      logAt(now - 40 * DAY_MS, ActionType.JOB_SUBMITTED, "log", { jobId: "b", name: "B" });
+      await observer.compact({ now, archiveDir });
+
+      const path = join(archiveDir, "observer-2025-05-21.ndjson.gz");
+      expect(await observer.restoreArchive(path)).toBe(1);
+      expect(await observer.compact({ now, archiveDir })).toEqual({ archived: 1, files: [] });
+
+      expect(observer.getTrace("b")).toHaveLength(0);
+      expect(await readArchive(path)).toHaveLength(1);
+    });
+
+    it("only reads entries whose own retention has been reached", async () => {
+      const dbPath = mkdtempSync(join(tmpdir(), "observer-compact-test-"));
+      const compacting = new Observer(dbPath);
+      const now = Date.UTC(2025, 5, 30, 12);
+      for (const jobId of ["a", "b", "c"]) {
+        const nowSpy = vi.spyOn(Date, "now").mockReturnValue(now - 10 * DAY_MS);
+        compacting.log(ActionType.JOB_SUBMITTED, "log", { jobId, name: jobId });
+        compacting.log(ActionType.API_REQUEST, "log", { method: "POST", path: "/bird" });
+        nowSpy.mockRestore();
+      }
+
+      const reads = vi.spyOn(Object.getPrototypeOf(getDb(dbPath)), "get");
+      expect((await compacting.compact({ now, archiveDir })).archived).toBe(3);
+      const logReads = reads.mock.calls.filter(([key]) => typeof key === "string" && /^\d+-\d+-/.test(key));
+      reads.mockRestore();
+
+      expect(logReads).toHaveLength(3);
+      expect(compacting.searchLogs({ actions: [ActionType.API_REQUEST] }).entries).toHaveLength(0);
+      expect(compacting.searchLogs({}).entries).toHaveLength(3);
+    });
+
+    it("indexes entries logged before the retention index existed", async () => {
+      const dbPath = mkdtempSync(join(tmpdir(), "observer-backfill-test-"));
+      const now = Date.UTC(2025, 5, 30, 12);
+      const nowSpy = vi.spyOn(Date, "now").mockReturnValue(now - 40 * DAY_MS);
+      new Observer(dbPath).log(ActionType.JOB_SUBMITTED, "log", { jobId: "b", name: "B" });
+      nowSpy.mockRestore();
+      getDb(dbPath).openDB("logs-by-retention", { encoding: "string" }).clearSync();
+
+      const reopened = new Observer(dbPath);
+      expect((await reopened.compact({ now, archiveDir })).archived).toBe(1);
+      expect(reopened.getTrace("b")).toHaveLength(0);
+    });
+
+    it("forgets workers that have been gone for WORKER_RETENTION_MS", async () => {
+      const now = Date.UTC(2025, 5, 30, 12);
+      observer.recordWorkerHeartbeat("w-gone", now - CONFIG.WORKER_RETENTION_MS - 1);
+      observer.recordWorkerHeartbeat("w-live", now - CONFIG.WORKER_RETENTION_MS);
+      for (const workerId of ["w-gone", "w-live"]) {
+        logAt(now - DAY_MS, ActionType.JOB_RETRY, "warning", { jobId: "b", name: "B", workerId });
+      }
+
+      await observer.compact({ now, archiveDir });
+      expect(observer.getTotals().retriesByWorker).toEqual({ "w-live": 1 });
+      expect(observer.countLiveWorkers(0)).toBe(1);
+      expect(observer.getTotals().counts[ActionType.JOB_RETRY]).toBe(2);
     });
   });
 
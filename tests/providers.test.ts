@@ -0,0 +1,304 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtempSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { type ResearchJob } from "../src/lib/types.js";
+import { CONFIG } from "../src/lib/config.js";
+import { type ResearchProvider } from "../src/providers/provider.js";
+import { WikipediaProvider } from "../src/providers/wikipedia.js";
+import { FixtureProvider } from "../src/providers/fixture.js";
+import { CompositeProvider } from "../src/providers/composite.js";
+import { createProvider } from "../src/providers/registry.js";
+import { RESEARCH_SCHEMA_VERSION, validateResearch } from "../src/providers/research.js";
+import {
+  classifyError,
+  InvalidResearchError,
+  PermanentError,
+  RateLimitedError,
+  retryAtFromHeader,
+  TransientError,
+} from "../src/providers/errors.js";
+
+// Responses from the Wikipedia API's action=query, in the shape the provider asks for.
+const FIXTURES = join(import.meta.dirname, "fixtures", "wikipedia");
+
+function makeJob(name: string): ResearchJob {
+  return {
+    id: name.toLowerCase().replace(/\s+/g, "-"),
+    name,
+    createdAt: Date.now(),
+    availableForProcessingAt: Date.now(),
+    retryCount: 0,
+    priority: 5,
+    status: "processing",
+    body: {},
+  };
+}
+
+function stubProvider(name: string, result: Record<string, unknown> | Error): ResearchProvider {
+  return {
+    name,
+    research: async () => {
+      if (result instanceof Error) throw result;
+      return result;
+    },
+  };
+}
+
+describe("providers", () => {
+  describe("WikipediaProvider", () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    function respondWith(fixture: string): void {
+      const data = JSON.parse(readFileSync(join(FIXTURES, `${fixture}.json`), "utf8"));
+      vi.stubGlobal("fetch", vi.fn().mockResolvedValue({ ok: true, json: async () => data }));
+    }
+
+    it("extracts structured research from a page", async () => {
+      respondWith("osprey");
+      const before = Date.now();
+
+      const body = await new WikipediaProvider().research(makeJob("Osprey"));
+      expect(body).toMatchObject({
+        schemaVersion: RESEARCH_SCHEMA_VERSION,
+        canonicalTitle: "Osprey",
+        scientificName: "Pandion haliaetus",
+        sourceUrl: "https://en.wikipedia.org/wiki/Osprey",
+        revisionId: 1221783412,
+      });
+      expect(body.summary).toMatch(/^The osprey \(; Pandion haliaetus\)/);
+      expect(body.fetchedAt).toBeGreaterThanOrEqual(before);
+      expect(validateResearch(body)).toEqual(body);
+    });
+
+    it("reports the canonical page title after redirects", async () => {
+      respondWith("pelecanus-occidentalis");
+
+      const body = await new WikipediaProvider().research(makeJob("Pelecanus occidentalis"));
+      expect(body).toMatchObject({
+        canonicalTitle: "Brown pelican",
+        scientificName: "Pelecanus occidentalis",
+        sourceUrl: "https://en.wikipedia.org/wiki/Brown_pelican",
+      });
+    });
+
+    it("leaves out the scientific name when the introduction has none", async () => {
+      respondWith("bird");
+
+      const body = await new WikipediaProvider().research(makeJob("Bird"));
+      expect(body).not.toHaveProperty("scientificName");
+      expect(() => validateResearch(body)).not.toThrow();
+    });
+
+    it("throws when the page is missing", async () => {
+      respondWith("missing");
+
+      const error = await new WikipediaProvider()
+        .research(makeJob("Purple spotted dodo"))
+        .catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(PermanentError);
+      expect((error as Error).message).toBe('No Wikipedia page found for "Purple spotted dodo"');
+    });
+
+    it("treats server errors as transient and other client errors as permanent", async () => {
+      vi.stubGlobal("fetch", vi.fn().mockResolvedValue({ ok: false, status: 503 }));
+      await expect(new WikipediaProvider().research(makeJob("Bald Eagle"))).rejects.toBeInstanceOf(
+        TransientError
+      );
+
+      vi.stubGlobal("fetch", vi.fn().mockResolvedValue({ ok: false, status: 400 }));
+      await expect(new WikipediaProvider().research(makeJob("Bald Eagle"))).rejects.toBeInstanceOf(
+        PermanentError
+      );
+    });
+  });
+
+  describe("research schema", () => {
+    const research = {
+      schemaVersion: RESEARCH_SCHEMA_VERSION,
+      canonicalTitle: "Brown pelican",
+      scientificName: "Pelecanus occidentalis",
+      summary: "The brown pelican is a bird of the pelican family.",
+      sourceUrl: "https://en.wikipedia.org/wiki/Brown_pelican",
+      revisionId: 1219954107,
+      fetchedAt: 1714300000000,
+    };
+
+    it("accepts research with every field", () => {
+      expect(validateResearch(research)).toEqual(research);
+    });
+
+    it("rejects missing fields, unknown fields and other versions as permanent errors", () => {
+      const { revisionId, ...withoutRevision } = research;
+      const error = (() => {
+        try {
+          validateResearch({ ...withoutRevision, schemaVersion: 2, research: "Some text" });
+        } catch (err) {
+          return err;
+        }
+      })();
+
+      expect(error).toBeInstanceOf(InvalidResearchError);
+      expect(classifyError(error)).toBe("permanent");
+      expect((error as Error).message).toContain("research.revisionId");
+      expect((error as Error).message).toContain("research.schemaVersion");
+      expect((error as Error).message).toContain("research.research");
+    });
+
+    it("checks the scientific name and source URL", () => {
+      expect(() => validateResearch({ ...research, scientificName: "listen" })).toThrow(
+        "research.scientificName must be a binomial or trinomial name"
+      );
+      expect(() => validateResearch({ ...research, sourceUrl: "wiki/Brown_pelican" })).toThrow(
+        "research.sourceUrl must be an http(s) URL"
+      );
+    });
+  });
+
+  describe("classifyError", () => {
+    it("maps typed errors to their kind and anything else to transient", () => {
+      expect(classifyError(new PermanentError("gone"))).toBe("permanent");
+      expect(classifyError(new RateLimitedError("slow down", 0))).toBe("rate-limited");
+      expect(classifyError(new TransientError("503"))).toBe("transient");
+      expect(classifyError(new TypeError("fetch failed"))).toBe("transient");
+      expect(classifyError("weird")).toBe("transient");
+    });
+  });
+
+  describe("rate limiting", () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it("throws a RateLimitedError honoring Retry-After on a 429", async () => {
+      vi.stubGlobal("fetch", vi.fn().mockResolvedValue({
+        ok: false,
+        status: 429,
+        headers: new Headers({ "Retry-After": "120" }),
+      }));
+
+      const before = Date.now();
+      const error = await new WikipediaProvider().research(makeJob("Brown Pelican")).catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(RateLimitedError);
+      expect((error as RateLimitedError).retryAt).toBeGreaterThanOrEqual(before + 120_000);
+    });
+
+    it("reads Retry-After as seconds or an HTTP date", () => {
+      const now = Date.parse("2025-05-21T12:00:00Z");
+      expect(retryAtFromHeader("5", now)).toBe(now + 5000);
+      expect(retryAtFromHeader("Wed, 21 May 2025 12:01:00 GMT", now)).toBe(now + 60_000);
+      expect(retryAtFromHeader(null, now)).toBe(now + CONFIG.RETRY_POLICIES["rate-limited"].baseDelayMs);
+      expect(retryAtFromHeader("soon", now)).toBe(now + CONFIG.RETRY_POLICIES["rate-limited"].baseDelayMs);
+    });
+  });
+
+  describe("FixtureProvider", () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), "fixture-test-"));
+    });
+
+    it("reads records from JSON files", async () => {
+      writeFileSync(
+        join(dir, "birds.json"),
+        JSON.stringify([{ name: "Brown Pelican", research: "A large bird." }])
+      );
+
+      const body = await new FixtureProvider(dir).research(makeJob("Brown Pelican"));
+      expect(body).toEqual({ research: "A large bird." });
+    });
+
+    it("reads records from NDJSON files", async () => {
+      writeFileSync(
+        join(dir, "birds.ndjson"),
+        [
+          JSON.stringify({ name: "Bald Eagle", research: "A bird of prey." }),
+          "",
+          JSON.stringify({ name: "Snowy Owl", research: "A white owl." }),
+        ].join("\n")
+      );
+
+      const provider = new FixtureProvider(dir);
+      expect(await provider.research(makeJob("Bald Eagle"))).toEqual({ research: "A bird of prey." });
+      expect(await provider.research(makeJob("Snowy Owl"))).toEqual({ research: "A white owl." });
+    });
+
+    it("throws when no fixture matches", async () => {
+      writeFileSync(join(dir, "bird.json"), JSON.stringify({ name: "Bald Eagle", research: "x" }));
+
+      await expect(new FixtureProvider(dir).research(makeJob("Brown Pelican"))).rejects.toThrow(
+        'No fixture found for "Brown Pelican"'
+      );
+    });
+  });
+
+  describe("CompositeProvider", () => {
+    it("records which provider produced the result", async () => {
+      const composite = new CompositeProvider([
+        stubProvider("first", new Error("offline")),
+        stubProvider("second", { research: "from second" }),
+        stubProvider("third", { research: "from third" }),
+      ]);
+
+      const body = await composite.research(makeJob("Brown Pelican"));
+      expect(body).toEqual({ research: "from second", provider: "second" });
+    });
+
+    it("throws with every provider's error when all fail", async () => {
+      const composite = new CompositeProvider([
+        stubProvider("first", new Error("offline")),
+        stubProvider("second", new Error("not found")),
+      ]);
+
+      await expect(composite.research(makeJob("Brown Pelican"))).rejects.toThrow(
+        "All research providers failed (first: offline; second: not found)"
+      );
+    });
+
+    it("fails permanently only when every provider failed permanently", async () => {
+      const permanent = new CompositeProvider([
+        stubProvider("first", new PermanentError("not found")),
+        stubProvider("second", new PermanentError("not found")),
+      ]);
+      const mixed = new CompositeProvider([
+        stubProvider("first", new PermanentError("not found")),
+        stubProvider("second", new Error("offline")),
+      ]);
+
+      const permanentError = await permanent.research(makeJob("Brown Pelican")).catch((e: unknown) => e);
+      const mixedError = await mixed.research(makeJob("Brown Pelican")).catch((e: unknown) => e);
+      expect(classifyError(permanentError)).toBe("permanent");
+      expect(classifyError(mixedError)).toBe("transient");
+    });
+  });
+
+  describe("CompositeProvider rate limiting", () => {
+    it("is rate limited when every provider failed and one was rate limited", async () => {
+      const composite = new CompositeProvider([
+        stubProvider("first", new RateLimitedError("slow down", 5000)),
+        stubProvider("second", new Error("offline")),
+      ]);
+
+      const error = await composite.research(makeJob("Brown Pelican")).catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(RateLimitedError);
+      expect((error as RateLimitedError).retryAt).toBe(5000);
+    });
+  });
+
+  describe("createProvider", () => {
+    it("returns a single provider directly", () => {
+      expect(createProvider(["wikipedia"]).name).toBe("wikipedia");
+    });
+
+    it("wraps several providers in a composite", () => {
+      expect(createProvider(["fixture", "wikipedia"]).name).toBe("composite");
+    });
+
+    it("rejects unknown provider names", () => {
+      expect(() => createProvider(["carrier-pigeon"])).toThrow('Unknown research provider "carrier-pigeon"');
+    });
+  });
+});
@@ -1,14 +1,18 @@
-import { describe, it, expect, beforeEach, afterAll } from "vitest";
+import { describe, it, expect, beforeEach, afterAll, vi } from "vitest";
 import { mkdtempSync } from "node:fs";
 import { join } from "node:path";
 import { tmpdir } from "node:os";
-import { Queue } from "../src/lib/queue.js";
-import { closeAll } from "../src/lib/db.js";
+import { InvalidJobNameError, Queue } from "../src/lib/queue.js";
+import { closeAll, getDb } from "../src/lib/db.js";
+import { CONFIG } from "../src/lib/config.js";
+import { refreshInterval } from "../src/lib/refresh.js";
+import { toJobId } from "../src/lib/types.js";
 
 let queue: Queue;
+let dbPath: string;
 
 beforeEach(() => {
-  const dbPath = mkdtempSync(join(tmpdir(), "queue-test-"));
+  dbPath = mkdtempSync(join(tmpdir(), "queue-test-"));
   queue = new Queue(dbPath);
 });
 
@@ -48,6 +52,108 @@ describe("Queue", () => {
     });
   });
 
+  describe("name normalization", () => {
+    it("treats names differing in case, accents, punctuation or spacing as one bird", () => {
+      expect(toJobId("Brown Pelican")).toBe("brown-pelican");
+      expect(toJobId("brown-pelican")).toBe("brown-pelican");
+      expect(toJobId("  Brown  pelican! ")).toBe("brown-pelican");
+      expect(toJobId("Wilson\u2019s Warbler")).toBe("wilsons-warbler");
+      expect(toJobId("Chev\u00eache d\u2019Ath\u00e9na")).toBe("cheveche-dathena");
+      expect(toJobId("!!!")).toBe("");
+
+      queue.submitJob({ name: "Brown Pelican" });
+      expect(queue.submitJob({ name: "Brown pelican!" }).isDuplicate).toBe(true);
+    });
+
+    it("keeps the marks that tell names in other scripts apart", () => {
+      expect(toJobId("\u30ac\u30f3")).toBe("\u30ac\u30f3");
+      expect(toJobId("\u30ab\u30f3")).toBe("\u30ab\u30f3");
+      // The same name typed decomposed is still the same bird.
+      expect(toJobId("\u30ab\u3099\u30f3")).toBe("\u30ac\u30f3");
+      expect(toJobId("\u0939\u0902\u0938")).toBe("\u0939\u0902\u0938");
+
+      queue.submitJob({ name: "\u30ac\u30f3" });
+      expect(queue.submitJob({ name: "\u30ab\u30f3" }).isDuplicate).toBe(false);
+    });
+
+    it("rejects names that don't make a job ID it can store", () => {
+      expect(() => queue.submitJob({ name: "!!!" })).toThrow("has no letters or digits");
+      expect(() => queue.submitJob({ name: "\uFDFA".repeat(CONFIG.MAX_NAME_LENGTH) })).toThrow(InvalidJobNameError);
+      expect(queue.listJobs()).toEqual([]);
+    });
+  });
+
+  describe("aliases", () => {
+    it("resolves the canonical title to the job that reported it", () => {
+      queue.submitJob({ name: "Pelecanus occidentalis" });
+      queue.claimJob("w-1234");
+      queue.completeJob("pelecanus-occidentalis", { research: "x" }, "w-1234", "wikipedia", "Brown pelican");
+
+      expect(queue.resolveJobId("brown-pelican")).toBe("pelecanus-occidentalis");
+      const { job, isDuplicate } = queue.submitJob({ name: "Brown Pelican" });
+      expect(isDuplicate).toBe(true);
+      expect(job.id).toBe("pelecanus-occidentalis");
+    });
+
+    it("aliases a job to the job that already owns its canonical title", () => {
+      queue.submitJob({ name: "Brown Pelican" });
+      queue.submitJob({ name: "Pelecanus occidentalis" });
+      queue.claimJob("w-1234");
+      queue.claimJob("w-5678");
+      queue.completeJob("pelecanus-occidentalis", { research: "x" }, "w-5678", "wikipedia", "Brown pelican");
+
+      expect(queue.resolveJobId("pelecanus-occidentalis")).toBe("brown-pelican");
+      expect(queue.resolveJobId("brown-pelican")).toBe("brown-pelican");
+    });
+
+    it("recreates an expired canonical job under its own name", () => {
+      queue.submitJob({ name: "Brown Pelican" });
+      queue.claimJob("w-1234");
+      queue.completeJob("brown-pelican", { research: "x" }, "w-1234", "wikipedia", "Brown pelican");
+      queue.submitJob({ name: "Pelecanus occidentalis" });
+      queue.claimJob("w-1234");
+      queue.completeJob("pelecanus-occidentalis", { research: "x" }, "w-1234", "wikipedia", "Brown pelican");
+      queue.expireTerminalJobs(Date.now() + CONFIG.TERMINAL_JOB_TTL_MS + 1);
+
+      const { job } = queue.submitJob({ name: "Pelecanus occidentalis" });
+      expect(job).toMatchObject({ id: "brown-pelican", name: "Brown Pelican", status: "queued" });
+    });
+  });
+
+  describe("submitJobs", () => {
+    it("reports the outcome of each request", () => {
+      queue.submitJob({ name: "Brown Pelican" });
+      queue.submitJob({ name: "Snowy Owl" });
+      queue.failJob("snowy-owl");
+
+      const results = queue.submitJobs([
+        { name: "Brown Pelican" },
+        { name: "Bald Eagle" },
+        { name: "Snowy Owl" },
+        { name: "Bald Eagle" },
+      ]);
+
+      expect(results.map(r => r.outcome)).toEqual(["duplicate", "created", "requeued", "duplicate"]);
+      expect(results[1]).toMatchObject({ job: { id: "bald-eagle" } });
+      expect(results[2]).toMatchObject({ job: { status: "queued" } });
+    });
+
+    it("reports a name that doesn't make a storable job ID without failing the batch", () => {
+      const results = queue.submitJobs([{ name: "\uFDFA".repeat(CONFIG.MAX_NAME_LENGTH) }, { name: "Osprey" }]);
+
+      expect(results.map(r => r.outcome)).toEqual(["invalid", "created"]);
+      expect(queue.getJob("osprey")!.status).toBe("queued");
+    });
+
+    it("makes every created job claimable", () => {
+      queue.submitJobs([{ name: "Brown Pelican" }, { name: "Bald Eagle" }]);
+
+      const claimed = [queue.claimJob()!.id, queue.claimJob()!.id].sort();
+      expect(claimed).toEqual(["bald-eagle", "brown-pelican"]);
+      expect(queue.claimJob()).toBeUndefined();
+    });
+  });
+
   describe("claimJob", () => {
     it("claims the next available job", () => {
       queue.submitJob({ name: "Brown Pelican" });
@@ -73,6 +179,25 @@ describe("Queue", () => {
       expect(job).toBeUndefined();
     });
 
+    it("only reads when an idle worker polls with nothing to do", () => {
+      queue.submitJob({ name: "Brown Pelican" });
+      queue.claimJob("w-1");
+      queue.retryJob("brown-pelican", Date.now() + 60000);
+      queue.submitJob({ name: "Osprey" });
+      queue.claimJob("w-1");
+      queue.completeJob("osprey", {}, "w-1");
+
+      const transactions = vi.spyOn(Object.getPrototypeOf(getDb(dbPath)), "transactionSync");
+      try {
+        expect(queue.reapExpiredLeases()).toEqual([]);
+        expect(queue.expireTerminalJobs()).toEqual([]);
+        expect(queue.claimJob("w-1")).toBeUndefined();
+        expect(transactions).not.toHaveBeenCalled();
+      } finally {
+        transactions.mockRestore();
+      }
+    });
+
     it("does not allow double-claiming", () => {
       queue.submitJob({ name: "Brown Pelican" });
 
@@ -84,6 +209,90 @@ describe("Queue", () => {
     });
   });
 
+  describe("leases", () => {
+    it("records the claiming worker and lease expiry", () => {
+      queue.submitJob({ name: "Brown Pelican" });
+
+      const before = Date.now();
+      const job = queue.claimJob("w-1234", 5000);
+
+      expect(job!.lease).toBeDefined();
+      expect(job!.lease!.workerId).toBe("w-1234");
+      expect(job!.lease!.expiresAt).toBeGreaterThanOrEqual(before + 5000);
+    });
+
+    it("extends the lease on heartbeat", () => {
+      queue.submitJob({ name: "Brown Pelican" });
+      const claimed = queue.claimJob("w-1234", 1000);
+
+      const renewed = queue.heartbeatJob("brown-pelican", "w-1234", 60000);
+      expect(renewed).toBeDefined();
+      expect(renewed!.lease!.expiresAt).toBeGreaterThan(claimed!.lease!.expiresAt);
+
+      // The old lease expiry no longer triggers a reap
+      expect(queue.reapExpiredLeases(claimed!.lease!.expiresAt + 1)).toHaveLength(0);
+    });
+
+    it("rejects a heartbeat from a worker that does not hold the lease", () => {
+      queue.submitJob({ name: "Brown Pelican" });
+      queue.claimJob("w-1234");
+
+      expect(queue.heartbeatJob("brown-pelican", "w-5678")).toBeUndefined();
+    });
+
+    it("requeues a job with an expired lease and counts the attempt", () => {
+      queue.submitJob({ name: "Brown Pelican" });
+      const claimed = queue.claimJob("w-1234", 1000);
+
+      const reaped = queue.reapExpiredLeases(claimed!.lease!.expiresAt + 1);
+      expect(reaped).toHaveLength(1);
+      expect(reaped[0]!.previousWorkerId).toBe("w-1234");
+      expect(reaped[0]!.job.status).toBe("queued");
+      expect(reaped[0]!.job.retryCount).toBe(1);
+      expect(reaped[0]!.job.lease).toBeUndefined();
+
+      const reclaimed = queue.claimJob("w-5678");
+      expect(reclaimed!.id).toBe("brown-pelican");
+    });
+
+    it("does not reap leases that have not expired", () => {
+      queue.submitJob({ name: "Brown Pelican" });
+      queue.claimJob("w-1234", 60000);
+
+      expect(queue.reapExpiredLeases()).toHaveLength(0);
+      expect(queue.getJob("brown-pelican")!.status).toBe("processing");
+    });
+
+    it("fails a reaped job that has exhausted its retries", () => {
+      queue.submitJob({ name: "Brown Pelican" });
+      for (let i = 0; i < CONFIG.RETRY_POLICIES.transient.maxRetries; i++) {
+        queue.claimJob();
+        queue.retryJob("brown-pelican", Date.now());
+      }
+      const claimed = queue.claimJob("w-1234", 1000);
+
+      const reaped = queue.reapExpiredLeases(claimed!.lease!.expiresAt + 1);
+      expect(reaped[0]!.job.status).toBe("failed");
+      expect(reaped[0]!.job.failureReason).toBe("retries-exhausted");
+      expect(queue.claimJob()).toBeUndefined();
+    });
+
+    it("ignores updates from a worker whose lease was reaped", () => {
+      queue.submitJob({ name: "Brown Pelican" });
+      const claimed = queue.claimJob("w-1234", 1000);
+      queue.reapExpiredLeases(claimed!.lease!.expiresAt + 1);
+      queue.claimJob("w-5678");
+
+      expect(queue.completeJob("brown-pelican", { research: "stale" }, "w-1234")).toBeUndefined();
+      expect(queue.retryJob("brown-pelican", Date.now(), "w-1234")).toBeUndefined();
+      expect(queue.failJob("brown-pelican", "w-1234")).toBeUndefined();
+
+      const job = queue.completeJob("brown-pelican", { research: "fresh" }, "w-5678");
+      expect(job!.status).toBe("completed");
+      expect(job!.lease).toBeUndefined();
+    });
+  });
+
   describe("queueIndex ordering", () => {
     it("claims jobs in submission order", () => {
       queue.submitJob({ name: "Brown Pelican" });
@@ -144,6 +353,146 @@ describe("Queue", () => {
     });
   });
 
+  describe("priority lanes", () => {
+    it("stores the default priority when none is given", () => {
+      const { job } = queue.submitJob({ name: "Brown Pelican" });
+      expect(job.priority).toBe(CONFIG.DEFAULT_PRIORITY);
+    });
+
+    it("claims higher priority jobs first", () => {
+      queue.submitJob({ name: "Brown Pelican", priority: 1 });
+      queue.submitJob({ name: "Bald Eagle" });
+      queue.submitJob({ name: "Snowy Owl", priority: 9 });
+
+      expect(queue.claimJob()!.id).toBe("snowy-owl");
+      expect(queue.claimJob()!.id).toBe("bald-eagle");
+      expect(queue.claimJob()!.id).toBe("brown-pelican");
+      expect(queue.claimJob()).toBeUndefined();
+    });
+
+    it("does not claim a high priority job before its availability time", () => {
+      queue.submitJob({ name: "Snowy Owl", priority: 9 });
+      queue.claimJob();
+      queue.retryJob("snowy-owl", Date.now() + 60000);
+
+      queue.submitJob({ name: "Brown Pelican", priority: 0 });
+
+      expect(queue.claimJob()!.id).toBe("brown-pelican");
+      expect(queue.claimJob()).toBeUndefined();
+    });
+
+    it("keeps a job's priority across retries", () => {
+      queue.submitJob({ name: "Snowy Owl", priority: 9 });
+      queue.claimJob();
+      queue.retryJob("snowy-owl", Date.now() - 1);
+
+      queue.submitJob({ name: "Brown Pelican" });
+
+      const claimed = queue.claimJob();
+      expect(claimed!.id).toBe("snowy-owl");
+      expect(claimed!.priority).toBe(9);
+    });
+
+    it("keeps every priority within the lanes claimJob looks at", () => {
+      const cases: Array<[string, number, number]> = [
+        ["Osprey", 0, 0],
+        ["Snowy Owl", CONFIG.MAX_PRIORITY, CONFIG.MAX_PRIORITY],
+        ["Bald Eagle", CONFIG.MAX_PRIORITY + 6, CONFIG.MAX_PRIORITY],
+        ["Brown Pelican", -3, 0],
+        ["Mallard", 2.5, 2],
+      ];
+      for (const [name, priority, expected] of cases) {
+        expect(queue.submitJob({ name, priority }).job.priority).toBe(expected);
+      }
+
+      expect(queue.getQueueIndex().map(({ jobId, priority }) => [jobId, priority])).toEqual([
+        ["snowy-owl", CONFIG.MAX_PRIORITY],
+        ["bald-eagle", CONFIG.MAX_PRIORITY],
+        ["mallard", 2],
+        ["osprey", 0],
+        ["brown-pelican", 0],
+      ]);
+      for (let i = 0; i < cases.length; i++) expect(queue.claimJob()).toBeDefined();
+      expect(queue.claimJob()).toBeUndefined();
+    });
+
+    it("ages low priority jobs so they are not starved", () => {
+      const start = Date.now();
+      const nowSpy = vi.spyOn(Date, "now").mockReturnValue(start);
+      queue.submitJob({ name: "Brown Pelican", priority: 0 });
+
+      nowSpy.mockReturnValue(start + 6 * CONFIG.PRIORITY_AGING_MS);
+      queue.submitJob({ name: "Snowy Owl", priority: 5 });
+
+      expect(queue.claimJob()!.id).toBe("brown-pelican");
+      expect(queue.claimJob()!.id).toBe("snowy-owl");
+
+      vi.restoreAllMocks();
+    });
+  });
+
+  describe("getStatusCounts", () => {
+    it("counts jobs by status", () => {
+      queue.submitJob({ name: "Brown Pelican" });
+      queue.submitJob({ name: "Bald Eagle" });
+      queue.submitJob({ name: "Snowy Owl" });
+      queue.claimJob();
+      queue.cancelJob("snowy-owl");
+
+      expect(queue.getStatusCounts()).toEqual({
+        queued: 1,
+        processing: 1,
+        completed: 0,
+        failed: 0,
+        cancelled: 1,
+      });
+    });
+  });
+
+  describe("getOldestAvailableAt", () => {
+    it("returns the earliest availability across lanes, ignoring future retries", () => {
+      const { job: low } = queue.submitJob({ name: "Brown Pelican", priority: 0 });
+      queue.submitJob({ name: "Bald Eagle", priority: 9 });
+      queue.claimJob();
+      queue.retryJob("bald-eagle", Date.now() + 60000);
+
+      expect(queue.getOldestAvailableAt()).toBe(low.availableForProcessingAt);
+    });
+
+    it("returns undefined when nothing is available", () => {
+      expect(queue.getOldestAvailableAt()).toBeUndefined();
+    });
+  });
+
+  describe("getNextAvailableAt", () => {
+    it("includes future-dated retries", () => {
+      const future = Date.now() + 5000;
+      queue.submitJob({ name: "Brown Pelican" });
+      queue.claimJob();
+      queue.retryJob("brown-pelican", future);
+
+      expect(queue.getNextAvailableAt()).toBe(future);
+      expect(queue.getOldestAvailableAt()).toBeUndefined();
+    });
+  });
+
+  describe("waitForWork", () => {
+    it("resolves when a job is submitted", async () => {
+      const woken = queue.waitForWork(60_000);
+      queue.submitJob({ name: "Brown Pelican" });
+      await woken;
+    });
+
+    it("resolves when a job is requeued for retry", async () => {
+      queue.submitJob({ name: "Brown Pelican" });
+      queue.claimJob();
+
+      const woken = queue.waitForWork(60_000);
+      queue.retryJob("brown-pelican", Date.now() + 5000);
+      await woken;
+    });
+  });
+
   describe("completeJob", () => {
     it("marks a job as completed with body", () => {
       queue.submitJob({ name: "Brown Pelican" });
@@ -154,6 +503,71 @@ describe("Queue", () => {
       expect(job!.status).toBe("completed");
       expect(job!.body).toEqual({ research: "Some text" });
     });
+
+    it("stores the research in the results store", () => {
+      queue.submitJob({ name: "Brown Pelican" });
+      queue.claimJob("w-1234");
+      queue.completeJob("brown-pelican", { research: "Some text" }, "w-1234", "wikipedia");
+
+      const result = queue.getResult("brown-pelican");
+      expect(result).toMatchObject({
+        id: "brown-pelican",
+        name: "Brown Pelican",
+        body: { research: "Some text" },
+        source: "wikipedia",
+        sizeBytes: JSON.stringify({ research: "Some text" }).length,
+      });
+      expect(result!.fetchedAt).toBeLessThanOrEqual(Date.now());
+    });
+
+    it("does not store a result for a rejected completion", () => {
+      queue.submitJob({ name: "Brown Pelican" });
+      queue.claimJob("w-1234");
+
+      expect(queue.completeJob("brown-pelican", { research: "x" }, "w-5678")).toBeUndefined();
+      expect(queue.getResult("brown-pelican")).toBeUndefined();
+    });
+  });
+
+  describe("expireTerminalJobs", () => {
+    it("removes terminal records past their TTL but keeps results", () => {
+      queue.submitJob({ name: "Brown Pelican" });
+      queue.claimJob();
+      queue.completeJob("brown-pelican", { research: "Some text" });
+      queue.submitJob({ name: "Snowy Owl" });
+      queue.cancelJob("snowy-owl");
+      queue.submitJob({ name: "Bald Eagle" });
+
+      expect(queue.expireTerminalJobs()).toHaveLength(0);
+
+      const expired = queue.expireTerminalJobs(Date.now() + CONFIG.TERMINAL_JOB_TTL_MS + 1);
+      expect(expired.map(j => j.id).sort()).toEqual(["brown-pelican", "snowy-owl"]);
+      expect(queue.getJob("brown-pelican")).toBeUndefined();
+      expect(queue.getJob("bald-eagle")!.status).toBe("queued");
+      expect(queue.getResult("brown-pelican")!.body).toEqual({ research: "Some text" });
+    });
+
+    it("does not expire a job that was requeued after reaching a terminal state", () => {
+      queue.submitJob({ name: "Brown Pelican" });
+      queue.failJob("brown-pelican");
+      queue.submitJob({ name: "Brown Pelican" });
+
+      expect(queue.expireTerminalJobs(Date.now() + CONFIG.TERMINAL_JOB_TTL_MS + 1)).toHaveLength(0);
+      expect(queue.getJob("brown-pelican")!.status).toBe("queued");
+      expect(queue.getJob("brown-pelican")!.recordExpiresAt).toBeUndefined();
+    });
+
+    it("lets an expired name be submitted as a fresh job", () => {
+      queue.submitJob({ name: "Brown Pelican" });
+      queue.claimJob();
+      queue.completeJob("brown-pelican", { research: "Some text" });
+      queue.expireTerminalJobs(Date.now() + CONFIG.TERMINAL_JOB_TTL_MS + 1);
+
+      const { job, isDuplicate } = queue.submitJob({ name: "Brown Pelican" });
+      expect(isDuplicate).toBe(false);
+      expect(job.status).toBe("queued");
+      expect(queue.getResult("brown-pelican")!.body).toEqual({ research: "Some text" });
+    });
   });
 
   describe("retryJob", () => {
@@ -171,6 +585,97 @@ describe("Queue", () => {
     });
   });
 
+  describe("cancelJob", () => {
+    it("cancels a queued job and removes it from the queue", () => {
+      queue.submitJob({ name: "Brown Pelican" });
+
+      const job = queue.cancelJob("brown-pelican");
+      expect(job!.status).toBe("cancelled");
+      expect(queue.claimJob()).toBeUndefined();
+    });
+
+    it("prevents an in-flight worker from completing or retrying the job", () => {
+      queue.submitJob({ name: "Brown Pelican" });
+      queue.claimJob("w-1234");
+
+      const job = queue.cancelJob("brown-pelican");
+      expect(job!.status).toBe("cancelled");
+      expect(job!.lease).toBeUndefined();
+
+      expect(queue.completeJob("brown-pelican", { research: "x" }, "w-1234")).toBeUndefined();
+      expect(queue.retryJob("brown-pelican", Date.now(), "w-1234")).toBeUndefined();
+      expect(queue.completeJob("brown-pelican", { research: "x" })).toBeUndefined();
+      expect(queue.retryJob("brown-pelican", Date.now())).toBeUndefined();
+
+      expect(queue.getJob("brown-pelican")!.status).toBe("cancelled");
+      expect(queue.claimJob()).toBeUndefined();
+      expect(queue.reapExpiredLeases(Date.now() + CONFIG.LEASE_DURATION_MS + 1)).toHaveLength(0);
+    });
+
+    it("leaves a completed job unchanged", () => {
+      queue.submitJob({ name: "Brown Pelican" });
+      queue.claimJob();
+      queue.completeJob("brown-pelican", { research: "Some text" });
+
+      expect(queue.cancelJob("brown-pelican")!.status).toBe("completed");
+    });
+
+    it("requeues a cancelled job on resubmission", () => {
+      queue.submitJob({ name: "Brown Pelican" });
+      queue.cancelJob("brown-pelican");
+
+      const { job, isDuplicate } = queue.submitJob({ name: "Brown Pelican" });
+      expect(isDuplicate).toBe(false);
+      expect(job.status).toBe("queued");
+      expect(queue.claimJob()!.id).toBe("brown-pelican");
+    });
+  });
+
+  describe("deleteJob", () => {
+    it("removes the job so it can be submitted from scratch", () => {
+      queue.submitJob({ name: "Brown Pelican" });
+      queue.claimJob();
+      queue.completeJob("brown-pelican", { research: "Some text" });
+
+      expect(queue.deleteJob("brown-pelican")!.status).toBe("completed");
+      expect(queue.getJob("brown-pelican")).toBeUndefined();
+      expect(queue.getResult("brown-pelican")).toBeUndefined();
+
+      const { job, isDuplicate } = queue.submitJob({ name: "Brown Pelican" });
+      expect(isDuplicate).toBe(false);
+      expect(job.body).toEqual({});
+    });
+
+    it("removes a queued job from the queue", () => {
+      queue.submitJob({ name: "Brown Pelican" });
+      queue.deleteJob("brown-pelican");
+
+      expect(queue.claimJob()).toBeUndefined();
+    });
+  });
+
+  describe("releaseJob", () => {
+    it("requeues the job without counting a retry", () => {
+      queue.submitJob({ name: "Brown Pelican" });
+      queue.claimJob("w-1234");
+
+      const job = queue.releaseJob("brown-pelican", "w-1234");
+      expect(job!.status).toBe("queued");
+      expect(job!.retryCount).toBe(0);
+      expect(job!.lease).toBeUndefined();
+      expect(queue.completeJob("brown-pelican", { research: "x" }, "w-1234")).toBeUndefined();
+      expect(queue.claimJob("w-5678")!.id).toBe("brown-pelican");
+    });
+
+    it("ignores a worker that does not hold the lease", () => {
+      queue.submitJob({ name: "Brown Pelican" });
+      queue.claimJob("w-1234");
+
+      expect(queue.releaseJob("brown-pelican", "w-5678")).toBeUndefined();
+      expect(queue.getJob("brown-pelican")!.status).toBe("processing");
+    });
+  });
+
   describe("failJob", () => {
     it("marks a job as failed", () => {
       queue.submitJob({ name: "Brown Pelican" });
@@ -180,5 +685,354 @@ describe("Queue", () => {
       expect(job).toBeDefined();
       expect(job!.status).toBe("failed");
     });
+
+    it("records why the job failed", () => {
+      queue.submitJob({ name: "Brown Pelican" });
+      queue.claimJob("w-1234");
+
+      const job = queue.failJob("brown-pelican", "w-1234", { kind: "permanent", message: "not found" });
+      expect(job!.failureReason).toBe("permanent-error");
+      expect(job!.lastError).toBe("not found");
+    });
+
+    it("takes a queued job out of the queue when a trusted caller fails it", () => {
+      queue.submitJob({ name: "Brown Pelican" });
+
+      expect(queue.failJob("brown-pelican")!.status).toBe("failed");
+      expect(queue.getQueueIndex()).toEqual([]);
+      expect(queue.claimJob()).toBeUndefined();
+    });
+  });
+
+  describe("requeueJob", () => {
+    it("puts a future-dated retry back to run now with a fresh retry budget", () => {
+      queue.submitJob({ name: "Brown Pelican" });
+      queue.claimJob("w-1");
+      queue.retryJob("brown-pelican", Date.now() + 60_000, "w-1", { kind: "transient", message: "timeout" });
+
+      const job = queue.requeueJob("brown-pelican")!;
+      expect(job).toMatchObject({ status: "queued", retryCount: 0 });
+      expect(job.errorHistory).toBeUndefined();
+      expect(queue.getQueueIndex()).toHaveLength(1);
+      expect(queue.claimJob()?.id).toBe("brown-pelican");
+    });
+
+    it("takes a processing job's lease away", () => {
+      queue.submitJob({ name: "Brown Pelican" });
+      queue.claimJob("w-1");
+
+      queue.requeueJob("brown-pelican");
+      expect(queue.getProcessingJobs()).toEqual([]);
+      expect(queue.completeJob("brown-pelican", {}, "w-1")).toBeUndefined();
+    });
+
+    it("requeues failed and completed jobs and clears their dead letter and expiry", () => {
+      queue.submitJob({ name: "Brown Pelican" });
+      queue.claimJob("w-1");
+      queue.failJob("brown-pelican", "w-1", { kind: "permanent", message: "not found" });
+
+      const job = queue.requeueJob("brown-pelican")!;
+      expect(job.recordExpiresAt).toBeUndefined();
+      expect(job.failureReason).toBeUndefined();
+      expect(queue.getDeadLetter("brown-pelican")).toBeUndefined();
+
+      queue.claimJob("w-1");
+      queue.completeJob("brown-pelican", { extract: "A pelican." }, "w-1");
+      expect(queue.requeueJob("brown-pelican")!.status).toBe("queued");
+      expect(queue.getResult("brown-pelican")?.body).toEqual({ extract: "A pelican." });
+    });
+
+    it("returns undefined for an unknown job", () => {
+      expect(queue.requeueJob("dodo")).toBeUndefined();
+    });
+  });
+
+  describe("listJobs and getQueueIndex", () => {
+    it("lists jobs by status and dumps the index in claim order", () => {
+      queue.submitJob({ name: "Osprey", priority: 2 });
+      queue.submitJob({ name: "Brown Pelican", priority: 8 });
+      queue.submitJob({ name: "Snowy Owl" });
+      queue.claimJob("w-1");
+
+      expect(queue.listJobs().map((job) => job.id)).toEqual(["brown-pelican", "osprey", "snowy-owl"]);
+      expect(queue.listJobs("processing").map((job) => job.id)).toEqual(["brown-pelican"]);
+
+      const index = queue.getQueueIndex();
+      expect(index.map(({ jobId, priority }) => ({ jobId, priority }))).toEqual([
+        { jobId: "snowy-owl", priority: CONFIG.DEFAULT_PRIORITY },
+        { jobId: "osprey", priority: 2 },
+      ]);
+      expect(index[0]!.availableAt).toBe(queue.getJob("snowy-owl")!.availableForProcessingAt);
+      expect(index[0]!.key).toBe(queue.getJob("snowy-owl")!.queueKey);
+    });
+  });
+
+  describe("scheduled refreshes", () => {
+    const DAY_MS = 24 * 60 * 60 * 1000;
+
+    function research(name: string, body: Record<string, unknown> = { research: "Some text" }): string {
+      const { job } = queue.submitJob({ name });
+      queue.claimJob("w-1");
+      queue.completeJob(job.id, body, "w-1");
+      return job.id;
+    }
+
+    it("parses cron-style schedules", () => {
+      expect(refreshInterval("@daily")).toBe(DAY_MS);
+      expect(refreshInterval("@weekly")).toBe(7 * DAY_MS);
+      expect(refreshInterval("@every 1d12h")).toBe(1.5 * DAY_MS);
+      expect(refreshInterval("@every 90m")).toBe(90 * 60 * 1000);
+      expect(refreshInterval("@every 0h")).toBeUndefined();
+      expect(refreshInterval("0 * * * *")).toBeUndefined();
+    });
+
+    it("makes completed research due once it is stale", () => {
+      const before = Date.now();
+      research("Brown Pelican");
+
+      const dueAt = queue.getRefresh("brown-pelican")!.dueAt!;
+      expect(dueAt - queue.getResult("brown-pelican")!.fetchedAt).toBe(CONFIG.REFRESH_STALE_AFTER_MS);
+      expect(queue.scheduleRefreshes(before)).toEqual([]);
+      expect(dueAt).toBeGreaterThan(before);
+    });
+
+    it("queues a future-dated refresh in the refresh lane and keeps the previous result", () => {
+      research("Brown Pelican");
+      const { fetchedAt } = queue.getResult("brown-pelican")!;
+      const dueAt = fetchedAt + CONFIG.REFRESH_STALE_AFTER_MS;
+      const now = dueAt - CONFIG.REFRESH_CHECK_INTERVAL_MS / 2;
+
+      const [scheduled] = queue.scheduleRefreshes(now);
+      expect(scheduled!.fetchedAt).toBe(fetchedAt);
+      expect(scheduled!.job).toMatchObject({
+        status: "queued",
+        priority: CONFIG.REFRESH_PRIORITY,
+        availableForProcessingAt: dueAt,
+        retryCount: 0,
+      });
+      expect(scheduled!.job.recordExpiresAt).toBeUndefined();
+      expect(queue.getQueueIndex()).toEqual([
+        expect.objectContaining({ jobId: "brown-pelican", availableAt: dueAt }),
+      ]);
+      expect(queue.getResult("brown-pelican")!.body).toEqual({ research: "Some text" });
+
+      // Not claimable before it falls due, and not queued twice.
+      expect(queue.claimJob("w-1")).toBeUndefined();
+      expect(queue.scheduleRefreshes(now)).toEqual([]);
+      expect(queue.getRefresh("brown-pelican")!.dueAt).toBe(dueAt + CONFIG.REFRESH_STALE_AFTER_MS);
+    });
+
+    it("refreshes birds whose job record expired, and lets submissions go first", () => {
+      research("Brown Pelican");
+      const now = queue.getRefresh("brown-pelican")!.dueAt!;
+      queue.expireTerminalJobs(now);
+      expect(queue.getJob("brown-pelican")).toBeUndefined();
+
+      expect(queue.scheduleRefreshes(now)).toHaveLength(1);
+      expect(queue.getJob("brown-pelican")).toMatchObject({ name: "Brown Pelican", status: "queued" });
+
+      queue.submitJob({ name: "Snowy Owl" });
+      expect(queue.getQueueIndex().map((entry) => entry.jobId)).toEqual(["snowy-owl", "brown-pelican"]);
+    });
+
+    it("follows a bird's own schedule", () => {
+      queue.submitJob({ name: "Brown Pelican", refresh: "@every 6h" });
+      queue.claimJob("w-1");
+      queue.completeJob("brown-pelican", { research: "Some text" }, "w-1");
+      const { fetchedAt } = queue.getResult("brown-pelican")!;
+      expect(queue.getRefresh("brown-pelican")).toEqual({
+        schedule: "@every 6h",
+        dueAt: fetchedAt + 6 * 60 * 60 * 1000,
+      });
+
+      // A new schedule for a researched bird applies straight away.
+      queue.submitJob({ name: "brown pelican", refresh: "@daily" });
+      expect(queue.getRefresh("brown-pelican")!.dueAt).toBe(fetchedAt + DAY_MS);
+    });
+
+    it("caps how many refreshes are queued", () => {
+      const ids = Array.from({ length: CONFIG.REFRESH_BURST + 2 }, (_, i) => research(`Bird ${i}`));
+      const now = Math.max(...ids.map((id) => queue.getRefresh(id)!.dueAt!));
+
+      expect(queue.scheduleRefreshes(now)).toHaveLength(CONFIG.REFRESH_BURST);
+      expect(queue.scheduleRefreshes(now)).toHaveLength(0);
+
+      const refill = (60 * 60 * 1000) / CONFIG.REFRESH_MAX_PER_HOUR;
+      expect(queue.scheduleRefreshes(now + refill)).toHaveLength(1);
+    });
+
+    it("leaves cancelled birds and dead letters alone without spending tokens", () => {
+      for (const name of ["Brown Pelican", "Osprey"]) {
+        const { job } = queue.submitJob({ name, refresh: "@hourly" });
+        queue.claimJob("w-1");
+        queue.completeJob(job.id, { research: "Some text" }, "w-1");
+      }
+      expect(queue.scheduleRefreshes(queue.getRefresh("osprey")!.dueAt!)).toHaveLength(2);
+      queue.cancelJob("brown-pelican");
+      queue.failJob("osprey", undefined, { kind: "permanent", message: "not found" });
+
+      // Both fall due again before these, and must not take their tokens.
+      const ids = Array.from({ length: CONFIG.REFRESH_BURST }, (_, i) => research(`Bird ${i}`));
+      const now = Math.max(...ids.map((id) => queue.getRefresh(id)!.dueAt!));
+      const scheduled = queue.scheduleRefreshes(now);
+
+      expect(scheduled.map(({ job }) => job.id).sort()).toEqual([...ids].sort());
+      expect(queue.getJob("brown-pelican")!.status).toBe("cancelled");
+      expect(queue.getJob("osprey")!.status).toBe("failed");
+      expect(queue.getDeadLetter("osprey")).toBeDefined();
+    });
+
+    it("backfills results stored without a schedule and forgets purged birds", () => {
+      research("Brown Pelican");
+      expect(queue.backfillRefreshSchedule()).toBe(0);
+
+      queue.deleteJob("brown-pelican");
+      expect(queue.getRefresh("brown-pelican")).toBeUndefined();
+      expect(queue.scheduleRefreshes(Date.now() + 2 * CONFIG.REFRESH_STALE_AFTER_MS)).toEqual([]);
+    });
+  });
+
+  describe("getStatusCounts", () => {
+    it("keeps the counts in step with every change", () => {
+      queue.submitJobs([{ name: "Brown Pelican" }, { name: "Osprey" }, { name: "Snowy Owl" }]);
+      queue.claimJob("w-1");
+      queue.claimJob("w-1");
+      queue.completeJob("brown-pelican", { research: "Some text" }, "w-1");
+      queue.cancelJob("snowy-owl");
+      expect(queue.getStatusCounts()).toEqual({ queued: 0, processing: 1, completed: 1, failed: 0, cancelled: 1 });
+
+      queue.deleteJob("snowy-owl");
+      queue.expireTerminalJobs(Date.now() + CONFIG.TERMINAL_JOB_TTL_MS + 1);
+      queue.submitJob({ name: "Snowy Owl" });
+      expect(queue.getStatusCounts()).toEqual({ queued: 1, processing: 1, completed: 0, failed: 0, cancelled: 0 });
+    });
+
+    it("counts the jobs once in a database written before the counts were kept", () => {
+      queue.submitJobs([{ name: "Brown Pelican" }, { name: "Osprey" }]);
+      queue.claimJob("w-1");
+      getDb(dbPath).openDB("status-counts", { encoding: "msgpack" }).clearSync();
+
+      expect(new Queue(dbPath).getStatusCounts()).toEqual({
+        queued: 1,
+        processing: 1,
+        completed: 0,
+        failed: 0,
+        cancelled: 0,
+      });
+    });
+  });
+
+  describe("dead letters", () => {
+    it("keeps failed jobs, including reaped ones, until they are resubmitted", () => {
+      queue.submitJob({ name: "Brown Pelican" });
+      queue.claimJob("w-1234");
+      queue.failJob("brown-pelican", "w-1234", { kind: "permanent", message: "not found" });
+
+      queue.submitJob({ name: "Snowy Owl" });
+      for (let i = 0; i < CONFIG.RETRY_POLICIES.transient.maxRetries; i++) {
+        queue.claimJob();
+        queue.retryJob("snowy-owl", Date.now());
+      }
+      const claimed = queue.claimJob("w-1234", 1000);
+      queue.reapExpiredLeases(claimed!.lease!.expiresAt + 1);
+
+      expect(queue.getDeadLetter("snowy-owl")).toMatchObject({
+        error: "Lease expired",
+        failureReason: "retries-exhausted",
+      });
+      expect(queue.listDeadLetters({ errorContains: "NOT FOUND" }).map((d) => d.id)).toEqual(["brown-pelican"]);
+
+      queue.submitJob({ name: "Brown Pelican" });
+      expect(queue.getDeadLetter("brown-pelican")).toBeUndefined();
+    });
+
+    it("filters by failure time", () => {
+      queue.submitJob({ name: "Brown Pelican" });
+      queue.claimJob("w-1234");
+      const failed = queue.failJob("brown-pelican", "w-1234", { kind: "permanent", message: "x" })!;
+      const failedAt = queue.getDeadLetter("brown-pelican")!.failedAt;
+
+      expect(failed.status).toBe("failed");
+      expect(queue.listDeadLetters({ from: failedAt, to: failedAt })).toHaveLength(1);
+      expect(queue.listDeadLetters({ from: failedAt + 1 })).toHaveLength(0);
+      expect(queue.listDeadLetters({ to: failedAt - 1 })).toHaveLength(0);
+    });
+
+    it("replays a job whose record has expired", () => {
+      queue.submitJob({ name: "Brown Pelican", priority: 8 });
+      queue.claimJob("w-1234");
+      queue.failJob("brown-pelican", "w-1234", { kind: "permanent", message: "x" });
+      queue.expireTerminalJobs(Date.now() + CONFIG.TERMINAL_JOB_TTL_MS + 1);
+      expect(queue.getJob("brown-pelican")).toBeUndefined();
+
+      const [replayed] = queue.replayDeadLetters();
+      expect(replayed!.job).toMatchObject({ status: "queued", priority: 8, retryCount: 0 });
+      expect(queue.listDeadLetters()).toHaveLength(0);
+    });
+
+    it("replays under the stored job ID after the name becomes an alias", () => {
+      queue.submitJob({ name: "Ospreys" });
+      queue.claimJob("w-1234");
+      queue.failJob("ospreys", "w-1234", { kind: "permanent", message: "x" });
+      queue.expireTerminalJobs(Date.now() + CONFIG.TERMINAL_JOB_TTL_MS + 1);
+
+      queue.submitJob({ name: "Osprey" });
+      queue.claimJob("w-1234");
+      queue.completeJob("osprey", { research: "Some text" }, "w-1234", "wikipedia", "Ospreys");
+      expect(queue.resolveJobId("ospreys")).toBe("osprey");
+
+      const [replayed] = queue.replayDeadLetters(["ospreys"]);
+      expect(replayed!.job).toMatchObject({ id: "ospreys", name: "Ospreys", status: "queued" });
+      expect(queue.getJob("ospreys")!.status).toBe("queued");
+      expect(queue.getJob("osprey")!.status).toBe("completed");
+    });
+
+    it("is removed when the job is purged", () => {
+      queue.submitJob({ name: "Brown Pelican" });
+      queue.claimJob("w-1234");
+      queue.failJob("brown-pelican", "w-1234", { kind: "permanent", message: "x" });
+
+      queue.deleteJob("brown-pelican");
+      expect(queue.getDeadLetter("brown-pelican")).toBeUndefined();
+    });
+  });
+
+  describe("error history", () => {
+    it("appends each failed attempt", () => {
+      queue.submitJob({ name: "Brown Pelican" });
+      queue.claimJob("w-1234");
+      queue.retryJob("brown-pelican", Date.now(), "w-1234", { kind: "transient", message: "timeout" });
+      queue.claimJob("w-5678");
+      queue.releaseJob("brown-pelican", "w-5678", Date.now(), { kind: "rate-limited", message: "429" });
+
+      const job = queue.getJob("brown-pelican")!;
+      expect(job.errorHistory!.map(({ kind, message, workerId }) => ({ kind, message, workerId }))).toEqual([
+        { kind: "transient", message: "timeout", workerId: "w-1234" },
+        { kind: "rate-limited", message: "429", workerId: "w-5678" },
+      ]);
+      expect(job.lastError).toBe("429");
+      expect(job.retryCount).toBe(1);
+    });
+
+    it("records an expired lease as a transient error", () => {
+      queue.submitJob({ name: "Brown Pelican" });
+      const claimed = queue.claimJob("w-1234", 1000);
+      queue.reapExpiredLeases(claimed!.lease!.expiresAt + 1);
+
+      expect(queue.getJob("brown-pelican")!.errorHistory).toEqual([
+        { timestamp: expect.any(Number), kind: "transient", message: "Lease expired", workerId: "w-1234" },
+      ]);
+    });
+
+    it("is cleared when a failed job is resubmitted", () => {
+      queue.submitJob({ name: "Brown Pelican" });
+      queue.claimJob("w-1234");
+      queue.failJob("brown-pelican", "w-1234", { kind: "permanent", message: "not found" });
+
+      const { job } = queue.submitJob({ name: "Brown Pelican" });
+      expect(job.errorHistory).toBeUndefined();
+      expect(job.failureReason).toBeUndefined();
+      expect(job.lastError).toBeUndefined();
+    });
   });
 });
@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import { JOB_REQUEST } from "../src/api/routes.js";
+import { type Schema, validate } from "../src/api/schema.js";
+import { CONFIG } from "../src/lib/config.js";
+
+const JOB: Schema = {
+  type: "object",
+  properties: {
+    name: { type: "string", minLength: 1, maxLength: 5, pattern: "^\\p{L}+$" },
+    priority: { type: "integer", minimum: 0, maximum: 9 },
+  },
+  required: ["name"],
+};
+
+describe("validate", () => {
+  it("returns the value when it matches", () => {
+    expect(validate(JOB, { name: "Owl", priority: 3 }, "body")).toEqual({
+      value: { name: "Owl", priority: 3 },
+    });
+  });
+
+  it("reports every issue with its path", () => {
+    const result = validate(JOB, { priority: 12, color: "brown" }, "body");
+    expect(result).toEqual({
+      issues: [
+        { path: "body.color", message: "is not allowed" },
+        { path: "body.name", message: "is required" },
+        { path: "body.priority", message: "must be between 0 and 9" },
+      ],
+    });
+  });
+
+  it("checks string length in characters and the pattern", () => {
+    expect(validate(JOB, { name: "Ééééé" }, "body")).toEqual({ value: { name: "Ééééé" } });
+    expect(validate(JOB, { name: "Eagles" }, "body")).toMatchObject({
+      issues: [{ path: "body.name", message: "must be at most 5 characters" }],
+    });
+    expect(validate(JOB, { name: "Owl!" }, "body")).toMatchObject({
+      issues: [{ path: "body.name" }],
+    });
+  });
+
+  it("coerces query strings to integers, booleans and comma-separated arrays", () => {
+    const query: Schema = {
+      type: "object",
+      properties: {
+        limit: { type: "integer", minimum: 1 },
+        purge: { type: "boolean" },
+        action: { type: "array", items: { type: "string", enum: ["a", "b"] } },
+      },
+    };
+
+    expect(validate(query, { limit: "10", purge: "true", action: "a,b" }, "query", true)).toEqual({
+      value: { limit: 10, purge: true, action: ["a", "b"] },
+    });
+    expect(validate(query, { limit: "ten", action: "a,c" }, "query", true)).toEqual({
+      issues: [
+        { path: "query.limit", message: "must be an integer" },
+        { path: "query.action[1]", message: "must be one of a, b" },
+      ],
+    });
+  });
+
+  it("uses the first matching oneOf option", () => {
+    const selection: Schema = {
+      oneOf: [
+        { type: "object", properties: { ids: { type: "array", minItems: 1 } }, required: ["ids"] },
+        { type: "object", properties: { all: { type: "boolean", enum: [true] } }, required: ["all"] },
+      ],
+      description: "ids or all",
+    };
+
+    expect(validate(selection, { all: true }, "body")).toEqual({ value: { all: true } });
+    expect(validate(selection, { all: false }, "body")).toEqual({
+      issues: [{ path: "body", message: "must be ids or all" }],
+    });
+  });
+
+  it("holds names to the job ID limit the queue enforces", () => {
+    const longest = "\uFDFA".repeat(Math.floor(CONFIG.MAX_JOB_ID_BYTES / 33));
+    expect(validate(JOB_REQUEST, { name: longest }, "body")).toEqual({ value: { name: longest } });
+    expect(validate(JOB_REQUEST, { name: `${longest}\uFDFA` }, "body")).toEqual({
+      issues: [{ path: "body.name", message: `makes a job ID longer than ${CONFIG.MAX_JOB_ID_BYTES} bytes` }],
+    });
+  });
+
+  it("rejects repeated query parameters where one value is expected", () => {
+    const query: Schema = { type: "object", properties: { name: { type: "string" } } };
+    expect(validate(query, { name: ["a", "b"] }, "query", true)).toEqual({
+      issues: [{ path: "query.name", message: "must be a single value" }],
+    });
+  });
+});
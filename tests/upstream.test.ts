@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, afterAll } from "vitest";
+import { mkdtempSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { RateLimiter } from "../src/lib/ratelimit.js";
+import { CircuitBreaker } from "../src/lib/breaker.js";
+import { closeAll } from "../src/lib/db.js";
+
+let dbPath: string;
+
+beforeEach(() => {
+  dbPath = mkdtempSync(join(tmpdir(), "upstream-test-"));
+});
+
+afterAll(() => {
+  closeAll();
+});
+
+describe("RateLimiter", () => {
+  it("hands out tokens up to capacity and then says when the next one is due", () => {
+    const limiter = new RateLimiter(dbPath, 2, 4);
+    const now = 1_000_000;
+
+    expect(limiter.tryAcquire("wikipedia", now)).toEqual({ acquired: true });
+    expect(limiter.tryAcquire("wikipedia", now)).toEqual({ acquired: true });
+    expect(limiter.tryAcquire("wikipedia", now)).toEqual({ acquired: false, retryAt: now + 250 });
+
+    expect(limiter.tryAcquire("wikipedia", now + 250)).toEqual({ acquired: true });
+  });
+
+  it("shares the bucket across instances on the same database", () => {
+    const now = 1_000_000;
+    expect(new RateLimiter(dbPath, 1, 1).tryAcquire("wikipedia", now).acquired).toBe(true);
+    expect(new RateLimiter(dbPath, 1, 1).tryAcquire("wikipedia", now).acquired).toBe(false);
+    expect(new RateLimiter(dbPath, 1, 1).tryAcquire("fixture", now).acquired).toBe(true);
+  });
+
+  it("hands out nothing while paused", () => {
+    const limiter = new RateLimiter(dbPath, 5, 5);
+    const now = 1_000_000;
+
+    limiter.pauseUntil("wikipedia", now + 10_000, now);
+    expect(limiter.tryAcquire("wikipedia", now + 5000)).toEqual({ acquired: false, retryAt: now + 10_000 });
+    expect(limiter.tryAcquire("wikipedia", now + 10_000)).toEqual({ acquired: true });
+  });
+});
+
+describe("CircuitBreaker", () => {
+  const options = { windowMs: 60_000, minRequests: 4, failureRateThreshold: 0.5, openMs: 30_000 };
+
+  it("opens once the failure rate reaches the threshold", () => {
+    const breaker = new CircuitBreaker(dbPath, options);
+    const now = 1_000_000;
+
+    expect(breaker.record("wikipedia", true, now)).toBeUndefined();
+    expect(breaker.record("wikipedia", false, now)).toBeUndefined();
+    expect(breaker.record("wikipedia", true, now)).toBeUndefined();
+    expect(breaker.record("wikipedia", false, now)).toEqual({ from: "closed", to: "open", failureRate: 0.5 });
+
+    expect(breaker.getState("wikipedia")).toBe("open");
+    expect(breaker.check("wikipedia", now + 1000)).toEqual({ allowed: false, retryAt: now + 30_000 });
+  });
+
+  it("goes half-open after openMs and closes on a success", () => {
+    const breaker = new CircuitBreaker(dbPath, options);
+    const now = 1_000_000;
+    for (let i = 0; i < 4; i++) breaker.record("wikipedia", false, now);
+
+    const check = breaker.check("wikipedia", now + 30_000);
+    expect(check.allowed).toBe(true);
+    expect(check.transition).toMatchObject({ from: "open", to: "half-open" });
+
+    expect(breaker.record("wikipedia", true, now + 30_001)).toMatchObject({ from: "half-open", to: "closed" });
+    expect(breaker.getState("wikipedia")).toBe("closed");
+  });
+
+  it("reopens when the half-open request fails", () => {
+    const breaker = new CircuitBreaker(dbPath, options);
+    const now = 1_000_000;
+    for (let i = 0; i < 4; i++) breaker.record("wikipedia", false, now);
+    breaker.check("wikipedia", now + 30_000);
+
+    expect(breaker.record("wikipedia", false, now + 30_001)).toMatchObject({ from: "half-open", to: "open" });
+    expect(breaker.check("wikipedia", now + 30_002)).toEqual({ allowed: false, retryAt: now + 60_001 });
+  });
+
+  it("forgets outcomes older than the window", () => {
+    const breaker = new CircuitBreaker(dbPath, options);
+    const now = 1_000_000;
+    for (let i = 0; i < 3; i++) breaker.record("wikipedia", false, now);
+
+    expect(breaker.record("wikipedia", false, now + 60_001)).toBeUndefined();
+    expect(breaker.getState("wikipedia")).toBe("closed");
+  });
+});
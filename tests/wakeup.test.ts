@@ -0,0 +1,39 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { WakeupSignal } from "../src/lib/wakeup.js";
+
+let signal: WakeupSignal;
+
+afterEach(() => {
+  signal.close();
+});
+
+describe("WakeupSignal", () => {
+  it("resolves after the timeout when nothing is notified", async () => {
+    signal = new WakeupSignal(mkdtempSync(join(tmpdir(), "wakeup-test-")));
+
+    const start = Date.now();
+    await signal.wait(50);
+    expect(Date.now() - start).toBeGreaterThanOrEqual(45);
+  });
+
+  it("wakes a waiter in the same process", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "wakeup-test-"));
+    signal = new WakeupSignal(dir);
+
+    const woken = signal.wait(60_000);
+    new WakeupSignal(dir).notify();
+    await woken;
+  });
+
+  it("wakes a waiter when another process touches the signal file", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "wakeup-test-"));
+    signal = new WakeupSignal(dir);
+
+    const woken = signal.wait(60_000);
+    writeFileSync(join(dir, "wakeup"), String(Date.now()));
+    await woken;
+  });
+});
@@ -6,13 +6,19 @@ import { Queue } from "../src/lib/queue.js";
 import { Observer } from "../src/observer/observer.js";
 import { closeAll } from "../src/lib/db.js";
 import { CONFIG } from "../src/lib/config.js";
-import { computeBackoff, runWorker } from "../src/worker/worker.js";
-
+import { ActionType, type BirdResearch } from "../src/lib/types.js";
+import { RateLimiter } from "../src/lib/ratelimit.js";
+import { CircuitBreaker } from "../src/lib/breaker.js";
+import { PermanentError, RateLimitedError } from "../src/providers/errors.js";
+import { RESEARCH_SCHEMA_VERSION } from "../src/providers/research.js";
+import { computeBackoff, idleDelay, runWorker, scheduleRefreshes } from "../src/worker/worker.js";
+
+let queuePath: string;
 let queue: Queue;
 let observer: Observer;
 
 beforeEach(() => {
-  const queuePath = mkdtempSync(join(tmpdir(), "worker-queue-test-"));
+  queuePath = mkdtempSync(join(tmpdir(), "worker-queue-test-"));
   const observerPath = mkdtempSync(join(tmpdir(), "worker-observer-test-"));
   queue = new Queue(queuePath);
   observer = new Observer(observerPath);
@@ -22,6 +28,38 @@ afterAll(() => {
   closeAll();
 });
 
+/** A successful Wikipedia API response for a page with the given introduction. */
+function wikipediaResponse(title: string, extract: string): { ok: true; json: () => Promise<unknown> } {
+  return {
+    ok: true,
+    json: async () => ({
+      query: {
+        pages: [
+          {
+            title,
+            extract,
+            lastrevid: 1,
+            canonicalurl: `https://en.wikipedia.org/wiki/${title.replace(/ /g, "_")}`,
+          },
+        ],
+      },
+    }),
+  };
+}
+
+/** Research on a bird that matches the research schema. */
+function researchOn(name: string, fields: Partial<BirdResearch> = {}): BirdResearch {
+  return {
+    schemaVersion: RESEARCH_SCHEMA_VERSION,
+    canonicalTitle: name,
+    summary: `Research on ${name}`,
+    sourceUrl: "https://example.org/birds",
+    revisionId: 1,
+    fetchedAt: 0,
+    ...fields,
+  };
+}
+
 describe("worker", () => {
   describe("computeBackoff", () => {
     it("returns a future timestamp", () => {
@@ -59,6 +97,51 @@ describe("worker", () => {
     });
   });
 
+  describe("idleDelay", () => {
+    it("sleeps until the next future-dated job becomes available", () => {
+      const now = Date.now();
+      queue.submitJob({ name: "Bald Eagle" });
+      queue.claimJob("w-test");
+      queue.retryJob("bald-eagle", now + 1500, "w-test");
+
+      expect(idleDelay(queue, now)).toBe(1500);
+    });
+
+    it("sleeps until the next lease expires", () => {
+      const now = Date.now();
+      queue.submitJob({ name: "Bald Eagle" });
+      const job = queue.claimJob("w-test", 2000)!;
+
+      expect(idleDelay(queue, now)).toBe(job.lease!.expiresAt - now);
+    });
+
+    it("sleeps for at most MAX_IDLE_MS on an empty queue", () => {
+      expect(idleDelay(queue)).toBe(CONFIG.MAX_IDLE_MS);
+    });
+  });
+
+  describe("scheduleRefreshes", () => {
+    it("queues stale research and logs job-refresh-scheduled", () => {
+      queue.submitJob({ name: "Bald Eagle", refresh: "@weekly" });
+      queue.claimJob("w-test");
+      queue.completeJob("bald-eagle", { research: "An eagle." }, "w-test");
+      const { dueAt } = queue.getRefresh("bald-eagle")!;
+
+      scheduleRefreshes("w-test", queue, observer, dueAt!);
+
+      expect(queue.getJob("bald-eagle")!.status).toBe("queued");
+      const [entry] = observer.searchLogs({ actions: [ActionType.JOB_REFRESH_SCHEDULED] }).entries;
+      expect(entry!.body).toEqual({
+        jobId: "bald-eagle",
+        name: "Bald Eagle",
+        workerId: "w-test",
+        fetchedAt: queue.getResult("bald-eagle")!.fetchedAt,
+        availableAt: dueAt,
+        schedule: "@weekly",
+      });
+    });
+  });
+
   describe("runWorker", () => {
     beforeEach(() => {
       vi.useFakeTimers();
@@ -72,23 +155,24 @@ describe("worker", () => {
       queue.submitJob({ name: "Brown Pelican" });
 
       // Mock fetch to return a successful Wikipedia response
-      const mockFetch = vi.fn().mockResolvedValue({
-        ok: true,
-        json: async () => ({
-          query: {
-            pages: [{ extract: "The brown pelican is a large bird." }],
-          },
-        }),
-      });
+      const mockFetch = vi
+        .fn()
+        .mockResolvedValue(wikipediaResponse("Brown pelican", "The brown pelican is a large bird."));
       vi.stubGlobal("fetch", mockFetch);
 
-      // Run one poll cycle — runWorker calls poll() once before scheduling setTimeout
-      await runWorker("w-test", queue, observer);
+      // Run one poll cycle — the first poll runs before anything is scheduled
+      await runWorker("w-test", queue, observer).firstPoll;
 
       const job = queue.getJob("brown-pelican");
       expect(job).toBeDefined();
       expect(job!.status).toBe("completed");
-      expect(job!.body).toEqual({ research: "The brown pelican is a large bird." });
+      expect(job!.body).toMatchObject({
+        schemaVersion: RESEARCH_SCHEMA_VERSION,
+        canonicalTitle: "Brown pelican",
+        summary: "The brown pelican is a large bird.",
+        sourceUrl: "https://en.wikipedia.org/wiki/Brown_pelican",
+        revisionId: 1,
+      });
 
       vi.unstubAllGlobals();
     });
@@ -98,7 +182,7 @@ describe("worker", () => {
 
       vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new Error("network error")));
 
-      await runWorker("w-test", queue, observer);
+      await runWorker("w-test", queue, observer).firstPoll;
 
       const job = queue.getJob("brown-pelican");
       expect(job).toBeDefined();
@@ -112,7 +196,7 @@ describe("worker", () => {
     it("fails a job when processing fails and retryCount >= MAX_RETRIES", async () => {
       queue.submitJob({ name: "Brown Pelican" });
 
-      for (let i = 0; i < CONFIG.MAX_RETRIES; i++) {
+      for (let i = 0; i < CONFIG.RETRY_POLICIES.transient.maxRetries; i++) {
         const claimed = queue.claimJob();
         expect(claimed).toBeDefined();
         queue.retryJob("brown-pelican", Date.now());
@@ -121,12 +205,14 @@ describe("worker", () => {
       vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new Error("still broken")));
       vi.spyOn(console, "log").mockImplementation(() => {}); // Suppress the ALERT console.log from observer
 
-      await runWorker("w-test", queue, observer);
+      await runWorker("w-test", queue, observer).firstPoll;
 
       const job = queue.getJob("brown-pelican");
       expect(job).toBeDefined();
       expect(job!.status).toBe("failed");
-      expect(job!.retryCount).toBe(CONFIG.MAX_RETRIES);
+      expect(job!.retryCount).toBe(CONFIG.RETRY_POLICIES.transient.maxRetries);
+      expect(job!.failureReason).toBe("retries-exhausted");
+      expect(job!.lastError).toBe("still broken");
 
       vi.restoreAllMocks();
       vi.unstubAllGlobals();
@@ -134,7 +220,7 @@ describe("worker", () => {
 
     it("does nothing when queue is empty", async () => {
       // No jobs submitted — runWorker should just return without error
-      await runWorker("w-test", queue, observer);
+      await runWorker("w-test", queue, observer).firstPoll;
 
       // Only the worker-start log should exist
       const trace = observer.getTrace("anything");
@@ -144,14 +230,12 @@ describe("worker", () => {
     it("logs job-claimed and job-completed on success", async () => {
       queue.submitJob({ name: "Bald Eagle" });
 
-      vi.stubGlobal("fetch", vi.fn().mockResolvedValue({
-        ok: true,
-        json: async () => ({
-          query: { pages: [{ extract: "The bald eagle is a bird of prey." }] },
-        }),
-      }));
+      vi.stubGlobal(
+        "fetch",
+        vi.fn().mockResolvedValue(wikipediaResponse("Bald eagle", "The bald eagle is a bird of prey."))
+      );
 
-      await runWorker("w-test", queue, observer);
+      await runWorker("w-test", queue, observer).firstPoll;
 
       const trace = observer.getTrace("bald-eagle");
       const actions = trace.map(e => e.action);
@@ -161,12 +245,51 @@ describe("worker", () => {
       vi.unstubAllGlobals();
     });
 
+    it("reaps expired leases before claiming and logs job-lease-expired", async () => {
+      queue.submitJob({ name: "Bald Eagle" });
+      queue.claimJob("w-dead", -1);
+
+      vi.stubGlobal(
+        "fetch",
+        vi.fn().mockResolvedValue(wikipediaResponse("Bald eagle", "The bald eagle is a bird of prey."))
+      );
+
+      await runWorker("w-test", queue, observer).firstPoll;
+
+      const trace = observer.getTrace("bald-eagle");
+      const expired = trace.find(e => e.action === "job-lease-expired");
+      expect(expired).toBeDefined();
+      expect(expired!.type).toBe("warning");
+      expect(expired!.body.previousWorkerId).toBe("w-dead");
+      expect(expired!.body.retryCount).toBe(1);
+
+      const job = queue.getJob("bald-eagle");
+      expect(job!.status).toBe("completed");
+      expect(job!.retryCount).toBe(1);
+
+      vi.unstubAllGlobals();
+    });
+
+    it("uses the given research provider", async () => {
+      queue.submitJob({ name: "Bald Eagle" });
+
+      await runWorker("w-test", queue, observer, {
+        name: "stub",
+        research: async (job) => ({ ...researchOn(job.name) }),
+      }).firstPoll;
+
+      const job = queue.getJob("bald-eagle");
+      expect(job!.status).toBe("completed");
+      expect(job!.body).toEqual(researchOn("Bald Eagle"));
+      expect(queue.getResult("bald-eagle")!.source).toBe("stub");
+    });
+
     it("logs job-retry on retriable failure", async () => {
       queue.submitJob({ name: "Bald Eagle" });
 
       vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new Error("timeout")));
 
-      await runWorker("w-test", queue, observer);
+      await runWorker("w-test", queue, observer).firstPoll;
 
       const trace = observer.getTrace("bald-eagle");
       const retryEntry = trace.find(e => e.action === "job-retry");
@@ -177,5 +300,244 @@ describe("worker", () => {
 
       vi.unstubAllGlobals();
     });
+
+    it("wakes up as soon as a job is submitted", async () => {
+      await runWorker("w-test", queue, observer, {
+        name: "stub",
+        research: async (job) => ({ ...researchOn(job.name) }),
+      }).firstPoll;
+
+      queue.submitJob({ name: "Bald Eagle" });
+
+      await vi.waitFor(() => expect(queue.getJob("bald-eagle")!.status).toBe("completed"), {
+        timeout: CONFIG.MAX_IDLE_MS / 2,
+        interval: 1,
+      });
+    });
+
+    it("keeps reporting in while a long job is in flight", async () => {
+      queue.submitJob({ name: "Bald Eagle" });
+      let finish: (body: Record<string, unknown>) => void = () => {};
+      runWorker("w-test", queue, observer, {
+        name: "stub",
+        research: () => new Promise((resolve) => (finish = resolve)),
+      });
+
+      const rule = CONFIG.ALERT_RULES.find((r) => r.kind === "worker-heartbeat")!;
+      await vi.advanceTimersByTimeAsync(rule.windowMs * 3);
+
+      expect(observer.countLiveWorkers(Date.now() - CONFIG.HEARTBEAT_INTERVAL_MS)).toBe(1);
+      expect(await observer.checkAlerts({ kinds: ["worker-heartbeat"] })).toEqual([]);
+      expect(queue.getJob("bald-eagle")!.status).toBe("processing");
+
+      finish({ ...researchOn("Bald Eagle") });
+      await vi.waitFor(() => expect(queue.getJob("bald-eagle")!.status).toBe("completed"));
+    });
+
+    it("stops claiming jobs after stop()", async () => {
+      const worker = runWorker("w-test", queue, observer, {
+        name: "stub",
+        research: async (job) => ({ ...researchOn(job.name) }),
+      });
+      await worker.firstPoll;
+
+      worker.stop();
+      queue.submitJob({ name: "Bald Eagle" });
+      await vi.advanceTimersByTimeAsync(CONFIG.MAX_IDLE_MS);
+
+      expect(queue.getJob("bald-eagle")!.status).toBe("queued");
+    });
+
+    it("drains by waiting for the in-flight job", async () => {
+      queue.submitJob({ name: "Bald Eagle" });
+      let finish: (body: Record<string, unknown>) => void = () => {};
+      const worker = runWorker("w-test", queue, observer, {
+        name: "stub",
+        research: () => new Promise((resolve) => (finish = resolve)),
+      });
+
+      const drained = worker.drain(1000);
+      finish({ ...researchOn("Bald Eagle") });
+      await drained;
+
+      expect(queue.getJob("bald-eagle")!.status).toBe("completed");
+      const stop = observer.searchLogs({ actions: [ActionType.WORKER_STOP] }).entries;
+      expect(stop).toHaveLength(1);
+      expect(stop[0]!.body).toEqual({ workerId: "w-test" });
+    });
+
+    it("requeues a job still in flight when the drain times out", async () => {
+      queue.submitJob({ name: "Bald Eagle" });
+      const worker = runWorker("w-test", queue, observer, {
+        name: "stub",
+        research: () => new Promise(() => {}),
+      });
+
+      const drained = worker.drain(1000);
+      await vi.advanceTimersByTimeAsync(1000);
+      await drained;
+
+      const job = queue.getJob("bald-eagle")!;
+      expect(job.status).toBe("queued");
+      expect(job.retryCount).toBe(0);
+      expect(job.lease).toBeUndefined();
+
+      const stop = observer.searchLogs({ actions: [ActionType.WORKER_STOP] }).entries;
+      expect(stop[0]!.body).toEqual({ workerId: "w-test", jobId: "bald-eagle", name: "Bald Eagle" });
+    });
+
+    it("requeues a rate limited job without using a retry and pauses the limiter", async () => {
+      queue.submitJob({ name: "Bald Eagle" });
+      const limiter = new RateLimiter(queuePath);
+      const retryAt = Date.now() + 60_000;
+
+      await runWorker("w-test", queue, observer, {
+        name: "stub",
+        research: async () => {
+          throw new RateLimitedError("slow down", retryAt);
+        },
+      }, { limiter }).firstPoll;
+
+      const job = queue.getJob("bald-eagle")!;
+      expect(job.status).toBe("queued");
+      expect(job.retryCount).toBe(0);
+      expect(job.availableForProcessingAt).toBe(retryAt);
+      expect(limiter.tryAcquire("stub")).toEqual({ acquired: false, retryAt });
+
+      const trace = observer.getTrace("bald-eagle").map(e => e.action);
+      expect(trace).toContain("job-rate-limited");
+      expect(trace).not.toContain("job-retry");
+    });
+
+    it("does not claim while the circuit breaker is open", async () => {
+      queue.submitJob({ name: "Bald Eagle" });
+      const breaker = new CircuitBreaker(queuePath);
+      for (let i = 0; i < CONFIG.BREAKER_MIN_REQUESTS; i++) breaker.record("stub", false);
+
+      await runWorker("w-test", queue, observer, {
+        name: "stub",
+        research: async (job) => ({ ...researchOn(job.name) }),
+      }, { breaker }).firstPoll;
+
+      expect(queue.getJob("bald-eagle")!.status).toBe("queued");
+    });
+
+    it("reports circuit breaker transitions to the observer", async () => {
+      const breaker = new CircuitBreaker(queuePath, {
+        windowMs: 60_000,
+        minRequests: 1,
+        failureRateThreshold: 0.5,
+        openMs: 30_000,
+      });
+      queue.submitJob({ name: "Bald Eagle" });
+
+      await runWorker("w-test", queue, observer, {
+        name: "stub",
+        research: async () => {
+          throw new Error("upstream down");
+        },
+      }, { breaker }).firstPoll;
+
+      expect(observer.getCircuitBreakers().stub!.state).toBe("open");
+      const [entry] = observer.searchLogs({ actions: [ActionType.CIRCUIT_BREAKER] }).entries;
+      expect(entry!.type).toBe("warning");
+      expect(entry!.body).toMatchObject({ provider: "stub", state: "open", previousState: "closed" });
+    });
+
+    it("records the canonical title the provider reports as an alias", async () => {
+      queue.submitJob({ name: "Pelecanus occidentalis" });
+
+      await runWorker("w-test", queue, observer, {
+        name: "stub",
+        research: async () => ({ ...researchOn("Brown pelican") }),
+      }).firstPoll;
+
+      expect(queue.resolveJobId("brown-pelican")).toBe("pelecanus-occidentalis");
+      const [completed] = observer.searchLogs({ actions: [ActionType.JOB_COMPLETED] }).entries;
+      expect(completed!.body.canonicalTitle).toBe("Brown pelican");
+    });
+
+    it("fails research that doesn't match the schema instead of storing it", async () => {
+      queue.submitJob({ name: "Bald Eagle" });
+
+      await runWorker("w-test", queue, observer, {
+        name: "stub",
+        research: async () => ({ research: "An opaque string." }),
+      }).firstPoll;
+
+      const job = queue.getJob("bald-eagle")!;
+      expect(job.status).toBe("failed");
+      expect(job.failureReason).toBe("permanent-error");
+      expect(job.lastError).toContain(`doesn't match schema version ${RESEARCH_SCHEMA_VERSION}`);
+      expect(job.lastError).toContain("research.canonicalTitle is required");
+      expect(queue.getResult("bald-eagle")).toBeUndefined();
+    });
+
+    it("fails a job on a permanent error without retrying it", async () => {
+      queue.submitJob({ name: "Not A Bird" });
+
+      await runWorker("w-test", queue, observer, {
+        name: "stub",
+        research: async () => {
+          throw new PermanentError('No page found for "Not A Bird"');
+        },
+      }).firstPoll;
+
+      const job = queue.getJob("not-a-bird")!;
+      expect(job.status).toBe("failed");
+      expect(job.retryCount).toBe(0);
+      expect(job.failureReason).toBe("permanent-error");
+      expect(job.errorHistory).toEqual([
+        {
+          timestamp: expect.any(Number),
+          kind: "permanent",
+          message: 'No page found for "Not A Bird"',
+          workerId: "w-test",
+        },
+      ]);
+
+      const [failed] = observer.searchLogs({ actions: [ActionType.JOB_FAILED] }).entries;
+      expect(failed!.body).toMatchObject({ errorKind: "permanent", reason: "permanent-error" });
+    });
+
+    it("does not count permanent errors against the circuit breaker", async () => {
+      const breaker = new CircuitBreaker(queuePath, {
+        windowMs: 60_000,
+        minRequests: 1,
+        failureRateThreshold: 0.5,
+        openMs: 30_000,
+      });
+      queue.submitJob({ name: "Not A Bird" });
+
+      await runWorker("w-test", queue, observer, {
+        name: "stub",
+        research: async () => {
+          throw new PermanentError("not found");
+        },
+      }, { breaker }).firstPoll;
+
+      expect(breaker.getState("stub")).toBe("closed");
+    });
+
+    it("fails a job that stays rate limited past its policy", async () => {
+      queue.submitJob({ name: "Bald Eagle" });
+      const maxRetries = CONFIG.RETRY_POLICIES["rate-limited"].maxRetries;
+      for (let i = 0; i < maxRetries; i++) {
+        queue.claimJob("w-test");
+        queue.releaseJob("bald-eagle", "w-test", Date.now(), { kind: "rate-limited", message: "slow down" });
+      }
+
+      await runWorker("w-test", queue, observer, {
+        name: "stub",
+        research: async () => {
+          throw new RateLimitedError("slow down", Date.now() + 60_000);
+        },
+      }).firstPoll;
+
+      const job = queue.getJob("bald-eagle")!;
+      expect(job.status).toBe("failed");
+      expect(job.failureReason).toBe("retries-exhausted");
+      expect(job.errorHistory).toHaveLength(maxRetries + 1);
+    });
   });
 });